@@ -0,0 +1,23 @@
+// Times the heightfield and trimesh terrain colliders of the default map, as in
+// the README table.
+//
+//   npm run bench-colliders -- [--bodies 200] [--steps 300]
+
+import { parseArgs } from 'node:util'
+
+import { benchmarkTerrainColliders } from '../src/game/benchTerrainColliders'
+
+const { values } = parseArgs({
+  options: { bodies: { type: 'string', default: '200' }, steps: { type: 'string', default: '300' } },
+})
+const bodies = Number(values.bodies)
+const steps = Number(values.steps)
+if (!Number.isInteger(bodies) || bodies < 0) throw new Error('--bodies must be a whole number')
+if (!Number.isInteger(steps) || steps <= 0) throw new Error('--steps must be a positive integer')
+
+for (const r of await benchmarkTerrainColliders({ bodies, steps })) {
+  console.log(
+    `${r.kind.padEnd(11)} build ${r.buildMsPerChunk.toFixed(2)} ms per chunk, ` +
+      `step ${r.stepMs.toFixed(2)} ms, world ${(r.worldBytes / 1e6).toFixed(1)} MB`,
+  )
+}
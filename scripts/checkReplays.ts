@@ -0,0 +1,123 @@
+// Records scripted sessions headlessly, plays each recording back with
+// `runReplay` and fails if any playback ends in a different state.
+//
+//   npm run check-replays -- [--frames 3000]
+
+import { parseArgs } from 'node:util'
+
+import { Simulation } from '../src/game/Simulation'
+import { ThirdPersonCamera } from '../src/game/camera/ThirdPersonCamera'
+import type { InputState } from '../src/game/input/Input'
+import { InputRecorder, parseReplay, type RoundAction } from '../src/game/input/Replay'
+import { runReplay } from '../src/game/runReplay'
+import type { GuardLevel } from '../src/game/settings/DifficultySettings'
+import { deriveSeed, mulberry32 } from '../src/game/utils/random'
+
+type Case = {
+  name: string
+  seed: number
+  guards: GuardLevel
+  /** How the recording starts: New game or Continue from a save taken earlier in the session. */
+  start: 'new-game' | 'continue'
+}
+
+const CASES: Case[] = [
+  { name: 'new game', seed: 11, guards: 'off', start: 'new-game' },
+  { name: 'new game with geese', seed: 3, guards: 'fierce', start: 'new-game' },
+  { name: 'continue', seed: 11, guards: 'normal', start: 'continue' },
+  { name: 'continue', seed: 3, guards: 'off', start: 'continue' },
+]
+
+// Played before the recording starts, so it begins in a world that has seen a run already.
+const WARMUP_FRAMES = 600
+
+const { values } = parseArgs({ options: { frames: { type: 'string', default: '3000' } } })
+const frames = Number(values.frames)
+if (!Number.isInteger(frames) || frames <= 0) throw new Error('--frames must be a positive integer')
+
+let failed = 0
+for (const c of CASES) {
+  const { live, replay } = await check(c, frames)
+  const same = live === replay
+  if (!same) failed++
+  console.log(`${same ? 'ok  ' : 'FAIL'} ${c.name}, world #${c.seed}, ${frames} frames`)
+  if (!same) console.log(`  session:  ${live}\n  playback: ${replay}`)
+}
+process.exit(failed > 0 ? 1 : 0)
+
+async function check(c: Case, frameCount: number) {
+  // Seeded input that changes every few frames: walking, turning, running, jumping, sniffing.
+  const rand = mulberry32(deriveSeed(c.seed, 'check-replays'))
+  let state: InputState = { forward: 0, right: 0, runHeld: false, jumpPressed: false, jumpHeld: false, sniffHeld: false }
+  let look = { dx: 0, dy: 0 }
+  const nextInput = () => {
+    if (rand() < 0.05) {
+      state = {
+        forward: rand() < 0.8 ? 1 : rand() * 2 - 1,
+        right: rand() < 0.5 ? 0 : rand() * 2 - 1,
+        runHeld: rand() < 0.2,
+        jumpPressed: false,
+        jumpHeld: false,
+        sniffHeld: rand() < 0.08,
+      }
+      look = { dx: (rand() - 0.5) * 30, dy: (rand() - 0.5) * 4 }
+    }
+    state.jumpPressed = rand() < 0.02
+  }
+
+  const recorder = new InputRecorder({ getState: () => state, consumeMouseDelta: () => look })
+  const sim = await Simulation.create({ input: recorder, seed: c.seed, headless: true })
+  const camera = new ThirdPersonCamera(sim.physics, recorder)
+
+  // Frame order as in `Game.stepFrame`.
+  let frame = 0
+  const play = (count: number, restartAt = -1) => {
+    for (let i = 0; i < count; i++, frame++) {
+      nextInput()
+      const roundAction: RoundAction | null = i === restartAt ? 'restart' : null
+      const f = recorder.beginFrame(1 / 60 + (frame % 5) * 0.0013, roundAction)!
+      if (f.roundAction === 'restart') {
+        sim.restartRound()
+        camera.update(0, sim.player.group.position)
+      }
+      sim.step(f.dt, camera.yaw)
+      camera.update(f.dt, sim.player.group.position)
+    }
+  }
+  const angles = () => ({ yaw: camera.yaw, pitch: camera.pitch })
+
+  sim.setGuardLevel(c.guards)
+  sim.newRun()
+  play(WARMUP_FRAMES)
+
+  if (c.start === 'continue') {
+    const saved = JSON.parse(JSON.stringify(sim.snapshot(angles())))
+    play(WARMUP_FRAMES / 2)
+    sim.restore(saved)
+    camera.yaw = saved.camera.yaw
+    camera.pitch = saved.camera.pitch
+  } else {
+    sim.newRun()
+  }
+
+  recorder.clear()
+  const start = sim.snapshot(angles())
+  play(frameCount, Math.floor(frameCount / 2))
+
+  const file = parseReplay(
+    JSON.parse(JSON.stringify(recorder.toFile(c.seed, sim.levelFile.id, start, c.start === 'new-game'))),
+  )
+  const played = await runReplay(file)
+
+  const live = describe(sim)
+  const replay = describe(played)
+  sim.physics.world.free()
+  played.physics.world.free()
+  return { live, replay }
+}
+
+/** Everything a save holds, without the clock time it was taken at. */
+function describe(sim: Simulation) {
+  const { savedAt: _savedAt, ...state } = sim.snapshot({ yaw: 0, pitch: 0 })
+  return JSON.stringify(state)
+}
@@ -0,0 +1,59 @@
+// Scores a range of world seeds with `scoreWorldSeeds` and lists the best ones.
+//
+//   npm run score-seeds -- [--from 1] [--count 100] [--rounds 1] [--level meadow] [--top 10]
+
+import { readFile } from 'node:fs/promises'
+import { parseArgs } from 'node:util'
+
+import { DEFAULT_LEVEL, DEFAULT_LEVEL_ID, parseLevelFile } from '../src/game/levels/LevelFile'
+import { scoreWorldSeeds } from '../src/game/scoreWorldSeeds'
+
+const { values } = parseArgs({
+  options: {
+    from: { type: 'string', default: '1' },
+    count: { type: 'string', default: '100' },
+    rounds: { type: 'string', default: '1' },
+    level: { type: 'string', default: DEFAULT_LEVEL_ID },
+    top: { type: 'string', default: '10' },
+  },
+})
+
+const from = wholeNumber('from', 0)
+const count = wholeNumber('count', 1)
+const rounds = wholeNumber('rounds', 1)
+const top = wholeNumber('top', 0)
+const levelFile = values.level === DEFAULT_LEVEL_ID ? DEFAULT_LEVEL : await loadLevel(values.level)
+
+const scores = await scoreWorldSeeds({
+  from,
+  count,
+  rounds,
+  levelFile,
+  onSeed: ({ seed, score, rounds }) => {
+    const fixed = rounds.filter((r) => !r.ownerReachable || r.berryPatches > 0).map((r) => r.round)
+    console.log(`world #${seed}: ${score.toFixed(3)}${fixed.length ? `, fixed rounds ${fixed.join(', ')}` : ''}`)
+  },
+})
+
+const zero = scores.filter((s) => s.score === 0).length
+console.log(`\n${zero} of ${scores.length} seeds score 0: a round needed fixing or cannot be won`)
+if (top > 0) {
+  const best = [...scores].sort((a, b) => b.score - a.score).slice(0, top)
+  console.log(`best: ${best.map((s) => `#${s.seed} (${s.score.toFixed(3)})`).join(', ')}`)
+}
+
+function wholeNumber(name: 'from' | 'count' | 'rounds' | 'top', min: number) {
+  const value = Number(values[name])
+  if (!Number.isInteger(value) || value < min) throw new Error(`--${name} must be a whole number of at least ${min}`)
+  return value
+}
+
+/** Reads `public/levels/<id>.json` from disk, as `loadLevelFile` fetches it in the browser. */
+async function loadLevel(id: string) {
+  const path = new URL(`../public/levels/${id}.json`, import.meta.url)
+  try {
+    return parseLevelFile(JSON.parse(await readFile(path, 'utf8')), id)
+  } catch (e) {
+    throw new Error(`levels/${id}.json: ${(e as Error).message}`)
+  }
+}
@@ -1,29 +1,61 @@
 import {
   ACESFilmicToneMapping,
   Clock,
-  Color,
-  DirectionalLight,
-  Fog,
-  HemisphereLight,
   PCFSoftShadowMap,
   Scene,
-  Vector3,
   WebGLRenderer,
 } from 'three'
 import * as THREE from 'three'
 
-import { Input } from './input/Input'
-import { Physics } from './physics/Physics'
-import { Terrain } from './world/Terrain'
-import { Decor } from './world/Decor'
-import { OwnerGoal } from './world/OwnerGoal'
-import { Berries } from './world/Berries'
+import { Input, type GamepadConfig } from './input/Input'
+import { loadBindings, loadKeyboardLayout, saveBindings, type KeyBindings } from './input/Bindings'
+import { TouchControls, isTouchDevice } from './input/TouchControls'
+import { InputRecorder, ReplayPlayback, type FrameInput, type ReplayFile, type RoundAction } from './input/Replay'
+import { startReplay } from './runReplay'
+import { Simulation } from './Simulation'
+import { DEFAULT_LEVEL_ID, type LevelFile } from './levels/LevelFile'
+import { clearRunSnapshot, saveRunSnapshot, type RunSnapshot } from './save/RunSnapshot'
 import { OwnerArrow } from './ui/OwnerArrow'
-import { Player } from './player/Player'
+import { SettingsMenu } from './ui/SettingsMenu'
+import { PauseMenu } from './ui/PauseMenu'
+import { TitleScreen } from './ui/TitleScreen'
+import { renderControlsHelp } from './ui/ControlsHelp'
+import type { Player } from './player/Player'
 import { ThirdPersonCamera } from './camera/ThirdPersonCamera'
+import { TerrainMesh } from './world/TerrainMesh'
+import { Water } from './world/Water'
+import { Grass } from './world/Grass'
+import { ScentWisps } from './world/ScentWisps'
+import { HintPath } from './world/HintPath'
+import { DayNight } from './world/DayNight'
+import { WeatherEffects } from './world/WeatherEffects'
+import { SunShadows, type ShadowQuality } from './world/SunShadows'
+import { decorDisplay } from './world/Decor'
+import {
+  GRAPHICS_PRESETS,
+  loadGraphicsSettings,
+  saveGraphicsSettings,
+  type GraphicsSettings,
+} from './settings/GraphicsSettings'
+import {
+  loadDifficultySettings,
+  saveDifficultySettings,
+  type DifficultySettings,
+} from './settings/DifficultySettings'
+import { DynamicResolution, measureDisplayRefresh } from './render/DynamicResolution'
+import { PostProcessing } from './render/PostProcessing'
+import { deriveSeed } from './utils/random'
 import { loadDogSet } from './assets/loadDog'
 import { clone as cloneSkeleton } from 'three/examples/jsm/utils/SkeletonUtils.js'
 
+const AUTOSAVE_INTERVAL_MS = 5000
+
+/**
+ * loading → title → playing → celebrating → round-over → playing…; playing and
+ * celebrating can be paused. The simulation only advances while a round runs.
+ */
+export type GameState = 'loading' | 'title' | 'playing' | 'paused' | 'celebrating' | 'round-over'
+
 export type GameOptions = {
   root: HTMLElement
   canvas: HTMLCanvasElement
@@ -33,6 +65,21 @@ export type GameOptions = {
   confirmYes: HTMLButtonElement
   confirmNo: HTMLButtonElement
   hungerEl: HTMLElement
+  levelEl: HTMLElement
+  /** HUD block listing the controls; regenerated whenever bindings change. */
+  controlsEl: HTMLElement
+  /** World seed, see `Simulation`. */
+  seed: number
+  /** The map to play, see `levels/LevelFile.ts`. */
+  level: LevelFile
+  /** Plays this recording instead of live input (its seed and level must match). */
+  replay?: ReplayFile
+  /** Saved run offered on the title screen; ignored unless it is for this seed and level. */
+  snapshot?: RunSnapshot
+  /** Stick deadzones, curves and button mapping. */
+  gamepad?: Partial<GamepadConfig>
+  /** Shadow map size and cascade count; `high` by default. */
+  shadowQuality?: ShadowQuality
 }
 
 export class Game {
@@ -44,41 +91,56 @@ export class Game {
   private readonly confirmYes: HTMLButtonElement
   private readonly confirmNo: HTMLButtonElement
   private readonly hungerEl: HTMLElement
+  private readonly levelEl: HTMLElement
+  private readonly controlsEl: HTMLElement
+  private readonly seed: number
+  private readonly level: LevelFile
+  private readonly replay: ReplayFile | null
+  private readonly savedRun: RunSnapshot | null
+  /** State the current recording started from, or the replay's own start. */
+  private startSnapshot: RunSnapshot | null
+  /** The current recording began with New game rather than Continue. */
+  private startedNewRun = false
+  private readonly gamepadConfig: Partial<GamepadConfig> | undefined
+  /** Overrides the graphics preset's shadows, e.g. from the URL. */
+  private readonly shadowQuality: ShadowQuality | undefined
 
   private renderer!: WebGLRenderer
   private scene!: Scene
   private clock = new Clock()
 
   private input!: Input
-  private physics!: Physics
-
-  private terrain!: Terrain
-  private decor!: Decor
-  private ownerGoal!: OwnerGoal
-  private berries!: Berries
+  private frameInput!: FrameInput
+  private pendingRoundAction: RoundAction | null = null
+  private sim!: Simulation
+  private terrainMesh!: TerrainMesh
+  private water!: Water
+  private grass!: Grass
+  private scentWisps!: ScentWisps
+  private hintPath!: HintPath
+  private dayNight!: DayNight
+  private weatherEffects!: WeatherEffects
+  private shadows!: SunShadows
+  private post!: PostProcessing
+  private graphics!: GraphicsSettings
+  private difficulty!: DifficultySettings
+  private readonly dynamicResolution = new DynamicResolution()
 
-  private player!: Player
   private cameraCtrl!: ThirdPersonCamera
 
   private currentDog: { root: THREE.Group; clips: THREE.AnimationClip[] } | null = null
   private currentDogTemplate: THREE.Group | null = null
   private uiArrow!: OwnerArrow
+  private settingsMenu!: SettingsMenu
+  private pauseMenu!: PauseMenu
+  private titleScreen!: TitleScreen
+  private touchControls: TouchControls | null = null
   private winAudio: HTMLAudioElement | null = null
   private bgAudio: HTMLAudioElement | null = null
   private eatBerryAudio: HTMLAudioElement | null = null
 
-  // Hunger
-  private hunger = 100
-  private readonly hungerMax = 100
-  private readonly hungerBerryRestore = 10
-  private readonly hungerBaseDrainPerSecMoving = 0.35
-  private readonly hungerExtraDrainPerSecAtMaxSpeed = 0.9
-  private readonly hungerMinSpeedToDrain = 0.35
-
-  private celebrating = false
-  private celebrateTimer = 0
-  private awaitingRestart = false
-
+  private state: GameState = 'loading'
+  private pausedFrom: 'playing' | 'celebrating' = 'playing'
   private running = false
 
   constructor(opts: GameOptions) {
@@ -90,84 +152,139 @@ export class Game {
     this.confirmYes = opts.confirmYes
     this.confirmNo = opts.confirmNo
     this.hungerEl = opts.hungerEl
+    this.levelEl = opts.levelEl
+    this.controlsEl = opts.controlsEl
+    this.seed = opts.seed
+    this.level = opts.level
+    this.replay = opts.replay ?? null
+    const saved = opts.snapshot
+    const savedLevel = saved?.level ?? DEFAULT_LEVEL_ID
+    this.savedRun = saved && saved.seed === opts.seed && savedLevel === opts.level.id ? saved : null
+    this.startSnapshot = this.replay?.start ?? null
+    this.gamepadConfig = opts.gamepad
+    this.shadowQuality = opts.shadowQuality
   }
 
   async init() {
     this.setStatus('Инициализация…')
 
+    this.graphics = loadGraphicsSettings()
+    const preset = GRAPHICS_PRESETS[this.graphics.quality]
+
     this.renderer = new WebGLRenderer({
       canvas: this.canvas,
-      antialias: true,
+      // The scene is drawn into the post-processing targets, which do their own multisampling.
+      antialias: false,
     })
 
-    this.renderer.setPixelRatio(Math.min(window.devicePixelRatio, 2))
+    this.applyPixelRatio()
     this.renderer.shadowMap.enabled = true
     this.renderer.shadowMap.type = PCFSoftShadowMap
     this.renderer.toneMapping = ACESFilmicToneMapping
     this.renderer.toneMappingExposure = 1.08
 
     this.scene = new Scene()
-    this.scene.background = new Color(0x88a9d8)
-    this.scene.fog = new Fog(0x88a9d8, 120, 1100)
-
-    this.input = new Input(this.canvas)
-
-    this.physics = await Physics.create()
-
-    this.addLights()
+    this.dayNight = new DayNight(this.scene, this.level.lighting, this.level.dayNight)
+    this.scene.add(this.dayNight.group)
+
+    this.input = new Input(this.canvas, { bindings: loadBindings(), gamepad: this.gamepadConfig })
+    if (isTouchDevice()) {
+      this.touchControls = new TouchControls(this.root, this.canvas)
+      this.input.attachTouchControls(this.touchControls)
+      this.root.classList.add('touch')
+    }
+    this.frameInput = this.replay ? new ReplayPlayback(this.replay) : new InputRecorder(this.input)
+
+    this.sim = await Simulation.create({ input: this.frameInput, seed: this.seed, levelFile: this.level })
+    this.terrainMesh = new TerrainMesh(this.sim.terrain, { viewDistance: this.viewDistance() })
+    this.scene.add(this.terrainMesh.group)
+    this.water = new Water(this.sim.terrain, { color: this.level.water.color })
+    this.scene.add(this.water.group)
+    this.grass = new Grass(this.sim.terrain, { seed: deriveSeed(this.seed, 'grass') })
+    this.grass.setDensity(preset.grassDensity)
+    this.scene.add(this.grass.group)
+    this.scentWisps = new ScentWisps(deriveSeed(this.seed, 'scent-wisps'))
+    this.scene.add(this.scentWisps.group)
+    this.hintPath = new HintPath()
+    this.scene.add(this.hintPath.group)
+    this.scene.add(this.sim.group)
+    this.weatherEffects = new WeatherEffects(
+      this.scene,
+      this.dayNight.sun,
+      this.level.lighting,
+      this.level.weather,
+      deriveSeed(this.seed, 'weather-effects'),
+    )
+    this.scene.add(this.weatherEffects.group)
+    this.applyDrawDistance()
+    decorDisplay.density.value = preset.decorDensity
 
-    this.terrain = new Terrain({
-      seed: 42,
-      maxHeight: 55,
-      borderHeight: 165,
+    this.difficulty = loadDifficultySettings()
+    this.uiArrow = new OwnerArrow(this.root)
+    this.uiArrow.setVisible(this.difficulty.compass)
+    this.hintPath.setEnabled(this.difficulty.hintPath)
+    // Created before the settings panel so that it opens on top of them.
+    this.titleScreen = new TitleScreen(this.root, {
+      onNewGame: this.startNewRun,
+      onContinue: this.continueRun,
+      onSettings: () => this.settingsMenu.open(),
     })
-    this.scene.add(this.terrain.mesh)
-    this.terrain.addPhysicsCollider(this.physics)
-
-    // Safety floor (helps debug if something goes wrong with the terrain collider).
-    this.addSafetyFloor()
-
-    this.addWorldWalls()
-
-    this.ownerGoal = new OwnerGoal(this.terrain, this.physics)
-    this.scene.add(this.ownerGoal.group)
-
-    const denseTarget = this.ownerGoal.getYardPosition().clone().multiplyScalar(0.6)
-    this.decor = new Decor(this.terrain, this.physics, {
-      denseTarget,
+    this.pauseMenu = new PauseMenu(this.root, {
+      onPause: () => this.pause(),
+      onResume: this.resume,
+      onRestart: this.restartRound,
+      onSettings: () => this.settingsMenu.open(),
+      onQuit: this.quitToTitle,
     })
-    this.scene.add(this.decor.group)
-    await this.decor.ready().catch(() => {})
-
-    this.berries = new Berries(this.terrain)
-    this.scene.add(this.berries.group)
-    await this.berries.ready()
+    this.pauseMenu.setReplayMode(this.replay !== null)
+    this.settingsMenu = new SettingsMenu(
+      this.root,
+      this.input.getBindings(),
+      this.onBindingsChange,
+      this.graphics,
+      this.onGraphicsChange,
+      this.difficulty,
+      this.onDifficultyChange,
+    )
+    this.renderControls()
+    void loadKeyboardLayout().then((loaded) => loaded && this.renderControls())
 
+    const { audio } = this.level
 
-    this.uiArrow = new OwnerArrow(this.root)
+    this.winAudio = new Audio(`${import.meta.env.BASE_URL}${audio.win}`)
+    this.winAudio.volume = audio.winVolume
 
-    this.winAudio = new Audio(`${import.meta.env.BASE_URL}assets/sounds/win.mp3`)
-    this.winAudio.volume = 0.6
-
-    this.bgAudio = new Audio(`${import.meta.env.BASE_URL}assets/sounds/background.mp3`)
+    this.bgAudio = new Audio(`${import.meta.env.BASE_URL}${audio.music}`)
     this.bgAudio.loop = true
-    this.bgAudio.volume = 0.35
-
-    this.eatBerryAudio = new Audio(`${import.meta.env.BASE_URL}assets/sounds/eatBerry.mp3`)
-    this.eatBerryAudio.volume = 0.55
+    this.bgAudio.volume = audio.musicVolume
+
+    this.eatBerryAudio = new Audio(`${import.meta.env.BASE_URL}${audio.eatBerry}`)
+    this.eatBerryAudio.volume = audio.eatBerryVolume
+
+    this.cameraCtrl = new ThirdPersonCamera(this.sim.physics, this.frameInput)
+    this.shadows = new SunShadows(
+      this.scene,
+      this.dayNight.sun,
+      this.dayNight.sunDirection,
+      this.cameraCtrl.camera,
+      this.shadowQuality ?? preset.shadows,
+    )
+    this.post = new PostProcessing(
+      this.renderer,
+      this.scene,
+      this.cameraCtrl.camera,
+      this.graphics.effects,
+      preset.antialias,
+    )
+    this.post.setPixelRatio(this.renderer.getPixelRatio())
 
-    const spawnY = this.terrain.getHeightAt(0, 0) + 6
-    this.player = new Player(this.physics, this.input, {
-      spawn: new Vector3(0, spawnY, 0),
-    })
-    if (this.currentDogTemplate) {
-      const model = cloneSkeleton(this.currentDogTemplate) as THREE.Group
-      this.player.setModel(model, this.currentDog?.clips ?? [])
+    if (this.replay?.start) {
+      startReplay(this.sim, this.replay)
+      this.applyDogModel(this.sim.player)
+      this.cameraCtrl.yaw = this.replay.start.camera.yaw
+      this.cameraCtrl.pitch = this.replay.start.camera.pitch
     }
-
-    this.scene.add(this.player.group)
-
-    this.cameraCtrl = new ThirdPersonCamera(this.physics, this.input)
+    this.updateSky()
 
     this.resize()
     window.addEventListener('resize', this.resize)
@@ -177,13 +294,36 @@ export class Game {
     this.confirmYes.addEventListener('click', () => this.confirmRestart(true))
     this.confirmNo.addEventListener('click', () => this.confirmRestart(false))
     this.canvas.addEventListener('click', this.tryPlayBackground)
+    // Back to the game closes the menu (the same click also grabs pointer lock).
+    this.canvas.addEventListener('click', () => this.settingsMenu.close())
+    window.addEventListener('keydown', this.onKeyDown)
+    document.addEventListener('pointerlockchange', this.onPointerLockChange)
+    document.addEventListener('visibilitychange', () => {
+      if (document.visibilityState !== 'hidden') return
+      this.saveRun()
+      this.pause()
+    })
+
+    if (!this.replay) {
+      window.setInterval(this.saveRun, AUTOSAVE_INTERVAL_MS)
+      window.addEventListener('pagehide', this.saveRun)
+    }
 
-    this.setStatus('Кликни по сцене (мышь), чтобы играть')
     this.setNotice('')
     this.setConfirm(false)
-
-    this.hunger = this.hungerMax
     this.renderHunger()
+    this.renderLevel()
+
+    if (this.replay) {
+      this.setStatus('Воспроизведение повтора…')
+      this.setState('playing')
+    } else {
+      this.showTitle(this.savedRun)
+    }
+
+    // The loop has not started yet, so nothing slows these frames down.
+    const refreshMs = await measureDisplayRefresh()
+    if (refreshMs) this.dynamicResolution.setTargetFrameMs(refreshMs)
   }
 
   start() {
@@ -200,40 +340,29 @@ export class Game {
   private tick = () => {
     if (!this.running) return
 
-     const dt = this.clock.getDelta()
- 
-     const allowMove = !this.celebrating
-     this.player.applyInput(dt, this.cameraCtrl.yaw, allowMove)
- 
-     this.physics.step(dt)
- 
-    this.player.sync(dt, allowMove)
-    this.ownerGoal.update(dt)
-    this.berries.update(dt)
-
-    this.updateHunger(dt)
-    this.tryCollectBerries()
-
-    this.cameraCtrl.update(dt, this.player.group.position)
-
- 
-     this.renderer.render(this.scene, this.cameraCtrl.camera)
-
-
-    if (!this.celebrating) {
-      this.checkOwnerFound()
-    } else if (!this.awaitingRestart) {
-      this.celebrateTimer -= dt
-      if (this.celebrateTimer <= 0) {
-        this.awaitingRestart = true
-        this.player.stopCelebration()
-        this.setConfirm(true)
-        if (document.pointerLockElement) {
-          document.exitPointerLock()
-        }
-      }
+    const rawDt = this.clock.getDelta()
+    this.input.update(rawDt)
+
+    if (this.graphics.dynamicResolution && this.dynamicResolution.update(rawDt)) {
+      this.applyPixelRatio()
     }
 
+    if (this.input.consumePausePressed()) {
+      this.togglePause()
+    }
+
+    if (this.isRoundRunning) {
+      if (!this.stepFrame(rawDt)) return
+    } else {
+      // Look input gathered behind a menu must not jerk the camera afterwards.
+      this.input.consumeMouseDelta()
+    }
+
+    this.terrainMesh.update(this.cameraCtrl.camera.position)
+    this.grass.update(rawDt, this.sim.player.group.position)
+    this.shadows.update(this.sim.player.group.position)
+    this.renderFrame(rawDt)
+
     this.updateGoalArrow()
 
     this.input.endFrame()
@@ -241,85 +370,229 @@ export class Game {
     requestAnimationFrame(this.tick)
   }
 
-  private resize = () => {
-    const width = this.canvas.clientWidth || window.innerWidth
-    const height = this.canvas.clientHeight || window.innerHeight
+  /** Advances the simulation by one frame; false once a replay has run out. */
+  private stepFrame(rawDt: number) {
+    const frame = this.frameInput.beginFrame(rawDt, this.pendingRoundAction)
+    this.pendingRoundAction = null
 
-    this.renderer.setSize(width, height, false)
-    this.cameraCtrl?.setAspect(width / height)
+    if (!frame) {
+      this.setStatus('Повтор закончился')
+      this.stop()
+      return false
+    }
+
+    if (frame.roundAction) {
+      this.applyRoundAction(frame.roundAction)
+    }
+
+    const dt = frame.dt
+
+    const step = this.sim.step(dt, this.cameraCtrl.yaw)
+    this.water.update(dt)
+    this.updateSky(dt)
+    this.scentWisps.update(
+      dt,
+      this.sim.scent,
+      this.sim.player.group.position,
+      this.sim.player.isSniffing,
+      this.sim.weather.scentFade,
+      this.sim.weather.state,
+    )
+    this.hintPath.update(
+      dt,
+      this.sim.nav,
+      this.sim.terrain,
+      this.sim.player.group.position,
+      this.sim.ownerGoal.ownerPosition,
+    )
+
+    if (step.berriesCollected > 0 || step.animalsCaught > 0) {
+      this.playEatBerrySound()
+    }
+
+    if (step.ownerFound) {
+      this.setState('celebrating')
+      this.pauseBackground()
+      this.playWinSound()
+      this.setNotice('Вы нашли хозяина!')
+    }
+
+    if (step.roundOver) {
+      this.setState('round-over')
+      this.setConfirm(true)
+      if (document.pointerLockElement) {
+        document.exitPointerLock()
+      }
+    }
+
+    this.updateStarvingStatus()
+    this.renderHunger()
+
+    this.cameraCtrl.update(dt, this.sim.player.group.position)
+    return true
   }
 
-  private addLights() {
-    const hemi = new HemisphereLight(0xcfe8ff, 0x274020, 0.85)
-    this.scene.add(hemi)
+  private get isRoundRunning() {
+    return this.state === 'playing' || this.state === 'celebrating' || this.state === 'round-over'
+  }
 
-    const sun = new DirectionalLight(0xffffff, 1.15)
-    sun.position.set(60, 130, 40)
-    sun.castShadow = true
-    sun.shadow.mapSize.set(4096, 4096)
-    sun.shadow.camera.near = 1
-    sun.shadow.camera.far = 500
-    sun.shadow.camera.left = -160
-    sun.shadow.camera.right = 160
-    sun.shadow.camera.top = 160
-    sun.shadow.camera.bottom = -160
+  private setState(state: GameState) {
+    this.state = state
+    this.pauseMenu.setButtonVisible(state === 'playing' || state === 'celebrating')
+  }
 
-    this.scene.add(sun)
+  private showTitle(saved: RunSnapshot | null) {
+    this.setState('title')
+    this.setNotice('')
+    this.setConfirm(false)
+    this.pauseBackground()
+    this.titleScreen.show(saved)
   }
 
-  private addSafetyFloor() {
-    const { RAPIER, world } = this.physics
+  private startNewRun = () => {
+    clearRunSnapshot()
+    this.sim.setGuardLevel(this.difficulty.guards)
+    this.sim.newRun()
+    this.applyDogModel(this.sim.player)
+    this.beginRun(true)
+  }
 
-    const w = this.terrain.config.width
-    const d = this.terrain.config.depth
+  private continueRun = (snapshot: RunSnapshot) => {
+    this.restoreRun(snapshot)
+    this.beginRun(false)
+  }
 
-    world.createCollider(
-      // NOTE: cuboid takes half-extents.
-      RAPIER.ColliderDesc.cuboid(w, 40, d)
-        .setTranslation(0, -260, 0)
-        .setFriction(1.0),
-    )
+  private restoreRun(snapshot: RunSnapshot) {
+    this.sim.restore(snapshot)
+    this.applyDogModel(this.sim.player)
+    this.cameraCtrl.yaw = snapshot.camera.yaw
+    this.cameraCtrl.pitch = snapshot.camera.pitch
   }
 
-  private addWorldWalls() {
-    const { RAPIER, world } = this.physics
+  /** Leaves the title screen; the recording restarts from the current state. */
+  private beginRun(newRun: boolean) {
+    if (this.frameInput instanceof InputRecorder) {
+      this.frameInput.clear()
+    }
+    this.startSnapshot = this.sim.snapshot(this.cameraAngles())
+    this.startedNewRun = newRun
+
+    this.titleScreen.hide()
+    this.settingsMenu.close()
+    this.setNotice('')
+    this.setConfirm(false)
+    this.setStatus(this.startHint())
+    this.renderHunger()
+    this.renderLevel()
+    this.updateSky()
+    this.cameraCtrl.update(0, this.sim.player.group.position)
 
-    const w = this.terrain.config.width
-    const d = this.terrain.config.depth
+    this.setState('playing')
+    this.lockPointer()
+    this.tryPlayBackground()
+  }
 
-    const thickness = 5
-    const height = 80
+  private pause() {
+    if (this.state !== 'playing' && this.state !== 'celebrating') return
 
-    const halfW = w / 2
-    const halfD = d / 2
+    this.pausedFrom = this.state
+    this.setState('paused')
+    this.pauseMenu.show()
+    this.pauseBackground()
 
-    // +X
-    world.createCollider(
-      RAPIER.ColliderDesc.cuboid(thickness, height, halfD + thickness)
-        .setTranslation(halfW + thickness, height, 0)
-        .setFriction(1.0),
-    )
+    if (document.pointerLockElement) {
+      document.exitPointerLock()
+    }
+  }
 
-    // -X
-    world.createCollider(
-      RAPIER.ColliderDesc.cuboid(thickness, height, halfD + thickness)
-        .setTranslation(-halfW - thickness, height, 0)
-        .setFriction(1.0),
-    )
+  private resume = () => {
+    if (this.state !== 'paused') return
 
-    // +Z
-    world.createCollider(
-      RAPIER.ColliderDesc.cuboid(halfW + thickness, height, thickness)
-        .setTranslation(0, height, halfD + thickness)
-        .setFriction(1.0),
-    )
+    this.settingsMenu.close()
+    this.pauseMenu.hide()
+    this.setState(this.pausedFrom)
+    this.lockPointer()
 
-    // -Z
-    world.createCollider(
-      RAPIER.ColliderDesc.cuboid(halfW + thickness, height, thickness)
-        .setTranslation(0, height, -halfD - thickness)
-        .setFriction(1.0),
-    )
+    if (this.pausedFrom === 'playing') {
+      this.resumeBackground()
+    }
+  }
+
+  private togglePause() {
+    if (this.state === 'paused') this.resume()
+    else this.pause()
+  }
+
+  private restartRound = () => {
+    // A replay carries its own restarts.
+    if (this.replay) return
+
+    // Applied at the start of the next frame so the recorder captures it.
+    this.pendingRoundAction = 'restart'
+    this.pausedFrom = 'playing'
+    this.resume()
+  }
+
+  private quitToTitle = () => {
+    if (this.replay) return
+
+    const snapshot = this.sim.snapshot(this.cameraAngles())
+    saveRunSnapshot(snapshot)
+
+    this.pendingRoundAction = null
+    this.setStatus('')
+    this.settingsMenu.close()
+    this.pauseMenu.hide()
+    this.showTitle(snapshot)
+  }
+
+  /** Grabs the mouse again; must run inside a click handler to be allowed. */
+  private lockPointer() {
+    if (!this.usesPointerLock()) return
+    if (document.pointerLockElement === this.canvas) return
+    // Browsers refuse right after the player left with Esc; a click on the scene retries.
+    void this.canvas.requestPointerLock()?.catch(() => {})
+  }
+
+  private onPointerLockChange = () => {
+    // Losing the mouse (Esc, alt-tab, the settings panel) pauses the round.
+    if (document.pointerLockElement) return
+    if (!this.usesPointerLock()) return
+    this.pause()
+  }
+
+  /** Touch screens look around by dragging, and iOS Safari has no pointer lock at all. */
+  private usesPointerLock() {
+    return !this.touchControls && typeof this.canvas.requestPointerLock === 'function'
+  }
+
+  private resize = () => {
+    const width = this.canvas.clientWidth || window.innerWidth
+    const height = this.canvas.clientHeight || window.innerHeight
+
+    this.renderer.setSize(width, height, false)
+    this.post?.setSize(width, height)
+    this.cameraCtrl?.setAspect(width / height)
+    this.shadows?.onCameraChange()
+  }
+
+  private renderFrame(dt: number) {
+    const camera = this.cameraCtrl.camera
+    this.post.render(dt, {
+      night: this.dayNight.night,
+      twilight: this.dayNight.twilight,
+      celebrating: this.state === 'celebrating',
+      focusDistance: camera.position.distanceTo(this.sim.player.group.position),
+      starving: this.sim.player.isStarving,
+    })
+  }
+
+  /** Sky, lights and weather follow the simulation clocks; the yard and berries light up at night. */
+  private updateSky(dt = 0) {
+    this.dayNight.update(this.sim.timeOfDay)
+    this.weatherEffects.update(dt, this.sim.weather.state, this.cameraCtrl.camera.position)
+    this.sim.ownerGoal.setNightLevel(this.dayNight.night)
+    this.sim.berries.setGlow(this.dayNight.night)
   }
 
   private async tryLoadDogModel() {
@@ -337,7 +610,7 @@ export class Game {
       })
       this.currentDog = dog
       this.currentDogTemplate = cloneSkeleton(dog.root) as THREE.Group
-      this.player.setModel(dog.root, dog.clips)
+      this.sim.player.setModel(dog.root, dog.clips)
       this.setStatus('')
     } catch (e) {
       // Keep placeholder.
@@ -360,143 +633,189 @@ export class Game {
     this.confirmEl.classList.toggle('hidden', !show)
   }
 
-  private checkOwnerFound() {
-    const dogPos = this.player.group.position
-    const ownerPos = this.ownerGoal.ownerPosition
+  private confirmRestart(shouldContinue: boolean) {
+    if (this.state !== 'round-over') return
+    // A replay carries its own answers.
+    if (this.replay) return
+
+    // Applied at the start of the next frame so the recorder captures it.
+    this.pendingRoundAction = shouldContinue ? 'reset' : 'continue'
 
-    if (dogPos.distanceTo(ownerPos) < 2.4) {
-      this.celebrating = true
-      this.celebrateTimer = 4.2
-      this.player.startCelebration(this.celebrateTimer)
-      this.pauseBackground()
-      this.playWinSound()
-      this.setNotice('Вы нашли хозяина!')
+    if (document.pointerLockElement) {
+      document.exitPointerLock()
     }
   }
 
-  private confirmRestart(shouldContinue: boolean) {
-    if (!this.awaitingRestart) return
+  private applyRoundAction(action: RoundAction) {
+    this.setConfirm(false)
 
-    if (shouldContinue) {
-      this.setConfirm(false)
-      this.resetLevel()
-      this.resumeBackground()
-    } else {
-      this.setConfirm(false)
-      this.awaitingRestart = false
-      this.celebrating = false
+    if (action === 'continue') {
+      this.sim.continueRound()
       this.setNotice('')
-      this.resumeBackground()
+    } else {
+      this.resetLevel(action)
     }
 
-    if (document.pointerLockElement) {
-      document.exitPointerLock()
-    }
+    this.setState('playing')
+    this.resumeBackground()
   }
 
-  private updateGoalArrow() {
-    const ownerPos = this.ownerGoal.ownerPosition
-    const playerPos = this.player.group.position
-
-    const forward = new THREE.Vector3(0, 0, -1).applyQuaternion(this.player.group.quaternion)
-    const headingFromNorth = Math.atan2(forward.x, -forward.z)
+  private saveRun = () => {
+    if (this.replay) return
+    if (this.state === 'loading' || this.state === 'title') return
+    saveRunSnapshot(this.sim.snapshot(this.cameraAngles()))
+  }
 
-    const distance = ownerPos.distanceTo(playerPos)
+  private cameraAngles() {
+    return { yaw: this.cameraCtrl.yaw, pitch: this.cameraCtrl.pitch }
+  }
 
-    const hungerPct = (this.hunger / this.hungerMax) * 100
-    const showBerry = hungerPct < 30
-    const nearestBerry = showBerry ? this.berries.getNearestUncollected(playerPos) : null
+  /** Shadows and antialiasing are fixed when the renderer is built; the rest applies right away. */
+  private onGraphicsChange = (settings: GraphicsSettings) => {
+    this.graphics = settings
+    saveGraphicsSettings(settings)
+
+    const preset = GRAPHICS_PRESETS[settings.quality]
+    decorDisplay.density.value = preset.decorDensity
+    this.grass.setDensity(preset.grassDensity)
+    this.dynamicResolution.reset()
+    this.applyPixelRatio()
+    this.applyDrawDistance()
+    this.post.setEffects(settings.effects)
+  }
 
-    this.uiArrow.update(ownerPos, playerPos, headingFromNorth, distance, nearestBerry, showBerry)
+  private onDifficultyChange = (settings: DifficultySettings) => {
+    this.difficulty = settings
+    saveDifficultySettings(settings)
+    this.uiArrow.setVisible(settings.compass)
+    this.hintPath.setEnabled(settings.hintPath)
   }
 
-  private updateHunger(dt: number) {
-    if (this.celebrating || this.awaitingRestart) {
-      this.renderHunger()
-      return
-    }
+  private applyPixelRatio() {
+    const preset = GRAPHICS_PRESETS[this.graphics.quality]
+    const scale = this.graphics.dynamicResolution ? this.dynamicResolution.scale : 1
+    this.renderer.setPixelRatio(Math.min(window.devicePixelRatio, preset.pixelRatio) * scale)
+    this.post?.setPixelRatio(this.renderer.getPixelRatio())
+  }
 
-    const speed = this.player.getHorizontalSpeed()
-    const maxSpeed = this.player.getConfiguredMaxSpeed()
+  /** The preset's draw distance, or the level's fog if that ends sooner. */
+  private viewDistance() {
+    return Math.min(this.level.lighting.fog.far, GRAPHICS_PRESETS[this.graphics.quality].drawDistance)
+  }
 
-    const isMoving = speed >= this.hungerMinSpeedToDrain
-    const speed01 = maxSpeed > 0.001 ? Math.min(1, Math.max(0, speed / maxSpeed)) : 0
+  private applyDrawDistance() {
+    const { fog } = this.level.lighting
+    const far = this.viewDistance()
+    this.terrainMesh.setViewDistance(far)
+    this.weatherEffects.setFogRange(fog.near * (far / fog.far), far)
+  }
 
-    const drain = isMoving
-      ? this.hungerBaseDrainPerSecMoving + this.hungerExtraDrainPerSecAtMaxSpeed * speed01
-      : 0
+  private onBindingsChange = (bindings: KeyBindings) => {
+    this.input.setBindings(bindings)
+    saveBindings(bindings)
+    this.renderControls()
+  }
 
-    this.hunger = Math.max(0, this.hunger - drain * dt)
+  private renderControls() {
+    renderControlsHelp(
+      this.controlsEl,
+      this.input.getBindings(),
+      this.input.getGamepadConfig(),
+      this.touchControls !== null,
+    )
+  }
 
-    const starving = this.hunger <= 0.0001
-    this.player.setStarving(starving)
+  private startHint() {
+    return this.touchControls
+      ? 'Джойстик слева — бег, правая половина экрана — камера'
+      : 'Кликни по сцене (мышь), чтобы играть'
+  }
 
-    if (starving) {
-      this.setStatus('Собачка очень голодная… найди ягоды!')
-    } else if (this.statusEl.textContent === 'Собачка очень голодная… найди ягоды!') {
-      this.setStatus('')
+  private onKeyDown = (e: KeyboardEvent) => {
+    if (e.code === 'F8') {
+      e.preventDefault()
+      this.downloadReplay()
+    } else if (e.code === 'Escape') {
+      // With the mouse captured, Esc only releases it and the pointer lock handler pauses.
+      this.pause()
     }
+  }
 
-    this.renderHunger()
+  private downloadReplay() {
+    if (!(this.frameInput instanceof InputRecorder)) return
+
+    const file = this.frameInput.toFile(this.seed, this.level.id, this.startSnapshot, this.startedNewRun)
+    const blob = new Blob([JSON.stringify(file)], { type: 'application/json' })
+    const url = URL.createObjectURL(blob)
+
+    const link = document.createElement('a')
+    link.href = url
+    link.download = `doggo-${this.seed}-${Date.now()}.replay.json`
+    link.click()
+
+    URL.revokeObjectURL(url)
   }
 
-  private tryCollectBerries() {
-    if (this.celebrating || this.awaitingRestart) return
+  private updateGoalArrow() {
+    const { ownerGoal, player, berries } = this.sim
+    const ownerPos = ownerGoal.ownerPosition
+    const playerPos = player.group.position
 
-    const collected = this.berries.collectNear(this.player.group.position, 1.8)
-    if (collected <= 0) return
+    const forward = new THREE.Vector3(0, 0, -1).applyQuaternion(player.group.quaternion)
+    const headingFromNorth = Math.atan2(forward.x, -forward.z)
 
-    this.hunger = Math.min(this.hungerMax, this.hunger + collected * this.hungerBerryRestore)
-    this.renderHunger()
+    const distance = ownerPos.distanceTo(playerPos)
+
+    const hungerPct = (this.sim.hunger / this.sim.hungerMax) * 100
+    const showBerry = hungerPct < 30
+    const nearestBerry = showBerry ? berries.getNearestUncollected(playerPos) : null
+
+    // Storms throw the needles off: two unrelated wobbles so the swing never settles.
+    const t = performance.now() / 1000
+    const jitter =
+      this.sim.weather.state.storm * this.level.weather.stormJitter * (Math.sin(t * 7.3) + 0.5 * Math.sin(t * 12.9 + 1.3)) / 1.5
 
-    this.playEatBerrySound()
+    this.uiArrow.update(ownerPos, playerPos, headingFromNorth, distance, nearestBerry, showBerry, jitter)
+  }
+
+  private updateStarvingStatus() {
+    if (this.state !== 'playing') return
+
+    if (this.sim.isStarving) {
+      this.setStatus('Собачка очень голодная… найди ягоды!')
+    } else if (this.statusEl.textContent === 'Собачка очень голодная… найди ягоды!') {
+      this.setStatus('')
+    }
   }
 
   private renderHunger() {
-    const pct = Math.round((this.hunger / this.hungerMax) * 100)
+    const pct = Math.round((this.sim.hunger / this.sim.hungerMax) * 100)
     this.hungerEl.textContent = `${pct}%`
 
     const critical = pct <= 15
     this.hungerEl.classList.toggle('critical', critical)
   }
 
- 
-   private resetLevel() {
-     this.celebrating = false
-     this.awaitingRestart = false
-     this.player.stopCelebration()
-     this.setNotice('')
-
-     this.hunger = this.hungerMax
-     this.renderHunger()
- 
-    this.ownerGoal.reset()
-    this.berries.reset()
-
-    // Refresh dense forest so one cluster stays on the path to the new goal.
-    this.scene.remove(this.decor.group)
-    const denseTarget = this.ownerGoal.getYardPosition().clone().multiplyScalar(0.6)
-    this.decor = new Decor(this.terrain, this.physics, { denseTarget })
-    this.scene.add(this.decor.group)
-    void this.decor.ready().catch(() => {})
-
-    const spawnY = this.terrain.getHeightAt(0, 0) + 6
-    const oldPlayer = this.player
+  private renderLevel() {
+    this.levelEl.textContent = `Уровень ${this.sim.round}`
+  }
 
-    this.player = new Player(this.physics, this.input, {
-      spawn: new Vector3(0, spawnY, 0),
-    })
+  private resetLevel(action: 'reset' | 'restart') {
+    this.setNotice('')
 
-    if (this.currentDogTemplate) {
-      const model = cloneSkeleton(this.currentDogTemplate) as THREE.Group
-      this.player.setModel(model, this.currentDog?.clips ?? [])
-    }
+    if (action === 'reset') this.sim.resetRound()
+    else this.sim.restartRound()
+    this.applyDogModel(this.sim.player)
+    this.renderHunger()
+    this.renderLevel()
 
-    this.scene.add(this.player.group)
-    this.scene.remove(oldPlayer.group)
-    oldPlayer.dispose()
+    this.cameraCtrl?.update(0, this.sim.player.group.position)
+  }
 
-    this.cameraCtrl?.update(0, this.player.group.position)
+  private applyDogModel(player: Player) {
+    if (!this.currentDogTemplate) return
+    const model = cloneSkeleton(this.currentDogTemplate) as THREE.Group
+    player.setModel(model, this.currentDog?.clips ?? [])
   }
 
   private playWinSound() {
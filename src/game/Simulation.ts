@@ -0,0 +1,645 @@
+import { Group, Quaternion, Vector3 } from 'three'
+
+import type { InputSource } from './input/Input'
+import { Physics } from './physics/Physics'
+import { Terrain } from './world/Terrain'
+import { Decor } from './world/Decor'
+import { OwnerGoal } from './world/OwnerGoal'
+import { Berries } from './world/Berries'
+import { daylightAt } from './world/DayNight'
+import { Weather } from './world/Weather'
+import { ScentTrail } from './world/ScentTrail'
+import { Player } from './player/Player'
+import { Wildlife } from './wildlife/Wildlife'
+import { Geese } from './wildlife/Geese'
+import { NavGrid } from './nav/NavGrid'
+import { hungerBudget, patchPoint, validateRound, type RoundReport } from './nav/WorldValidator'
+import { deriveSeed } from './utils/random'
+import { levelForRound } from './levels/Levels'
+import { DEFAULT_LEVEL, DEFAULT_LEVEL_ID, type LevelFile } from './levels/LevelFile'
+import type { RunSnapshot } from './save/RunSnapshot'
+import { GUARD_PRESETS, type GuardLevel } from './settings/DifficultySettings'
+
+export type SimulationOptions = {
+  input: InputSource
+  /** World seed: fixes terrain, decor and texture noise; round seeds are derived from it. */
+  seed: number
+  /** Skip every model and texture fetch so the simulation can run in Node. */
+  headless: boolean
+  /** The map: terrain, content, hunger rules and the difficulty curve. */
+  levelFile: LevelFile
+  /** Geese guarding berries; see `setGuardLevel`. */
+  guards: GuardLevel
+}
+
+/** What the world validator found for the current round and what it changed. */
+export type RoundValidation = {
+  report: RoundReport
+  /** Times the owner's yard was moved because the dog could not reach it. */
+  ownerRetries: number
+  /** Berry clusters added where the dog would have starved on the way. */
+  berryPatches: number
+}
+
+// Limits on fixing one round; a seed that still fails is played as it is.
+const OWNER_RETRIES = 8
+const BERRY_PATCHES = 6
+
+export type SimulationStepResult = {
+  berriesCollected: number
+  /** Rabbits the dog caught this step. */
+  animalsCaught: number
+  /** Times a goose knocked the dog back this step. */
+  guardHits: number
+  ownerFound: boolean
+  roundOver: boolean
+}
+
+/**
+ * Gameplay state without any rendering: physics, world content, the dog,
+ * hunger and the goal. `Game` drives it once per frame and draws the result;
+ * tests can drive it directly with a scripted `InputSource`.
+ */
+export class Simulation {
+  static async create(opts: Partial<SimulationOptions> & Pick<SimulationOptions, 'input' | 'seed'>) {
+    const physics = await Physics.create()
+    const sim = new Simulation(physics, { headless: false, levelFile: DEFAULT_LEVEL, guards: 'off', ...opts })
+    await sim.ready()
+    return sim
+  }
+
+  /** Parent for every simulated object that has a scene representation (terrain excluded). */
+  readonly group = new Group()
+
+  readonly seed: number
+  readonly levelFile: LevelFile
+  /** 1-based round counter; berries and the owner yard are reseeded from it. */
+  round = 1
+
+  readonly terrain: Terrain
+  ownerGoal: OwnerGoal
+  decor: Decor
+  berries: Berries
+  player: Player
+  /** The owner's path from the dog's start to the yard, followed by sniffing. */
+  readonly scent: ScentTrail
+  /** Where the dog can walk this round; see `NavGrid`. */
+  readonly nav: NavGrid
+  validation!: RoundValidation
+  readonly wildlife: Wildlife
+  readonly geese: Geese
+
+  // Hunger
+  hunger: number
+  readonly hungerMax: number
+  private readonly hungerBerryRestore: number
+  private readonly hungerBaseDrainPerSecMoving: number
+  private readonly hungerExtraDrainPerSecAtMaxSpeed: number
+  private readonly hungerMinSpeedToDrain: number
+  private readonly hungerSwimDrainPerSec: number
+  private readonly hungerColdDrain: number
+
+  /** 0–1 through the day: 0 midnight, 0.5 noon. Carries over between rounds. */
+  timeOfDay: number
+  readonly weather: Weather
+
+  private celebrating = false
+  private celebrateTimer = 0
+  private awaitingRestart = false
+  private guardLevel: GuardLevel
+
+  private readonly headless: boolean
+  private readonly input: InputSource
+
+  private constructor(
+    readonly physics: Physics,
+    opts: SimulationOptions,
+  ) {
+    this.headless = opts.headless
+    this.input = opts.input
+    this.seed = opts.seed
+    this.levelFile = opts.levelFile
+    this.guardLevel = opts.guards
+
+    const { hunger } = this.levelFile
+    this.hungerMax = hunger.max
+    this.hunger = hunger.max
+    this.hungerBerryRestore = hunger.berryRestore
+    this.hungerBaseDrainPerSecMoving = hunger.baseDrain
+    this.hungerExtraDrainPerSecAtMaxSpeed = hunger.extraDrainAtMaxSpeed
+    this.hungerMinSpeedToDrain = hunger.minSpeedToDrain
+    this.hungerSwimDrainPerSec = hunger.swimDrain
+    this.hungerColdDrain = hunger.coldDrain
+    this.timeOfDay = this.levelFile.dayNight.startTime
+    this.weather = new Weather(deriveSeed(this.seed, 'weather'), this.levelFile.weather)
+
+    const { water } = this.levelFile
+    this.terrain = new Terrain({
+      ...this.levelFile.terrain,
+      seed: deriveSeed(this.seed, 'terrain'),
+      waterLevel: water.level,
+      riverWidth: water.riverWidth,
+      riverDepth: water.riverDepth,
+    })
+    this.terrain.attachPhysics(this.physics)
+
+    // Safety floor (helps debug if something goes wrong with the terrain collider).
+    this.addSafetyFloor()
+
+    this.addWorldWalls()
+
+    const { goal, berries } = this.levelFile
+    this.ownerGoal = new OwnerGoal(this.terrain, this.physics, {
+      seed: this.roundSeed('owner'),
+      distance: this.level.ownerDistance,
+      fixedPosition: goal.position && new Vector3(goal.position[0], 0, goal.position[1]),
+      yardSize: goal.yardSize,
+      houseOffset: new Vector3(goal.houseOffset[0], 0, goal.houseOffset[1]),
+      ownerOffset: new Vector3(goal.ownerOffset[0], 0, goal.ownerOffset[1]),
+      loadModels: !this.headless,
+    })
+    this.group.add(this.ownerGoal.group)
+    this.scent = new ScentTrail(this.terrain)
+    this.layScentTrail()
+
+    this.decor = this.createDecor()
+    this.group.add(this.decor.group)
+
+    this.berries = new Berries(this.terrain, {
+      ...berries,
+      seed: this.roundSeed('berries'),
+      totalCount: this.level.berries,
+      fixed: this.levelFile.entities.flatMap((e) => (e.type === 'berry' ? [e.at] : [])),
+      loadModel: !this.headless,
+    })
+    this.group.add(this.berries.group)
+
+    this.player = this.createPlayer()
+    this.group.add(this.player.group)
+    this.streamTerrain()
+
+    const { radius, halfHeight, maxSlopeClimbRadians, slideSlopeRadians, swimDepth } = this.player.config
+    this.nav = new NavGrid(this.terrain, this.physics, {
+      agentRadius: radius,
+      agentHalfHeight: halfHeight,
+      maxClimbSlope: maxSlopeClimbRadians,
+      maxStandSlope: slideSlopeRadians,
+      swimDepth,
+    })
+    this.updateNavObstacles()
+    this.validateRound(true)
+
+    const { rabbits, squirrels, birds } = this.levelFile.wildlife
+    this.wildlife = new Wildlife(this.terrain, this.nav, { rabbits, squirrels, birds, render: !this.headless })
+    this.group.add(this.wildlife.group)
+    this.placeWildlife()
+
+    this.geese = new Geese(this.terrain, this.nav, this.physics, { render: !this.headless })
+    this.group.add(this.geese.group)
+    this.placeGeese()
+  }
+
+  async ready() {
+    await this.decor.ready().catch(() => {})
+    await this.berries.ready()
+  }
+
+  /** Difficulty of the current round. */
+  get level() {
+    return levelForRound(this.levelFile.progression, this.round)
+  }
+
+  get guards() {
+    return this.guardLevel
+  }
+
+  /**
+   * Sets how many geese guard berries and how fierce they are, from the next
+   * `newRun`, `resetRound` or `restartRound` on; saves keep their own level.
+   */
+  setGuardLevel(level: GuardLevel) {
+    this.guardLevel = level
+  }
+
+  get isStarving() {
+    return this.hunger <= 0.0001
+  }
+
+  /** 0 when warm, 1 at full cold: at night or standing in the snow. */
+  get coldness() {
+    const { x, z } = this.player.position
+    return Math.max(1 - daylightAt(this.timeOfDay), this.terrain.biomes.weightsAt(x, z).snow)
+  }
+
+  step(dt: number, cameraYaw: number): SimulationStepResult {
+    const result: SimulationStepResult = {
+      berriesCollected: 0,
+      animalsCaught: 0,
+      guardHits: 0,
+      ownerFound: false,
+      roundOver: false,
+    }
+
+    this.advanceClock(dt)
+    this.weather.update(dt)
+    this.streamTerrain()
+
+    const allowMove = !this.celebrating
+    this.player.setGrip(this.weather.grip)
+    this.player.applyInput(dt, cameraYaw, allowMove)
+
+    this.physics.step(dt)
+
+    this.player.sync(dt, allowMove)
+    this.ownerGoal.update(dt)
+    this.berries.update(dt)
+
+    this.updateHunger(dt)
+    result.berriesCollected = this.tryCollectBerries()
+    result.animalsCaught = this.updateWildlife(dt)
+    result.guardHits = this.updateGeese(dt)
+
+    if (!this.celebrating) {
+      result.ownerFound = this.checkOwnerFound()
+    } else if (!this.awaitingRestart) {
+      this.celebrateTimer -= dt
+      if (this.celebrateTimer <= 0) {
+        this.awaitingRestart = true
+        this.player.stopCelebration()
+        result.roundOver = true
+      }
+    }
+
+    return result
+  }
+
+  /** Starts a fresh round: new goal, berries, forest and a respawned dog. */
+  resetRound() {
+    this.round++
+    this.restartRound()
+  }
+
+  /** Starts the run over from round 1, as if the simulation had just been created. */
+  newRun() {
+    this.resetPhysics()
+    this.round = 1
+    this.timeOfDay = this.levelFile.dayNight.startTime
+    this.weather.setTime(0)
+    this.restartRound()
+  }
+
+  /** Replays the current round from the start: same goal and berries, full hunger. */
+  restartRound() {
+    this.celebrating = false
+    this.awaitingRestart = false
+    this.player.stopCelebration()
+    this.physics.resetAccumulator()
+
+    this.hunger = this.hungerMax
+
+    this.ownerGoal.reset(this.roundSeed('owner'), this.level.ownerDistance)
+    this.layScentTrail()
+    this.berries.reset(this.roundSeed('berries'), this.level.berries)
+
+    // Refresh dense forest so one cluster stays on the path to the new goal.
+    this.replaceDecor()
+    this.validateRound(true)
+    this.placeWildlife()
+    this.placeGeese()
+    this.respawnPlayer()
+  }
+
+  /** Captures the run for saving; camera angles are owned by the renderer side. */
+  snapshot(camera: RunSnapshot['camera']): RunSnapshot {
+    const { player, ownerGoal } = this
+    const yard = ownerGoal.getYardPosition()
+
+    return {
+      version: 1,
+      savedAt: Date.now(),
+      seed: this.seed,
+      level: this.levelFile.id,
+      round: this.round,
+      hunger: this.hunger,
+      timeOfDay: this.timeOfDay,
+      weatherTime: this.weather.time,
+      player: {
+        position: player.position.toArray(),
+        velocity: player.velocity.toArray(),
+        rotation: player.group.quaternion.toArray() as [number, number, number, number],
+      },
+      berries: this.berries.getCollectedStates(),
+      wildlife: this.wildlife.getCaughtStates(),
+      guards: this.guardLevel,
+      owner: [yard.x, yard.z],
+      camera: { ...camera },
+    }
+  }
+
+  /** Rebuilds the round described by a snapshot taken with the same seed. */
+  restore(snapshot: RunSnapshot) {
+    if (snapshot.seed !== this.seed) {
+      throw new Error(`Saved run is for world #${snapshot.seed}, not #${this.seed}`)
+    }
+    const level = snapshot.level ?? DEFAULT_LEVEL_ID
+    if (level !== this.levelFile.id) {
+      throw new Error(`Saved run is for level "${level}", not "${this.levelFile.id}"`)
+    }
+
+    this.resetPhysics()
+    this.celebrating = false
+    this.awaitingRestart = false
+    this.player.stopCelebration()
+
+    this.round = snapshot.round
+    this.hunger = Math.min(this.hungerMax, Math.max(0, snapshot.hunger))
+    this.timeOfDay = snapshot.timeOfDay ?? this.levelFile.dayNight.startTime
+    this.weather.setTime(snapshot.weatherTime ?? 0)
+
+    this.ownerGoal.placeAt(snapshot.owner[0], snapshot.owner[1])
+    this.layScentTrail()
+    this.berries.reset(this.roundSeed('berries'), this.level.berries)
+    this.replaceDecor()
+    // The saved owner spot passed already; this adds the same berry patches again.
+    this.validateRound(false)
+    this.berries.setCollectedStates(snapshot.berries)
+    this.placeWildlife()
+    this.wildlife.setCaughtStates(snapshot.wildlife ?? [])
+    this.guardLevel = snapshot.guards ?? 'off'
+    this.placeGeese()
+
+    const { position, velocity, rotation } = snapshot.player
+    this.respawnPlayer()
+    this.player.teleport(
+      new Vector3().fromArray(position),
+      new Vector3().fromArray(velocity),
+      new Quaternion().fromArray(rotation),
+    )
+    this.player.setStarving(this.isStarving)
+    this.terrain.dropColliders()
+    this.streamTerrain()
+  }
+
+  /** Leaves the finished round running so the dog can keep exploring. */
+  continueRound() {
+    this.awaitingRestart = false
+    this.celebrating = false
+  }
+
+  private advanceClock(dt: number) {
+    const { dayLength } = this.levelFile.dayNight
+    if (dayLength > 0) this.timeOfDay = (this.timeOfDay + dt / dayLength) % 1
+  }
+
+  /**
+   * Moves the run into a fresh physics world, so that a run started from the
+   * title screen steps exactly like its replay in a newly created simulation.
+   * The callers then rebuild the round, which adds every collider back.
+   */
+  private resetPhysics() {
+    this.player.dispose()
+    this.decor.dispose()
+    this.ownerGoal.removeColliders()
+    this.geese.removeBodies()
+    this.terrain.dropColliders()
+
+    this.physics.reset()
+    this.addSafetyFloor()
+    this.addWorldWalls()
+  }
+
+  /** Terrain collision only exists around the dog. */
+  private streamTerrain() {
+    const { x, z } = this.player.position
+    this.terrain.streamColliders(x, z)
+  }
+
+  /** Seed for one generator in the current round. */
+  private roundSeed(salt: string) {
+    return deriveSeed(deriveSeed(this.seed, `round:${this.round}`), salt)
+  }
+
+  /** The owner walked from the dog's spawn point in the middle of the map (see `createPlayer`). */
+  private layScentTrail() {
+    this.scent.generate(this.roundSeed('scent'), new Vector3(0, 0, 0), this.ownerGoal.ownerPosition)
+  }
+
+  /**
+   * Makes sure the round can be won: moves the yard until the dog can walk to
+   * it from spawn (`retryOwner`), then adds berries wherever the way is too long
+   * for its hunger. Seeded like the rest of the round, so saves and replays
+   * get the same fixes.
+   */
+  private validateRound(retryOwner: boolean) {
+    const spawn = new Vector3(0, 0, 0)
+    const budget = hungerBudget(this.levelFile.hunger, this.level, this.player.getConfiguredMaxSpeed())
+    const check = () =>
+      validateRound(this.nav, spawn, this.ownerGoal.ownerPosition, this.berries.getPositions(), budget)
+
+    let report = check()
+    let ownerRetries = 0
+    // A level's hand-placed goal stays where it is.
+    const canMove = retryOwner && !this.levelFile.goal.position
+    while (canMove && !report.ownerReachable && ownerRetries < OWNER_RETRIES) {
+      ownerRetries++
+      this.ownerGoal.reset(deriveSeed(this.roundSeed('owner'), `retry:${ownerRetries}`), this.level.ownerDistance)
+      this.layScentTrail()
+      this.replaceDecor()
+      report = check()
+    }
+
+    let berryPatches = 0
+    while (report.starvesAt !== null && berryPatches < BERRY_PATCHES) {
+      const at = patchPoint(report, budget)!
+      berryPatches++
+      this.berries.addCluster(deriveSeed(this.roundSeed('berries'), `patch:${berryPatches}`), at.x, at.z)
+      report = check()
+    }
+
+    if (!report.ownerReachable) {
+      console.warn(`Round ${this.round} of world #${this.seed}: the owner cannot be reached from spawn`)
+    }
+    this.validation = { report, ownerRetries, berryPatches }
+  }
+
+  private replaceDecor() {
+    this.group.remove(this.decor.group)
+    this.decor.dispose()
+    this.decor = this.createDecor()
+    this.group.add(this.decor.group)
+    void this.decor.ready().catch(() => {})
+    this.updateNavObstacles()
+  }
+
+  /** The forest and the yard change between rounds; the terrain never does. */
+  private updateNavObstacles() {
+    this.nav.setObstacles([...this.decor.colliders, ...this.ownerGoal.colliders])
+  }
+
+  private createDecor() {
+    const denseTarget = this.ownerGoal.getYardPosition().clone().multiplyScalar(0.6)
+    // Scattered forest stays the same all game; only the dense cluster follows the goal.
+    return new Decor(this.terrain, this.physics, {
+      seed: deriveSeed(this.seed, 'decor'),
+      denseTarget,
+      denseTreeCount: this.level.denseTrees,
+      treeCount: this.levelFile.decor.treeCount,
+      rockCount: this.levelFile.decor.rockCount,
+      handPlaced: this.levelFile.entities.flatMap((e) =>
+        e.type === 'berry' ? [] : [{ type: e.type, x: e.at[0], z: e.at[1], yaw: e.yaw, scale: e.scale }],
+      ),
+      loadModels: !this.headless,
+    })
+  }
+
+  /**
+   * A new dog at spawn, and terrain colliders streamed afresh around it: the
+   * world then steps the same whatever was played in it before.
+   */
+  private respawnPlayer() {
+    const oldPlayer = this.player
+    this.player = this.createPlayer()
+    this.group.add(this.player.group)
+    this.group.remove(oldPlayer.group)
+    oldPlayer.dispose()
+    this.terrain.dropColliders()
+    this.streamTerrain()
+  }
+
+  private createPlayer() {
+    const spawnY = this.terrain.getHeightAt(0, 0) + 6
+    return new Player(this.physics, this.input, {
+      spawn: new Vector3(0, spawnY, 0),
+      waterLevel: this.terrain.config.waterLevel,
+    })
+  }
+
+  private checkOwnerFound() {
+    const dogPos = this.player.group.position
+    const ownerPos = this.ownerGoal.ownerPosition
+
+    if (dogPos.distanceTo(ownerPos) >= this.levelFile.goal.foundRadius) return false
+
+    this.celebrating = true
+    this.celebrateTimer = 4.2
+    this.player.startCelebration(this.celebrateTimer)
+    return true
+  }
+
+  private updateHunger(dt: number) {
+    if (this.celebrating || this.awaitingRestart) return
+
+    const speed = this.player.getHorizontalSpeed()
+    const maxSpeed = this.player.getConfiguredMaxSpeed()
+
+    const isMoving = speed >= this.hungerMinSpeedToDrain
+    const speed01 = maxSpeed > 0.001 ? Math.min(1, Math.max(0, speed / maxSpeed)) : 0
+
+    let drain = isMoving ? this.hungerBaseDrainPerSecMoving + this.hungerExtraDrainPerSecAtMaxSpeed * speed01 : 0
+    // Treading water is tiring even without moving.
+    if (this.player.isSwimming) drain += this.hungerSwimDrainPerSec
+    drain *= (1 + this.hungerColdDrain * this.coldness) * this.level.hungerDrain
+
+    this.hunger = Math.max(0, this.hunger - drain * dt)
+
+    this.player.setStarving(this.isStarving)
+  }
+
+  private tryCollectBerries() {
+    if (this.celebrating || this.awaitingRestart) return 0
+
+    const collected = this.berries.collectNear(this.player.group.position)
+    if (collected <= 0) return 0
+
+    this.hunger = Math.min(this.hungerMax, this.hunger + collected * this.hungerBerryRestore)
+    return collected
+  }
+
+  /** Moves the animals near the dog; a caught rabbit gives back a little hunger. */
+  private updateWildlife(dt: number) {
+    const canCatch = !this.celebrating && !this.awaitingRestart
+    const { player } = this
+    const caught = this.wildlife.update(dt, player.group.position, player.getHorizontalSpeed(), canCatch)
+    if (caught > 0) {
+      this.hunger = Math.min(this.hungerMax, this.hunger + caught * this.levelFile.wildlife.catchRestore)
+      player.setStarving(this.isStarving)
+    }
+    return caught
+  }
+
+  /** Squirrels and birds live by the trees, so this follows the round's forest. */
+  private placeWildlife() {
+    this.wildlife.reset(this.roundSeed('wildlife'), this.decor.getTrees())
+  }
+
+  /** Geese guard berry clusters, so they are placed after the validator's patches. */
+  private placeGeese() {
+    this.geese.reset(this.roundSeed('geese'), this.berries.getClusterCenters(), GUARD_PRESETS[this.guardLevel])
+  }
+
+  /** Moves the geese; each hit costs the level's share of hunger. */
+  private updateGeese(dt: number) {
+    const canHit = !this.celebrating && !this.awaitingRestart
+    const hits = this.geese.update(dt, this.player, canHit)
+    if (hits > 0) {
+      this.hunger = Math.max(0, this.hunger - hits * GUARD_PRESETS[this.guardLevel].hungerCost)
+      this.player.setStarving(this.isStarving)
+    }
+    return hits
+  }
+
+  private addSafetyFloor() {
+    const { RAPIER, world } = this.physics
+
+    const w = this.terrain.config.width
+    const d = this.terrain.config.depth
+
+    world.createCollider(
+      // NOTE: cuboid takes half-extents.
+      RAPIER.ColliderDesc.cuboid(w, 40, d)
+        .setTranslation(0, -260, 0)
+        .setFriction(1.0),
+    )
+  }
+
+  private addWorldWalls() {
+    const { RAPIER, world } = this.physics
+
+    const w = this.terrain.config.width
+    const d = this.terrain.config.depth
+
+    const thickness = 5
+    const height = 80
+
+    const halfW = w / 2
+    const halfD = d / 2
+
+    // +X
+    world.createCollider(
+      RAPIER.ColliderDesc.cuboid(thickness, height, halfD + thickness)
+        .setTranslation(halfW + thickness, height, 0)
+        .setFriction(1.0),
+    )
+
+    // -X
+    world.createCollider(
+      RAPIER.ColliderDesc.cuboid(thickness, height, halfD + thickness)
+        .setTranslation(-halfW - thickness, height, 0)
+        .setFriction(1.0),
+    )
+
+    // +Z
+    world.createCollider(
+      RAPIER.ColliderDesc.cuboid(halfW + thickness, height, thickness)
+        .setTranslation(0, height, halfD + thickness)
+        .setFriction(1.0),
+    )
+
+    // -Z
+    world.createCollider(
+      RAPIER.ColliderDesc.cuboid(halfW + thickness, height, thickness)
+        .setTranslation(0, height, -halfD - thickness)
+        .setFriction(1.0),
+    )
+  }
+}
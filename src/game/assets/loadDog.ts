@@ -12,6 +12,7 @@ export type DogClipFiles = {
   walk?: string
   jump?: string
   gallopJump?: string
+  swim?: string
 }
 
 export async function loadDogSet(modelUrl: string, clipUrls: DogClipFiles): Promise<DogAsset> {
@@ -55,6 +56,8 @@ export type DogClipMap = {
   run?: AnimationClip
   jump?: AnimationClip
   gallopJump?: AnimationClip
+  /** Falls back to the walk cycle. */
+  swim?: AnimationClip
 }
 
 export function pickDogClips(clips: AnimationClip[]): DogClipMap {
@@ -78,5 +81,7 @@ export function pickDogClips(clips: AnimationClip[]): DogClipMap {
     byName(/run[_\s-]*jump/i) ??
     byName(/jump[_\s-]*run/i)
 
-  return { idle, walk, run, jump, gallopJump }
+  const swim = byName(/swim|paddle/i) ?? walk
+
+  return { idle, walk, run, jump, gallopJump, swim }
 }
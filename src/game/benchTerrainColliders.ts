@@ -0,0 +1,91 @@
+import { Physics } from './physics/Physics'
+import { Terrain, type TerrainColliderKind } from './world/Terrain'
+import { DEFAULT_LEVEL } from './levels/LevelFile'
+import { deriveSeed, mulberry32 } from './utils/random'
+
+export type TerrainColliderBenchmark = {
+  kind: TerrainColliderKind
+  chunks: number
+  /** Average time to create one chunk collider, as streaming does. */
+  buildMsPerChunk: number
+  /** Average `world.step()` with `bodies` balls rolling over the terrain. */
+  stepMs: number
+  /** Growth of `world.takeSnapshot()` over an empty world: what Rapier keeps per collider. */
+  worldBytes: number
+}
+
+export type TerrainColliderBenchmarkOptions = {
+  seed: number
+  /** Dynamic balls dropped on the map for the step timing. */
+  bodies: number
+  steps: number
+}
+
+/**
+ * Builds colliders for every chunk of the default map with each shape and times
+ * building and stepping without rendering, e.g. in Node.
+ * Both runs drop the same balls at the same spots.
+ */
+export async function benchmarkTerrainColliders(options?: Partial<TerrainColliderBenchmarkOptions>) {
+  const opts: TerrainColliderBenchmarkOptions = { seed: 1337, bodies: 200, steps: 300, ...options }
+  const kinds = ['heightfield', 'trimesh'] as const
+
+  // An untimed round first: Rapier's wasm runs a good deal slower until it has
+  // warmed up, which would otherwise all land on whichever shape goes first.
+  for (const kind of kinds) await benchmarkKind(kind, { ...opts, steps: opts.steps / 2 })
+
+  const results: TerrainColliderBenchmark[] = []
+  for (const kind of kinds) results.push(await benchmarkKind(kind, opts))
+  return results
+}
+
+async function benchmarkKind(
+  kind: TerrainColliderKind,
+  opts: TerrainColliderBenchmarkOptions,
+): Promise<TerrainColliderBenchmark> {
+  const physics = await Physics.create()
+  const { RAPIER, world } = physics
+  const emptyBytes = world.takeSnapshot().byteLength
+
+  const terrain = new Terrain({
+    ...DEFAULT_LEVEL.terrain,
+    seed: deriveSeed(opts.seed, 'terrain'),
+    collider: kind,
+    physicsRadius: Infinity,
+  })
+  terrain.attachPhysics(physics)
+
+  const buildStart = performance.now()
+  terrain.streamColliders(0, 0)
+  const buildMs = performance.now() - buildStart
+
+  const worldBytes = world.takeSnapshot().byteLength - emptyBytes
+
+  const rand = mulberry32(deriveSeed(opts.seed, 'bench'))
+  const { width, depth, borderWidth } = terrain.config
+  for (let i = 0; i < opts.bodies; i++) {
+    const x = (rand() - 0.5) * (width - 2 * borderWidth)
+    const z = (rand() - 0.5) * (depth - 2 * borderWidth)
+    const body = world.createRigidBody(
+      RAPIER.RigidBodyDesc.dynamic().setTranslation(x, terrain.getHeightAt(x, z) + 2, z),
+    )
+    world.createCollider(RAPIER.ColliderDesc.ball(0.5).setFriction(1.0), body)
+  }
+
+  // Let the balls land first so the timing covers resting contacts too.
+  for (let i = 0; i < 30; i++) world.step()
+
+  const stepStart = performance.now()
+  for (let i = 0; i < opts.steps; i++) world.step()
+  const stepMs = (performance.now() - stepStart) / opts.steps
+
+  world.free()
+
+  return {
+    kind,
+    chunks: terrain.chunks.length,
+    buildMsPerChunk: buildMs / terrain.chunks.length,
+    stepMs,
+    worldBytes,
+  }
+}
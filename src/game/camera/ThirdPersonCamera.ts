@@ -1,7 +1,7 @@
 import { Camera, PerspectiveCamera, Vector3 } from 'three'
 
 import type { Physics } from '../physics/Physics'
-import type { Input } from '../input/Input'
+import type { LookSource } from '../input/Input'
 import { clamp, damp } from '../utils/math'
 
 export class ThirdPersonCamera {
@@ -18,7 +18,7 @@ export class ThirdPersonCamera {
 
   constructor(
     private readonly physics: Physics,
-    private readonly input: Input,
+    private readonly input: LookSource,
     opts?: { fov?: number },
   ) {
     this.camera = new PerspectiveCamera(opts?.fov ?? 55, 1, 0.1, 2000)
@@ -0,0 +1,149 @@
+/** Keyboard actions that can be rebound. Values are `KeyboardEvent.code`s (physical keys). */
+export type InputAction = 'forward' | 'back' | 'left' | 'right' | 'walk' | 'jump' | 'sniff'
+
+export type KeyBindings = Record<InputAction, string[]>
+
+export const INPUT_ACTIONS: InputAction[] = ['forward', 'back', 'left', 'right', 'walk', 'jump', 'sniff']
+
+export const DEFAULT_BINDINGS: KeyBindings = {
+  forward: ['KeyW', 'ArrowUp'],
+  back: ['KeyS', 'ArrowDown'],
+  left: ['KeyA', 'ArrowLeft'],
+  right: ['KeyD', 'ArrowRight'],
+  walk: ['ShiftLeft', 'ShiftRight'],
+  jump: ['Space'],
+  sniff: ['KeyE'],
+}
+
+// Keys the game or the browser already uses; they can't be bound.
+const RESERVED_CODES = new Set(['Escape', 'F8'])
+
+const STORAGE_KEY = 'doggo-3d.bindings'
+
+export function cloneBindings(bindings: KeyBindings): KeyBindings {
+  const copy = {} as KeyBindings
+  for (const action of INPUT_ACTIONS) {
+    copy[action] = [...bindings[action]]
+  }
+  return copy
+}
+
+export function isBindableCode(code: string) {
+  return code.length > 0 && !RESERVED_CODES.has(code)
+}
+
+/**
+ * Adds `code` to `action`, removing it from every other action first so one key
+ * never drives two actions.
+ */
+export function bindKey(bindings: KeyBindings, action: InputAction, code: string): KeyBindings {
+  const next = cloneBindings(bindings)
+  for (const other of INPUT_ACTIONS) {
+    next[other] = next[other].filter((c) => c !== code)
+  }
+  next[action].push(code)
+  return next
+}
+
+export function unbindKey(bindings: KeyBindings, action: InputAction, code: string): KeyBindings {
+  const next = cloneBindings(bindings)
+  next[action] = next[action].filter((c) => c !== code)
+  return next
+}
+
+/** Saved bindings, or the defaults when nothing (valid) is stored. */
+export function loadBindings(): KeyBindings {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY)
+    if (!raw) return cloneBindings(DEFAULT_BINDINGS)
+    return parseBindings(JSON.parse(raw))
+  } catch (e) {
+    console.warn('Stored key bindings ignored', e)
+    return cloneBindings(DEFAULT_BINDINGS)
+  }
+}
+
+export function saveBindings(bindings: KeyBindings) {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(bindings))
+  } catch (e) {
+    console.warn('Unable to save key bindings', e)
+  }
+}
+
+function parseBindings(data: unknown): KeyBindings {
+  if (!data || typeof data !== 'object') {
+    throw new Error('Key bindings must be an object')
+  }
+
+  const result = cloneBindings(DEFAULT_BINDINGS)
+  const record = data as Record<string, unknown>
+
+  for (const action of INPUT_ACTIONS) {
+    const codes = record[action]
+    if (codes === undefined) continue
+    if (!Array.isArray(codes) || !codes.every((c) => typeof c === 'string' && isBindableCode(c))) {
+      throw new Error(`Key bindings for "${action}" must be a list of key codes`)
+    }
+    result[action] = [...new Set(codes as string[])]
+  }
+
+  // Actions added since the bindings were saved keep only the default keys that are still free.
+  const taken = new Set(INPUT_ACTIONS.filter((a) => record[a] !== undefined).flatMap((a) => result[a]))
+  for (const action of INPUT_ACTIONS) {
+    if (record[action] === undefined) result[action] = result[action].filter((c) => !taken.has(c))
+  }
+
+  return result
+}
+
+// Filled from the Keyboard Map API where the browser has it, so AZERTY shows "Z" for KeyW.
+const layoutLabels = new Map<string, string>()
+
+type KeyboardLayoutApi = { getLayoutMap(): Promise<Map<string, string>> }
+
+/** Loads the user's keyboard layout for `keyLabel`, if the browser exposes it. */
+export async function loadKeyboardLayout() {
+  const keyboard = (navigator as Navigator & { keyboard?: KeyboardLayoutApi }).keyboard
+  if (!keyboard?.getLayoutMap) return false
+
+  try {
+    const map = await keyboard.getLayoutMap()
+    map.forEach((key, code) => layoutLabels.set(code, key.toUpperCase()))
+    return true
+  } catch {
+    return false
+  }
+}
+
+const SPECIAL_LABELS: Record<string, string> = {
+  Space: 'Пробел',
+  ArrowUp: '↑',
+  ArrowDown: '↓',
+  ArrowLeft: '←',
+  ArrowRight: '→',
+  ShiftLeft: 'Shift',
+  ShiftRight: 'Shift',
+  ControlLeft: 'Ctrl',
+  ControlRight: 'Ctrl',
+  AltLeft: 'Alt',
+  AltRight: 'Alt',
+  Enter: 'Enter',
+  Tab: 'Tab',
+  Backspace: 'Backspace',
+  CapsLock: 'Caps Lock',
+}
+
+/** Short human-readable name of a physical key in the user's layout. */
+export function keyLabel(code: string) {
+  const special = SPECIAL_LABELS[code]
+  if (special) return special
+
+  const fromLayout = layoutLabels.get(code)
+  if (fromLayout && fromLayout.trim()) return fromLayout
+
+  if (code.startsWith('Key')) return code.slice(3)
+  if (code.startsWith('Digit')) return code.slice(5)
+  if (code.startsWith('Numpad')) return `Num ${code.slice(6)}`
+  return code
+}
@@ -1,11 +1,64 @@
+import { DEFAULT_BINDINGS, cloneBindings, type InputAction, type KeyBindings } from './Bindings'
+import type { TouchControls } from './TouchControls'
+
+/**
+ * `forward` and `right` are in [-1, 1]. Keyboard gives whole steps; a gamepad
+ * stick gives fractions, and `Player` scales its speed by the magnitude.
+ */
 export type InputState = {
   forward: number
   right: number
   runHeld: boolean
   jumpPressed: boolean
   jumpHeld: boolean
+  /** Nose to the ground: slows the dog down and shows the owner's scent trail. */
+  sniffHeld: boolean
+}
+
+/** Anything that can feed per-frame movement state into the simulation. */
+export type InputSource = {
+  getState(): InputState
+}
+
+/** Anything that can feed camera look deltas (pixels) into `ThirdPersonCamera`. */
+export type LookSource = {
+  consumeMouseDelta(): { dx: number; dy: number }
 }
 
+export type InputDevice = 'keyboard' | 'gamepad' | 'touch'
+
+export type GamepadConfig = {
+  /** Radial deadzone of the left (move) stick, 0..1. */
+  moveDeadzone: number
+  /** Response exponent of the left stick after the deadzone (1 = linear). */
+  moveCurve: number
+  /** Radial deadzone of the right (look) stick, 0..1. */
+  lookDeadzone: number
+  /** Response exponent of the right stick after the deadzone (1 = linear). */
+  lookCurve: number
+  /** Look speed at full deflection, in mouse pixels per second. */
+  lookSpeed: number
+  invertLookY: boolean
+  /** Standard-mapping button indices. */
+  jumpButtons: number[]
+  walkButtons: number[]
+  sniffButtons: number[]
+  pauseButtons: number[]
+}
+
+// Button names of the standard mapping, by index.
+const GAMEPAD_BUTTON_LABELS = [
+  'A', 'B', 'X', 'Y', 'LB', 'RB', 'LT', 'RT', 'Back', 'Start', 'L3', 'R3', '↑', '↓', '←', '→', 'Home',
+]
+
+/** "A", "LB", …; unknown indices show as "#17". */
+export function gamepadButtonLabel(index: number) {
+  return GAMEPAD_BUTTON_LABELS[index] ?? `#${index}`
+}
+
+// Anything below this on any stick or button counts as "not touched" for device switching.
+const GAMEPAD_ACTIVITY_THRESHOLD = 0.3
+
 export class Input {
   private keysDown = new Set<string>()
   private jumpPressedThisFrame = false
@@ -13,7 +66,37 @@ export class Input {
   private mouseDeltaX = 0
   private mouseDeltaY = 0
 
-  constructor(private readonly element: HTMLElement) {
+  private bindings: KeyBindings
+
+  private readonly gamepadCfg: GamepadConfig
+  private device: InputDevice = 'keyboard'
+  private gamepadState: InputState = emptyState()
+  private gamepadJumpWasDown = false
+  private gamepadPauseWasDown = false
+  private pausePressed = false
+
+  private touch: TouchControls | null = null
+
+  constructor(
+    private readonly element: HTMLElement,
+    opts?: { bindings?: KeyBindings; gamepad?: Partial<GamepadConfig> },
+  ) {
+    this.bindings = cloneBindings(opts?.bindings ?? DEFAULT_BINDINGS)
+
+    this.gamepadCfg = {
+      moveDeadzone: 0.18,
+      moveCurve: 1.4,
+      lookDeadzone: 0.14,
+      lookCurve: 1.8,
+      lookSpeed: 1300,
+      invertLookY: false,
+      jumpButtons: [0],
+      walkButtons: [1, 4],
+      sniffButtons: [2],
+      pauseButtons: [9],
+      ...opts?.gamepad,
+    }
+
     window.addEventListener('keydown', this.onKeyDown)
     window.addEventListener('keyup', this.onKeyUp)
 
@@ -21,6 +104,7 @@ export class Input {
     document.addEventListener('pointerlockchange', this.onPointerLockChange)
 
     this.element.addEventListener('click', () => {
+      if (!this.usesPointerLock()) return
       if (!this.isPointerLocked()) this.element.requestPointerLock()
     })
   }
@@ -32,10 +116,48 @@ export class Input {
     document.removeEventListener('pointerlockchange', this.onPointerLockChange)
   }
 
+  attachTouchControls(touch: TouchControls) {
+    this.touch = touch
+  }
+
+  getBindings() {
+    return cloneBindings(this.bindings)
+  }
+
+  getGamepadConfig(): GamepadConfig {
+    const cfg = this.gamepadCfg
+    return {
+      ...cfg,
+      jumpButtons: [...cfg.jumpButtons],
+      walkButtons: [...cfg.walkButtons],
+      sniffButtons: [...cfg.sniffButtons],
+      pauseButtons: [...cfg.pauseButtons],
+    }
+  }
+
+  setBindings(bindings: KeyBindings) {
+    this.bindings = cloneBindings(bindings)
+    // Keys held under the old mapping would otherwise stay "down".
+    this.keysDown.clear()
+  }
+
   isPointerLocked() {
     return document.pointerLockElement === this.element
   }
 
+  /**
+   * Touch look is drag-based; pointer lock would only get in the way, and iOS
+   * Safari has none to request. Keys then work without it.
+   */
+  private usesPointerLock() {
+    return !this.touch && typeof this.element.requestPointerLock === 'function'
+  }
+
+  /** Keys only count while the game holds the mouse, or when it never asks for it. */
+  private acceptsKeys() {
+    return this.isPointerLocked() || !this.usesPointerLock()
+  }
+
   consumeMouseDelta() {
     const dx = this.mouseDeltaX
     const dy = this.mouseDeltaY
@@ -44,34 +166,108 @@ export class Input {
     return { dx, dy }
   }
 
+  /** True once per press of a gamepad pause button (Start). Not part of `InputState`: pausing is not replayed. */
+  consumePausePressed() {
+    const pressed = this.pausePressed
+    this.pausePressed = false
+    return pressed
+  }
+
+  /** Polls the gamepad and touch controls; call once at the start of every frame. */
+  update(dt: number) {
+    if (this.touch) {
+      if (this.touch.consumeActivity()) this.device = 'touch'
+
+      const look = this.touch.consumeLookDelta()
+      this.mouseDeltaX += look.dx
+      this.mouseDeltaY += look.dy
+    }
+
+    this.pollGamepad(dt)
+  }
+
   endFrame() {
     this.jumpPressedThisFrame = false
+    this.touch?.endFrame()
   }
 
   getState(): InputState {
-    const forward = (this.isDown('KeyW') || this.isDown('ArrowUp') ? 1 : 0) +
-      (this.isDown('KeyS') || this.isDown('ArrowDown') ? -1 : 0)
+    if (this.device === 'gamepad') {
+      return { ...this.gamepadState }
+    }
+
+    if (this.device === 'touch' && this.touch) {
+      return this.touch.getState()
+    }
 
-    const right = (this.isDown('KeyD') || this.isDown('ArrowRight') ? 1 : 0) +
-      (this.isDown('KeyA') || this.isDown('ArrowLeft') ? -1 : 0)
+    const forward = (this.isDown('forward') ? 1 : 0) + (this.isDown('back') ? -1 : 0)
+    const right = (this.isDown('right') ? 1 : 0) + (this.isDown('left') ? -1 : 0)
 
     return {
       forward,
       right,
-      runHeld: this.isDown('ShiftLeft') || this.isDown('ShiftRight'),
+      runHeld: this.isDown('walk'),
       jumpPressed: this.jumpPressedThisFrame,
-      jumpHeld: this.isDown('Space'),
+      jumpHeld: this.isDown('jump'),
+      sniffHeld: this.isDown('sniff'),
     }
   }
 
-  private isDown(code: string) {
-    return this.keysDown.has(code)
+  private pollGamepad(dt: number) {
+    const pad = findGamepad()
+    if (!pad) {
+      this.gamepadState = emptyState()
+      this.gamepadJumpWasDown = false
+      this.gamepadPauseWasDown = false
+      if (this.device === 'gamepad') this.device = 'keyboard'
+      return
+    }
+
+    const cfg = this.gamepadCfg
+    const pressed = (indices: number[]) => indices.some((i) => pad.buttons[i]?.pressed)
+
+    const move = shapeStick(pad.axes[0] ?? 0, pad.axes[1] ?? 0, cfg.moveDeadzone, cfg.moveCurve)
+    const look = shapeStick(pad.axes[2] ?? 0, pad.axes[3] ?? 0, cfg.lookDeadzone, cfg.lookCurve)
+
+    const jumpDown = pressed(cfg.jumpButtons)
+    const jumpPressed = jumpDown && !this.gamepadJumpWasDown
+    this.gamepadJumpWasDown = jumpDown
+
+    const pauseDown = pressed(cfg.pauseButtons)
+    if (pauseDown && !this.gamepadPauseWasDown) this.pausePressed = true
+    this.gamepadPauseWasDown = pauseDown
+
+    this.gamepadState = {
+      forward: -move.y,
+      right: move.x,
+      runHeld: pressed(cfg.walkButtons),
+      jumpPressed,
+      jumpHeld: jumpDown,
+      sniffHeld: pressed(cfg.sniffButtons),
+    }
+
+    const active =
+      pad.axes.some((a) => Math.abs(a) > GAMEPAD_ACTIVITY_THRESHOLD) ||
+      pad.buttons.some((b) => b.pressed)
+    if (active) this.device = 'gamepad'
+
+    if (this.device === 'gamepad') {
+      // The right stick feeds the same path as the mouse so the camera (and replays) see one source.
+      this.mouseDeltaX += look.x * cfg.lookSpeed * dt
+      this.mouseDeltaY += look.y * cfg.lookSpeed * dt * (cfg.invertLookY ? -1 : 1)
+    }
+  }
+
+  private isDown(action: InputAction) {
+    return this.bindings[action].some((code) => this.keysDown.has(code))
   }
 
   private onKeyDown = (e: KeyboardEvent) => {
-    if (!this.isPointerLocked()) return
+    if (!this.acceptsKeys()) return
 
-    if (e.code === 'Space' && !this.keysDown.has('Space')) {
+    this.device = 'keyboard'
+
+    if (this.bindings.jump.includes(e.code) && !this.keysDown.has(e.code)) {
       this.jumpPressedThisFrame = true
     }
 
@@ -79,7 +275,7 @@ export class Input {
   }
 
   private onKeyUp = (e: KeyboardEvent) => {
-    if (!this.isPointerLocked()) return
+    if (!this.acceptsKeys()) return
 
     this.keysDown.delete(e.code)
   }
@@ -87,11 +283,37 @@ export class Input {
   private onMouseMove = (e: MouseEvent) => {
     if (!this.isPointerLocked()) return
 
+    this.device = 'keyboard'
+
     this.mouseDeltaX += e.movementX
     this.mouseDeltaY += e.movementY
   }
 
   private onPointerLockChange = () => {
-    // Intentionally empty (but handy hook for debugging later).
+    // Key-ups are not seen without the lock, so anything still held would stick.
+    if (!this.isPointerLocked()) this.keysDown.clear()
+  }
+}
+
+function findGamepad() {
+  if (typeof navigator === 'undefined' || !navigator.getGamepads) return null
+
+  for (const pad of navigator.getGamepads()) {
+    if (pad && pad.connected) return pad
   }
+  return null
+}
+
+/** Radial deadzone, then a power curve on the remaining magnitude. */
+function shapeStick(x: number, y: number, deadzone: number, curve: number) {
+  const magnitude = Math.hypot(x, y)
+  if (magnitude <= deadzone) return { x: 0, y: 0 }
+
+  const scaled = Math.min(1, (magnitude - deadzone) / (1 - deadzone))
+  const shaped = Math.pow(scaled, curve)
+  return { x: (x / magnitude) * shaped, y: (y / magnitude) * shaped }
+}
+
+function emptyState(): InputState {
+  return { forward: 0, right: 0, runHeld: false, jumpPressed: false, jumpHeld: false, sniffHeld: false }
 }
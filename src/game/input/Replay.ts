@@ -0,0 +1,236 @@
+import type { InputSource, InputState, LookSource } from './Input'
+import { parseRunSnapshot, type RunSnapshot } from '../save/RunSnapshot'
+
+/** Out-of-band player decisions that change the simulation ("Продолжить?" dialog, pause menu). */
+export type RoundAction = 'reset' | 'continue' | 'restart'
+
+export type ReplayFrame = {
+  dt: number
+  state: InputState
+  dx: number
+  dy: number
+  roundAction: RoundAction | null
+}
+
+/**
+ * Replay file. Frames are packed into one flat integer array, `FRAME_STRIDE`
+ * numbers per frame: dt (in `DT_UNIT`s), forward, right, flags, dx, dy
+ * (in `LOOK_UNIT`s). Analog axes are stored in `AXIS_UNIT`s.
+ */
+export type ReplayFile = {
+  version: 1
+  seed: number
+  /** Level file id; absent means the default map. */
+  level?: string
+  /** State the recording started from; absent for runs started on a fresh page. */
+  start?: RunSnapshot
+  /**
+   * The recording began with New game: playback runs `Simulation.newRun` with
+   * the start's guard level, as the session did, instead of restoring `start`.
+   */
+  newRun?: boolean
+  frames: number[]
+}
+
+const FRAME_STRIDE = 6
+const DT_UNIT = 1e-4
+const LOOK_UNIT = 0.01
+const AXIS_UNIT = 1 / 1000
+
+const FLAG_RUN_HELD = 1
+const FLAG_JUMP_PRESSED = 2
+const FLAG_JUMP_HELD = 4
+const FLAG_ROUND_RESET = 8
+const FLAG_ROUND_CONTINUE = 16
+const FLAG_ROUND_RESTART = 32
+const FLAG_SNIFF_HELD = 64
+
+// Frames longer than this are clamped by `Physics.step` anyway.
+const MAX_DT = 0.25
+
+/**
+ * Frame-latched input shared by live play and playback: the values for a frame
+ * are fixed in `beginFrame`, then served to `Player` and `ThirdPersonCamera`.
+ */
+export type FrameInput = InputSource & LookSource & {
+  beginFrame(rawDt: number, roundAction: RoundAction | null): ReplayFrame | null
+}
+
+/** Samples a live source once per frame, quantized the same way it is stored. */
+export class InputRecorder implements FrameInput {
+  private readonly frames: number[] = []
+  private current: ReplayFrame | null = null
+  private lookPending = false
+
+  constructor(private readonly source: InputSource & LookSource) {}
+
+  get frameCount() {
+    return this.frames.length / FRAME_STRIDE
+  }
+
+  beginFrame(rawDt: number, roundAction: RoundAction | null) {
+    const state = this.source.getState()
+    const look = this.source.consumeMouseDelta()
+
+    const packed = [
+      Math.round(Math.min(rawDt, MAX_DT) / DT_UNIT),
+      Math.round(state.forward / AXIS_UNIT),
+      Math.round(state.right / AXIS_UNIT),
+      packFlags(state, roundAction),
+      Math.round(look.dx / LOOK_UNIT),
+      Math.round(look.dy / LOOK_UNIT),
+    ]
+    this.frames.push(...packed)
+
+    // Hand back the quantized frame so live play sees exactly what a replay will.
+    this.current = unpackFrame(packed, 0)
+    this.lookPending = true
+    return this.current
+  }
+
+  getState() {
+    return this.current?.state ?? emptyState()
+  }
+
+  consumeMouseDelta() {
+    if (!this.current || !this.lookPending) return { dx: 0, dy: 0 }
+    this.lookPending = false
+    return { dx: this.current.dx, dy: this.current.dy }
+  }
+
+  /** Drops everything recorded so far; a new run starts a new recording. */
+  clear() {
+    this.frames.length = 0
+    this.current = null
+    this.lookPending = false
+  }
+
+  toFile(seed: number, level: string, start: RunSnapshot | null, newRun = false): ReplayFile {
+    const file: ReplayFile = { version: 1, seed, level, frames: this.frames.slice() }
+    if (start) file.start = start
+    if (start && newRun) file.newRun = true
+    return file
+  }
+}
+
+/** Feeds a recorded file back frame by frame, ignoring wall-clock time. */
+export class ReplayPlayback implements FrameInput {
+  private index = 0
+  private current: ReplayFrame | null = null
+  private lookPending = false
+
+  constructor(readonly replay: ReplayFile) {}
+
+  get frameCount() {
+    return this.replay.frames.length / FRAME_STRIDE
+  }
+
+  get done() {
+    return this.index >= this.frameCount
+  }
+
+  beginFrame() {
+    if (this.done) {
+      this.current = null
+      return null
+    }
+
+    this.current = unpackFrame(this.replay.frames, this.index * FRAME_STRIDE)
+    this.index++
+    this.lookPending = true
+    return this.current
+  }
+
+  getState() {
+    return this.current?.state ?? emptyState()
+  }
+
+  consumeMouseDelta() {
+    if (!this.current || !this.lookPending) return { dx: 0, dy: 0 }
+    this.lookPending = false
+    return { dx: this.current.dx, dy: this.current.dy }
+  }
+}
+
+/** Validates parsed JSON as a replay file; throws with a readable message otherwise. */
+export function parseReplay(data: unknown): ReplayFile {
+  if (!data || typeof data !== 'object') {
+    throw new Error('Replay must be a JSON object')
+  }
+
+  const { version, seed, level, start, newRun, frames } = data as Partial<ReplayFile>
+
+  if (version !== 1) {
+    throw new Error(`Unsupported replay version: ${String(version)}`)
+  }
+  if (typeof seed !== 'number' || !Number.isInteger(seed) || seed < 0) {
+    throw new Error('Replay "seed" must be a non-negative integer')
+  }
+  if (level !== undefined && typeof level !== 'string') {
+    throw new Error('Replay "level" must be a string')
+  }
+  if (newRun !== undefined && (typeof newRun !== 'boolean' || start === undefined)) {
+    throw new Error('Replay "newRun" must be true or false and needs a "start"')
+  }
+  if (!Array.isArray(frames) || frames.length % FRAME_STRIDE !== 0) {
+    throw new Error(`Replay "frames" must be a flat array of ${FRAME_STRIDE} numbers per frame`)
+  }
+  if (!frames.every((n) => Number.isInteger(n))) {
+    throw new Error('Replay "frames" must contain only integers')
+  }
+
+  const file: ReplayFile = { version, seed, frames }
+  if (level !== undefined) file.level = level
+  if (start === undefined) return file
+
+  const snapshot = parseRunSnapshot(start)
+  if (snapshot.seed !== seed) {
+    throw new Error('Replay "start" belongs to a different seed')
+  }
+  if ((snapshot.level ?? null) !== (level ?? null)) {
+    throw new Error('Replay "start" belongs to a different level')
+  }
+  file.start = snapshot
+  if (newRun) file.newRun = true
+  return file
+}
+
+function packFlags(state: InputState, roundAction: RoundAction | null) {
+  let flags = 0
+  if (state.runHeld) flags |= FLAG_RUN_HELD
+  if (state.jumpPressed) flags |= FLAG_JUMP_PRESSED
+  if (state.jumpHeld) flags |= FLAG_JUMP_HELD
+  if (state.sniffHeld) flags |= FLAG_SNIFF_HELD
+  if (roundAction === 'reset') flags |= FLAG_ROUND_RESET
+  if (roundAction === 'continue') flags |= FLAG_ROUND_CONTINUE
+  if (roundAction === 'restart') flags |= FLAG_ROUND_RESTART
+  return flags
+}
+
+function unpackFrame(frames: number[], offset: number): ReplayFrame {
+  const flags = frames[offset + 3]
+
+  let roundAction: RoundAction | null = null
+  if (flags & FLAG_ROUND_RESET) roundAction = 'reset'
+  else if (flags & FLAG_ROUND_CONTINUE) roundAction = 'continue'
+  else if (flags & FLAG_ROUND_RESTART) roundAction = 'restart'
+
+  return {
+    dt: frames[offset] * DT_UNIT,
+    state: {
+      forward: frames[offset + 1] * AXIS_UNIT,
+      right: frames[offset + 2] * AXIS_UNIT,
+      runHeld: (flags & FLAG_RUN_HELD) !== 0,
+      jumpPressed: (flags & FLAG_JUMP_PRESSED) !== 0,
+      jumpHeld: (flags & FLAG_JUMP_HELD) !== 0,
+      sniffHeld: (flags & FLAG_SNIFF_HELD) !== 0,
+    },
+    dx: frames[offset + 4] * LOOK_UNIT,
+    dy: frames[offset + 5] * LOOK_UNIT,
+    roundAction,
+  }
+}
+
+function emptyState(): InputState {
+  return { forward: 0, right: 0, runHeld: false, jumpPressed: false, jumpHeld: false, sniffHeld: false }
+}
@@ -0,0 +1,232 @@
+import type { InputState } from './Input'
+
+export type TouchControlsConfig = {
+  /** Joystick travel radius in CSS pixels; full deflection = full speed. */
+  stickRadius: number
+  /** Inner deadzone of the joystick, 0..1. */
+  stickDeadzone: number
+  /** Multiplier from finger drag pixels to mouse look pixels. */
+  lookScale: number
+}
+
+/**
+ * A finger is the main pointer. Touchscreen laptops report touch points too but
+ * have a mouse or touchpad as their main pointer, so they keep mouse look.
+ */
+export function isTouchDevice() {
+  return typeof window !== 'undefined' && !!window.matchMedia?.('(pointer: coarse)').matches
+}
+
+/**
+ * On-screen joystick, jump and sniff buttons and walk toggle, plus drag-to-look on the
+ * right half of `lookSurface`. `Input` reads it like another device.
+ */
+export class TouchControls {
+  private readonly overlay: HTMLDivElement
+  private readonly stickBase: HTMLDivElement
+  private readonly stickKnob: HTMLDivElement
+  private readonly walkButton: HTMLButtonElement
+
+  private readonly cfg: TouchControlsConfig
+
+  private stickPointer: number | null = null
+  private stickCenter = { x: 0, y: 0 }
+  private stick = { x: 0, y: 0 }
+
+  private lookPointer: number | null = null
+  private lookLast = { x: 0, y: 0 }
+  private lookDx = 0
+  private lookDy = 0
+
+  private jumpHeld = false
+  private jumpPressed = false
+  private sniffHeld = false
+  private walkToggled = false
+
+  private touched = false
+
+  constructor(
+    parent: HTMLElement,
+    private readonly lookSurface: HTMLElement,
+    config?: Partial<TouchControlsConfig>,
+  ) {
+    this.cfg = {
+      stickRadius: 56,
+      stickDeadzone: 0.12,
+      lookScale: 1.6,
+      ...config,
+    }
+
+    this.overlay = document.createElement('div')
+    this.overlay.id = 'touch-controls'
+
+    this.stickBase = document.createElement('div')
+    this.stickBase.id = 'touch-stick'
+    this.stickKnob = document.createElement('div')
+    this.stickKnob.id = 'touch-stick-knob'
+    this.stickBase.appendChild(this.stickKnob)
+
+    const jumpButton = document.createElement('button')
+    jumpButton.id = 'touch-jump'
+    jumpButton.textContent = '⤒'
+    jumpButton.title = 'Прыжок'
+
+    const sniffButton = document.createElement('button')
+    sniffButton.id = 'touch-sniff'
+    sniffButton.textContent = '👃'
+    sniffButton.title = 'Нюхать'
+
+    this.walkButton = document.createElement('button')
+    this.walkButton.id = 'touch-walk'
+    this.walkButton.textContent = '🚶'
+    this.walkButton.title = 'Ходьба'
+
+    this.overlay.append(this.stickBase, jumpButton, sniffButton, this.walkButton)
+    parent.appendChild(this.overlay)
+
+    this.stickBase.addEventListener('pointerdown', this.onStickDown)
+    window.addEventListener('pointermove', this.onPointerMove)
+    window.addEventListener('pointerup', this.onPointerUp)
+    window.addEventListener('pointercancel', this.onPointerUp)
+
+    this.lookSurface.addEventListener('pointerdown', this.onLookDown)
+
+    jumpButton.addEventListener('pointerdown', (e) => {
+      e.preventDefault()
+      this.touched = true
+      if (!this.jumpHeld) this.jumpPressed = true
+      this.jumpHeld = true
+    })
+    jumpButton.addEventListener('pointerup', () => {
+      this.jumpHeld = false
+    })
+    jumpButton.addEventListener('pointerleave', () => {
+      this.jumpHeld = false
+    })
+
+    sniffButton.addEventListener('pointerdown', (e) => {
+      e.preventDefault()
+      this.touched = true
+      this.sniffHeld = true
+    })
+    sniffButton.addEventListener('pointerup', () => {
+      this.sniffHeld = false
+    })
+    sniffButton.addEventListener('pointerleave', () => {
+      this.sniffHeld = false
+    })
+
+    this.walkButton.addEventListener('pointerdown', (e) => {
+      e.preventDefault()
+      this.touched = true
+      this.walkToggled = !this.walkToggled
+      this.walkButton.classList.toggle('active', this.walkToggled)
+    })
+  }
+
+  dispose() {
+    window.removeEventListener('pointermove', this.onPointerMove)
+    window.removeEventListener('pointerup', this.onPointerUp)
+    window.removeEventListener('pointercancel', this.onPointerUp)
+    this.lookSurface.removeEventListener('pointerdown', this.onLookDown)
+    this.overlay.remove()
+  }
+
+  /** True if any control was touched since the last call. */
+  consumeActivity() {
+    const touched = this.touched
+    this.touched = false
+    return touched
+  }
+
+  consumeLookDelta() {
+    const dx = this.lookDx * this.cfg.lookScale
+    const dy = this.lookDy * this.cfg.lookScale
+    this.lookDx = 0
+    this.lookDy = 0
+    return { dx, dy }
+  }
+
+  endFrame() {
+    this.jumpPressed = false
+  }
+
+  getState(): InputState {
+    const magnitude = Math.hypot(this.stick.x, this.stick.y)
+    const dz = this.cfg.stickDeadzone
+
+    let forward = 0
+    let right = 0
+    if (magnitude > dz) {
+      const scaled = Math.min(1, (magnitude - dz) / (1 - dz)) / magnitude
+      forward = -this.stick.y * scaled
+      right = this.stick.x * scaled
+    }
+
+    return {
+      forward,
+      right,
+      runHeld: this.walkToggled,
+      jumpPressed: this.jumpPressed,
+      jumpHeld: this.jumpHeld,
+      sniffHeld: this.sniffHeld,
+    }
+  }
+
+  private onStickDown = (e: PointerEvent) => {
+    if (this.stickPointer !== null) return
+    e.preventDefault()
+
+    this.touched = true
+    this.stickPointer = e.pointerId
+
+    const rect = this.stickBase.getBoundingClientRect()
+    this.stickCenter = { x: rect.left + rect.width / 2, y: rect.top + rect.height / 2 }
+    this.moveStick(e.clientX, e.clientY)
+  }
+
+  private onLookDown = (e: PointerEvent) => {
+    if (e.pointerType !== 'touch') return
+    if (this.lookPointer !== null) return
+    if (e.clientX < window.innerWidth / 2) return
+
+    this.touched = true
+    this.lookPointer = e.pointerId
+    this.lookLast = { x: e.clientX, y: e.clientY }
+  }
+
+  private onPointerMove = (e: PointerEvent) => {
+    if (e.pointerId === this.stickPointer) {
+      this.moveStick(e.clientX, e.clientY)
+    } else if (e.pointerId === this.lookPointer) {
+      this.lookDx += e.clientX - this.lookLast.x
+      this.lookDy += e.clientY - this.lookLast.y
+      this.lookLast = { x: e.clientX, y: e.clientY }
+    }
+  }
+
+  private onPointerUp = (e: PointerEvent) => {
+    if (e.pointerId === this.stickPointer) {
+      this.stickPointer = null
+      this.stick = { x: 0, y: 0 }
+      this.stickKnob.style.transform = 'translate(-50%, -50%)'
+    } else if (e.pointerId === this.lookPointer) {
+      this.lookPointer = null
+    }
+  }
+
+  private moveStick(clientX: number, clientY: number) {
+    const r = this.cfg.stickRadius
+    let dx = clientX - this.stickCenter.x
+    let dy = clientY - this.stickCenter.y
+
+    const len = Math.hypot(dx, dy)
+    if (len > r) {
+      dx = (dx / len) * r
+      dy = (dy / len) * r
+    }
+
+    this.stick = { x: dx / r, y: dy / r }
+    this.stickKnob.style.transform = `translate(calc(-50% + ${dx}px), calc(-50% + ${dy}px))`
+  }
+}
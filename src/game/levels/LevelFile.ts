@@ -0,0 +1,394 @@
+import { DEFAULT_LEVELS, parseLevelList, type LevelDefinition } from './Levels'
+import meadow from './meadow.json'
+
+type Vec2 = [number, number]
+type Vec3 = [number, number, number]
+
+/** A tree, rock or berry put at an exact spot by the level author; `at` is (x, z). */
+export type LevelEntity =
+  | { type: 'tree' | 'rock'; at: Vec2; yaw: number; scale: number }
+  | { type: 'berry'; at: Vec2 }
+
+/**
+ * A map: everything that was hard-coded for the meadow, as loaded from
+ * `public/levels/<id>.json`. Every section is optional in the file and falls
+ * back to `DEFAULT_LEVEL`; colors are `#rrggbb`, sound paths are relative to the
+ * site root.
+ */
+export type LevelFile = {
+  /** File name without `.json`; not part of the file itself. */
+  id: string
+  version: 1
+  name: string
+  /** Fixes the world seed; otherwise it comes from `?seed=` as usual. */
+  seed?: number
+  terrain: {
+    /** Height samples per side; keep it 2^n + 1. */
+    size: number
+    width: number
+    depth: number
+    maxHeight: number
+    borderWidth: number
+    borderHeight: number
+  }
+  water: {
+    /** Height of every lake and river surface. */
+    level: number
+    /** River bed width in metres; 0 leaves only the lakes. */
+    riverWidth: number
+    riverDepth: number
+    color: string
+  }
+  decor: {
+    treeCount: number
+    rockCount: number
+  }
+  berries: {
+    clusterMin: number
+    clusterMax: number
+    clusterRadius: number
+    minDistanceFromSpawn: number
+    pickupRadius: number
+  }
+  goal: {
+    yardSize: number
+    /** House and owner positions inside the yard, (x, z). */
+    houseOffset: Vec2
+    ownerOffset: Vec2
+    /** How close the dog has to get to the owner. */
+    foundRadius: number
+    /** Fixed yard position (x, z) for every round instead of a seeded one. */
+    position?: Vec2
+  }
+  hunger: {
+    max: number
+    berryRestore: number
+    /** Drain per second while moving, plus the extra at full speed; scaled per level. */
+    baseDrain: number
+    extraDrainAtMaxSpeed: number
+    minSpeedToDrain: number
+    /** Extra drain per second while swimming, moving or not; scaled per level. */
+    swimDrain: number
+    /** Drain grows by this fraction at full cold: at night or in the snow. */
+    coldDrain: number
+  }
+  /** Animals about the map, placed anew every round. */
+  wildlife: {
+    rabbits: number
+    squirrels: number
+    birds: number
+    /** Hunger back for catching a rabbit. */
+    catchRestore: number
+  }
+  lighting: {
+    background: string
+    fog: { color: string; near: number; far: number }
+    hemisphere: { sky: string; ground: string; intensity: number }
+    sun: { color: string; intensity: number; position: Vec3 }
+  }
+  /** `lighting` is noon; the sun circles through its position and the colors fade to `night`. */
+  dayNight: {
+    /** Seconds of play per full day; 0 stops the clock at `startTime`. */
+    dayLength: number
+    /** Time of day a run starts at: 0 midnight, 0.25 sunrise, 0.5 noon, 0.75 sunset. */
+    startTime: number
+    /** Sky and fog tint while the sun is low. */
+    dusk: string
+    night: {
+      background: string
+      fog: string
+      hemisphere: { sky: string; ground: string; intensity: number }
+      moon: { color: string; intensity: number }
+    }
+  }
+  weather: {
+    /** Seconds each spell of weather lasts; 0 keeps the first, clear spell. */
+    changeInterval: number
+    /** Chance that a spell is rainy, 0–1. */
+    rainChance: number
+    /** Chance of fog banks in a spell, 0–1. */
+    fogChance: number
+    /** Strongest wind, 0–1. */
+    windMax: number
+    /** Traction the dog loses in a downpour, 0–1. */
+    rainGripLoss: number
+    /** Compass needle swing in degrees in a full storm. */
+    stormJitter: number
+    /** A scent fades this much faster again in the strongest wind. */
+    windScentFade: number
+    /** How far you can see inside a fog bank, in metres. */
+    fogBankFar: number
+  }
+  audio: {
+    music: string
+    musicVolume: number
+    win: string
+    winVolume: number
+    eatBerry: string
+    eatBerryVolume: number
+  }
+  /** Difficulty per round, see `Levels.ts`. */
+  progression: LevelDefinition[]
+  entities: LevelEntity[]
+}
+
+export const DEFAULT_LEVEL_ID = 'meadow'
+
+/**
+ * The built-in meadow, from `meadow.json`. It lists every section, and other
+ * level files fall back to its values.
+ */
+export const DEFAULT_LEVEL: LevelFile = {
+  ...meadow,
+  id: DEFAULT_LEVEL_ID,
+  version: 1,
+  // JSON imports type every list as number[].
+  goal: {
+    ...meadow.goal,
+    houseOffset: meadow.goal.houseOffset as Vec2,
+    ownerOffset: meadow.goal.ownerOffset as Vec2,
+  },
+  lighting: {
+    ...meadow.lighting,
+    sun: { ...meadow.lighting.sun, position: meadow.lighting.sun.position as Vec3 },
+  },
+  progression: DEFAULT_LEVELS,
+  entities: [],
+}
+
+const LEVEL_ID = /^[a-z0-9_-]+$/i
+
+/** Fetches and validates `public/levels/<id>.json`; the meadow is built in. */
+export async function loadLevelFile(id: string): Promise<LevelFile> {
+  if (id === DEFAULT_LEVEL_ID) return DEFAULT_LEVEL
+  if (!LEVEL_ID.test(id)) {
+    throw new Error(`Level id "${id}" may only contain letters, digits, "-" and "_"`)
+  }
+
+  const url = `${import.meta.env.BASE_URL}levels/${id}.json`
+  const res = await fetch(url)
+  if (!res.ok) throw new Error(`levels/${id}.json: HTTP ${res.status}`)
+
+  let data: unknown
+  try {
+    data = await res.json()
+  } catch (e) {
+    throw new Error(`levels/${id}.json is not valid JSON: ${(e as Error).message}`)
+  }
+
+  try {
+    return parseLevelFile(data, id)
+  } catch (e) {
+    throw new Error(`levels/${id}.json: ${(e as Error).message}`)
+  }
+}
+
+/** Validates parsed JSON as a level file; throws with a readable message otherwise. */
+export function parseLevelFile(data: unknown, id: string): LevelFile {
+  if (!isObject(data)) throw new Error('Level file must be a JSON object')
+
+  const known = new Set(['version', 'name', 'seed', ...Object.keys(DEFAULT_LEVEL)])
+  known.delete('id')
+  for (const key of Object.keys(data)) {
+    if (!known.has(key)) throw new Error(`"${key}" is not a known section`)
+  }
+
+  if (data.version !== 1) throw new Error(`Unsupported level version: ${String(data.version)}`)
+  if (data.name !== undefined && typeof data.name !== 'string') throw new Error('"name" must be a string')
+  if (data.seed !== undefined && (!isInt(data.seed) || data.seed < 0)) {
+    throw new Error('"seed" must be a non-negative integer')
+  }
+
+  // `goal.position` is optional, so it is not part of the defaults `mergeSection` checks against.
+  const goalData = isObject(data.goal) ? { ...data.goal } : data.goal
+  const position = isObject(goalData) ? goalData.position : undefined
+  if (isObject(goalData)) delete goalData.position
+
+  const level: LevelFile = {
+    id,
+    version: 1,
+    name: (data.name as string | undefined) ?? id,
+    terrain: mergeSection(data.terrain, 'terrain', DEFAULT_LEVEL.terrain),
+    water: mergeSection(data.water, 'water', DEFAULT_LEVEL.water),
+    decor: mergeSection(data.decor, 'decor', DEFAULT_LEVEL.decor),
+    berries: mergeSection(data.berries, 'berries', DEFAULT_LEVEL.berries),
+    goal: mergeSection(goalData, 'goal', DEFAULT_LEVEL.goal),
+    hunger: mergeSection(data.hunger, 'hunger', DEFAULT_LEVEL.hunger),
+    wildlife: mergeSection(data.wildlife, 'wildlife', DEFAULT_LEVEL.wildlife),
+    lighting: mergeSection(data.lighting, 'lighting', DEFAULT_LEVEL.lighting),
+    dayNight: mergeSection(data.dayNight, 'dayNight', DEFAULT_LEVEL.dayNight),
+    weather: mergeSection(data.weather, 'weather', DEFAULT_LEVEL.weather),
+    audio: mergeSection(data.audio, 'audio', DEFAULT_LEVEL.audio),
+    progression: data.progression === undefined ? DEFAULT_LEVELS : parseProgression(data.progression),
+    entities: [],
+  }
+  if (data.seed !== undefined) level.seed = data.seed as number
+
+  if (position !== undefined) {
+    if (!isNumTuple(position, 2)) throw new Error('"goal.position" must be [x, z]')
+    level.goal.position = [position[0], position[1]]
+  }
+
+  checkRanges(level)
+
+  if (data.entities !== undefined) {
+    if (!Array.isArray(data.entities)) throw new Error('"entities" must be a list')
+    level.entities = data.entities.map((entity, i) => parseEntity(entity, `entities[${i}]`, level))
+  }
+
+  return level
+}
+
+function parseProgression(data: unknown) {
+  try {
+    return parseLevelList(data, 'The list')
+  } catch (e) {
+    throw new Error(`"progression": ${(e as Error).message}`)
+  }
+}
+
+/** Copies `data` over `defaults`, requiring every value to have the default's shape. */
+function mergeSection<T extends object>(data: unknown, path: string, defaults: T): T {
+  if (data === undefined) return structuredClone(defaults)
+  if (!isObject(data)) throw new Error(`"${path}" must be an object`)
+
+  const result = structuredClone(defaults) as Record<string, unknown>
+  for (const [key, value] of Object.entries(data)) {
+    const fieldPath = `${path}.${key}`
+    if (!(key in result)) throw new Error(`"${fieldPath}" is not a known field`)
+    result[key] = checkLike(value, result[key], fieldPath)
+  }
+  return result as T
+}
+
+function checkLike(value: unknown, example: unknown, path: string): unknown {
+  if (typeof example === 'number') {
+    if (!isNum(value)) throw new Error(`"${path}" must be a number`)
+    return value
+  }
+  if (typeof example === 'string') {
+    if (typeof value !== 'string') throw new Error(`"${path}" must be a string`)
+    if (example.startsWith('#') && !/^#[0-9a-f]{6}$/i.test(value)) {
+      throw new Error(`"${path}" must be a color like "#88a9d8"`)
+    }
+    return value
+  }
+  if (Array.isArray(example)) {
+    if (!isNumTuple(value, example.length)) {
+      throw new Error(`"${path}" must be a list of ${example.length} numbers`)
+    }
+    return value
+  }
+  return mergeSection(value, path, example as object)
+}
+
+function checkRanges(level: LevelFile) {
+  const { terrain, decor, berries, goal, hunger } = level
+
+  const cells = terrain.size - 1
+  if (cells < 2 || !Number.isInteger(Math.log2(cells))) {
+    throw new Error('"terrain.size" must be a power of two plus one, e.g. 257, 513 or 1025')
+  }
+  for (const key of ['width', 'depth', 'maxHeight'] as const) {
+    if (terrain[key] <= 0) throw new Error(`"terrain.${key}" must be positive`)
+  }
+  if (terrain.borderWidth < 0 || terrain.borderHeight < 0) {
+    throw new Error('"terrain.borderWidth" and "terrain.borderHeight" must not be negative')
+  }
+
+  if (level.water.riverWidth < 0 || level.water.riverDepth < 0) {
+    throw new Error('"water.riverWidth" and "water.riverDepth" must not be negative')
+  }
+
+  for (const key of ['treeCount', 'rockCount'] as const) {
+    if (!Number.isInteger(decor[key]) || decor[key] < 0) {
+      throw new Error(`"decor.${key}" must be a non-negative integer`)
+    }
+  }
+
+  if (!Number.isInteger(berries.clusterMin) || berries.clusterMin < 1) {
+    throw new Error('"berries.clusterMin" must be a positive integer')
+  }
+  if (!Number.isInteger(berries.clusterMax) || berries.clusterMax < berries.clusterMin) {
+    throw new Error('"berries.clusterMax" must be an integer no smaller than "clusterMin"')
+  }
+  if (berries.clusterRadius <= 0 || berries.pickupRadius <= 0) {
+    throw new Error('"berries.clusterRadius" and "berries.pickupRadius" must be positive')
+  }
+
+  if (goal.yardSize <= 0 || goal.foundRadius <= 0) {
+    throw new Error('"goal.yardSize" and "goal.foundRadius" must be positive')
+  }
+  if (goal.position && !insideTerrain(level, goal.position)) {
+    throw new Error('"goal.position" is outside the terrain')
+  }
+
+  if (hunger.max <= 0) throw new Error('"hunger.max" must be positive')
+  if (hunger.swimDrain < 0 || hunger.coldDrain < 0) {
+    throw new Error('"hunger.swimDrain" and "hunger.coldDrain" must not be negative')
+  }
+
+  for (const key of ['rabbits', 'squirrels', 'birds'] as const) {
+    if (!Number.isInteger(level.wildlife[key]) || level.wildlife[key] < 0) {
+      throw new Error(`"wildlife.${key}" must be a non-negative integer`)
+    }
+  }
+  if (level.wildlife.catchRestore < 0) throw new Error('"wildlife.catchRestore" must not be negative')
+
+  if (level.dayNight.dayLength < 0) throw new Error('"dayNight.dayLength" must not be negative')
+  if (level.dayNight.startTime < 0 || level.dayNight.startTime >= 1) {
+    throw new Error('"dayNight.startTime" must be at least 0 and below 1')
+  }
+
+  const { weather } = level
+  if (weather.changeInterval < 0) throw new Error('"weather.changeInterval" must not be negative')
+  for (const key of ['rainChance', 'fogChance', 'windMax', 'rainGripLoss'] as const) {
+    if (weather[key] < 0 || weather[key] > 1) throw new Error(`"weather.${key}" must be between 0 and 1`)
+  }
+  if (weather.stormJitter < 0 || weather.windScentFade < 0 || weather.fogBankFar <= 0) {
+    throw new Error('"weather.stormJitter" and "weather.windScentFade" must not be negative, "weather.fogBankFar" must be positive')
+  }
+
+  for (const key of ['musicVolume', 'winVolume', 'eatBerryVolume'] as const) {
+    const volume = level.audio[key]
+    if (volume < 0 || volume > 1) throw new Error(`"audio.${key}" must be between 0 and 1`)
+  }
+}
+
+function parseEntity(data: unknown, path: string, level: LevelFile): LevelEntity {
+  if (!isObject(data)) throw new Error(`"${path}" must be an object`)
+
+  const { type, at, yaw = 0, scale = 1 } = data
+  if (!isNumTuple(at, 2)) throw new Error(`"${path}.at" must be [x, z]`)
+  if (!insideTerrain(level, at)) throw new Error(`"${path}.at" is outside the terrain`)
+
+  if (type === 'berry') return { type, at: [at[0], at[1]] }
+
+  if (type !== 'tree' && type !== 'rock') {
+    throw new Error(`"${path}.type" must be "tree", "rock" or "berry"`)
+  }
+  if (!isNum(yaw)) throw new Error(`"${path}.yaw" must be a number (radians)`)
+  if (!isNum(scale) || scale <= 0) throw new Error(`"${path}.scale" must be a positive number`)
+
+  return { type, at: [at[0], at[1]], yaw, scale }
+}
+
+function insideTerrain(level: LevelFile, [x, z]: number[]) {
+  return Math.abs(x) <= level.terrain.width / 2 && Math.abs(z) <= level.terrain.depth / 2
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return !!value && typeof value === 'object' && !Array.isArray(value)
+}
+
+function isNum(value: unknown): value is number {
+  return typeof value === 'number' && Number.isFinite(value)
+}
+
+function isInt(value: unknown): value is number {
+  return isNum(value) && Number.isInteger(value)
+}
+
+function isNumTuple(value: unknown, length: number): value is number[] {
+  return Array.isArray(value) && value.length === length && value.every(isNum)
+}
@@ -0,0 +1,78 @@
+import progression from './progression.json'
+
+/**
+ * Difficulty of one round. Tuned in `progression.json`: entry N is level N + 1,
+ * and rounds past the end of the list repeat the last entry.
+ */
+export type LevelDefinition = {
+  /** Min and max distance of the owner's yard from the spawn point. */
+  ownerDistance: [number, number]
+  /** Total berries scattered over the map. */
+  berries: number
+  /** Multiplier on hunger drain while moving (1 = base rate). */
+  hungerDrain: number
+  /** Trees in the dense forest cluster on the way to the owner. */
+  denseTrees: number
+}
+
+export const DEFAULT_LEVELS: LevelDefinition[] = parseLevels(progression)
+
+/** Level for a 1-based round number. */
+export function levelForRound(levels: LevelDefinition[], round: number) {
+  const index = Math.min(Math.max(0, round - 1), levels.length - 1)
+  return levels[index]
+}
+
+/** Validates parsed JSON as a level list; throws with a readable message otherwise. */
+export function parseLevels(data: unknown): LevelDefinition[] {
+  if (!data || typeof data !== 'object') {
+    throw new Error('Level progression must be a JSON object')
+  }
+
+  return parseLevelList((data as { levels?: unknown }).levels, 'Level progression "levels"')
+}
+
+/** Validates a list of level definitions; `name` prefixes the error for an invalid list. */
+export function parseLevelList(levels: unknown, name: string): LevelDefinition[] {
+  if (!Array.isArray(levels) || levels.length === 0) {
+    throw new Error(`${name} must be a non-empty list`)
+  }
+
+  return levels.map((level, i) => parseLevel(level, `Level ${i + 1}`))
+}
+
+function parseLevel(data: unknown, name: string): LevelDefinition {
+  if (!data || typeof data !== 'object') {
+    throw new Error(`${name} must be an object`)
+  }
+
+  const l = data as Partial<LevelDefinition>
+
+  const distance = l.ownerDistance
+  if (!Array.isArray(distance) || distance.length !== 2 || !distance.every(isNum)) {
+    throw new Error(`${name}: "ownerDistance" must be [min, max]`)
+  }
+  if (distance[0] < 0 || distance[1] < distance[0]) {
+    throw new Error(`${name}: "ownerDistance" must satisfy 0 <= min <= max`)
+  }
+  if (!isNum(l.berries) || !Number.isInteger(l.berries) || l.berries < 1) {
+    throw new Error(`${name}: "berries" must be a positive integer`)
+  }
+  if (!isNum(l.hungerDrain) || l.hungerDrain < 0) {
+    throw new Error(`${name}: "hungerDrain" must be a non-negative number`)
+  }
+  if (!isNum(l.denseTrees) || !Number.isInteger(l.denseTrees) || l.denseTrees < 0) {
+    throw new Error(`${name}: "denseTrees" must be a non-negative integer`)
+  }
+
+  return {
+    ownerDistance: [distance[0], distance[1]],
+    berries: l.berries,
+    hungerDrain: l.hungerDrain,
+    denseTrees: l.denseTrees,
+  }
+}
+
+function isNum(value: unknown): value is number {
+  return typeof value === 'number' && Number.isFinite(value)
+}
@@ -0,0 +1,396 @@
+import type { Collider } from '@dimforge/rapier3d-compat'
+import { Vector3 } from 'three'
+
+import type { Physics } from '../physics/Physics'
+import type { Terrain } from '../world/Terrain'
+
+export type NavGridConfig = {
+  /** The walker's capsule, tested against obstacle colliders at every node. */
+  agentRadius: number
+  agentHalfHeight: number
+  /** Steepest uphill step between two nodes, in radians. */
+  maxClimbSlope: number
+  /** Nodes steeper than this slide the walker off, in radians. */
+  maxStandSlope: number
+  /** Water deeper than this is swum through, at `waterCost` times the cost. */
+  swimDepth: number
+  waterCost: number
+}
+
+export type PathOptions = {
+  /** Give up after expanding this many nodes; unreachable goals would otherwise search the whole map. */
+  maxNodes: number
+}
+
+type XZ = { x: number; z: number }
+
+// Neighbour offsets (dx, dz) with their length in grid steps.
+const NEIGHBOURS: [number, number, number][] = [
+  [1, 0, 1],
+  [-1, 0, 1],
+  [0, 1, 1],
+  [0, -1, 1],
+  [1, 1, Math.SQRT2],
+  [1, -1, Math.SQRT2],
+  [-1, 1, Math.SQRT2],
+  [-1, -1, Math.SQRT2],
+]
+
+// Goals and starts off the walkable grid snap to a free node this many nodes away at most.
+const SNAP_RADIUS = 3
+
+const NODE_FREE = 0
+const NODE_STEEP = 1
+const NODE_BLOCKED = 2
+
+/**
+ * Walkability over the terrain height grid, one node per height sample. Nodes
+ * too steep to stand on or taken by an obstacle are out; edges only climb as
+ * steeply as the walker can, but drop any distance. Deep water is allowed at
+ * a higher cost, since the dog swims. `findPath` is A* over the 8-connected grid.
+ */
+export class NavGrid {
+  readonly config: NavGridConfig
+
+  private readonly size: number
+  private readonly step: number
+  private readonly maxRise: number
+  /** `NODE_*` per node, same layout as `Terrain.heights`. */
+  private readonly nodes: Uint8Array
+  private readonly water: Uint8Array
+
+  // A* scratch, reused between searches; `visited` holds the search id that last touched a node.
+  private readonly cost: Float32Array
+  private readonly parent: Int32Array
+  private readonly visited: Uint32Array
+  private readonly closed: Uint32Array
+  private search = 0
+
+  constructor(
+    private readonly terrain: Terrain,
+    private readonly physics: Physics,
+    config?: Partial<NavGridConfig>,
+  ) {
+    this.config = {
+      agentRadius: 0.45,
+      agentHalfHeight: 0.55,
+      maxClimbSlope: (40 * Math.PI) / 180,
+      maxStandSlope: (48 * Math.PI) / 180,
+      swimDepth: 0.5,
+      waterCost: 3,
+      ...config,
+    }
+
+    const { size } = terrain.config
+    this.size = size
+    this.step = Math.min(terrain.stepX, terrain.stepZ)
+    this.maxRise = Math.tan(this.config.maxClimbSlope)
+
+    const count = size * size
+    this.nodes = new Uint8Array(count)
+    this.water = new Uint8Array(count)
+    this.cost = new Float32Array(count)
+    this.parent = new Int32Array(count)
+    this.visited = new Uint32Array(count)
+    this.closed = new Uint32Array(count)
+
+    this.markTerrain()
+  }
+
+  /** Replaces the obstacles, e.g. each round's forest and yard. */
+  setObstacles(colliders: readonly Collider[]) {
+    for (let i = 0; i < this.nodes.length; i++) {
+      if (this.nodes[i] === NODE_BLOCKED) this.nodes[i] = NODE_FREE
+    }
+    for (const collider of colliders) this.markCollider(collider)
+  }
+
+  isWalkable(x: number, z: number) {
+    return this.nodes[this.nodeAt(x, z)] === NODE_FREE
+  }
+
+  /**
+   * Ground-level waypoints from `from` to `to`, both included, or null when
+   * there is no route (or it is longer than `maxNodes` allows).
+   */
+  findPath(from: XZ, to: XZ, options?: Partial<PathOptions>): Vector3[] | null {
+    const { maxNodes } = { maxNodes: 120_000, ...options }
+    const start = this.snap(this.nodeAt(from.x, from.z))
+    const goal = this.snap(this.nodeAt(to.x, to.z))
+    if (start < 0 || goal < 0) return null
+
+    const { size, cost, parent, visited, closed } = this
+    const search = this.nextSearch()
+    const goalX = Math.floor(goal / size)
+    const goalZ = goal % size
+    const heuristic = (n: number) => {
+      const dx = Math.abs(Math.floor(n / size) - goalX)
+      const dz = Math.abs((n % size) - goalZ)
+      return Math.max(dx, dz) + (Math.SQRT2 - 1) * Math.min(dx, dz)
+    }
+
+    const open = new NodeHeap()
+    cost[start] = 0
+    parent[start] = -1
+    visited[start] = search
+    open.push(start, heuristic(start))
+
+    let expanded = 0
+    while (open.length > 0) {
+      const node = open.pop()
+      if (closed[node] === search) continue
+      closed[node] = search
+
+      if (node === goal) return this.buildPath(goal, from, to)
+      if (++expanded > maxNodes) return null
+
+      this.forEachEdge(node, (next, length) => {
+        if (closed[next] === search) return
+        const g = cost[node] + length
+        if (visited[next] === search && g >= cost[next]) return
+        visited[next] = search
+        cost[next] = g
+        parent[next] = node
+        open.push(next, g + heuristic(next))
+      })
+    }
+    return null
+  }
+
+  /** Every node reachable from `from`, for checking many destinations at once. */
+  reachableFrom(from: XZ): (x: number, z: number) => boolean {
+    const start = this.snap(this.nodeAt(from.x, from.z))
+    const search = this.nextSearch()
+    const { visited } = this
+
+    if (start >= 0) {
+      const queue = [start]
+      visited[start] = search
+      while (queue.length > 0) {
+        const node = queue.pop()!
+        this.forEachEdge(node, (next) => {
+          if (visited[next] === search) return
+          visited[next] = search
+          queue.push(next)
+        })
+      }
+    }
+
+    // Copied, so later searches do not change the answer.
+    const reached = new Uint8Array(visited.length)
+    for (let i = 0; i < visited.length; i++) reached[i] = visited[i] === search ? 1 : 0
+    return (x, z) => {
+      const node = this.snap(this.nodeAt(x, z))
+      return node >= 0 && reached[node] === 1
+    }
+  }
+
+  private nextSearch() {
+    this.search++
+    if (this.search === 0xffffffff) {
+      this.visited.fill(0)
+      this.closed.fill(0)
+      this.search = 1
+    }
+    return this.search
+  }
+
+  /** Walkable neighbours of `node` and the cost of stepping there. */
+  private forEachEdge(node: number, visit: (next: number, cost: number) => void) {
+    const { size, nodes, water, maxRise, step } = this
+    const { heights } = this.terrain
+    const gx = Math.floor(node / size)
+    const gz = node % size
+    const h = heights[node]
+
+    for (const [dx, dz, length] of NEIGHBOURS) {
+      const nx = gx + dx
+      const nz = gz + dz
+      if (nx < 0 || nz < 0 || nx >= size || nz >= size) continue
+      const next = nx * size + nz
+      if (nodes[next] !== NODE_FREE) continue
+      // Uphill only as steep as the walker climbs; downhill it can always drop.
+      if (heights[next] - h > maxRise * length * step) continue
+      // Diagonals must not squeeze between two blocked nodes.
+      if (dx !== 0 && dz !== 0 && (nodes[nx * size + gz] !== NODE_FREE || nodes[gx * size + nz] !== NODE_FREE)) continue
+
+      visit(next, length * (water[next] ? this.config.waterCost : 1))
+    }
+  }
+
+  private buildPath(goal: number, from: XZ, to: XZ) {
+    const { size, terrain } = this
+    const nodes: number[] = []
+    for (let n = goal; n >= 0; n = this.parent[n]) nodes.push(n)
+    nodes.reverse()
+
+    const path = [new Vector3(from.x, terrain.getHeightAt(from.x, from.z), from.z)]
+    for (let i = 1; i < nodes.length - 1; i++) {
+      // Only keep the corners.
+      const a = nodes[i - 1]
+      const b = nodes[i]
+      const c = nodes[i + 1]
+      if (b - a === c - b) continue
+      const x = terrain.gridToWorldX(Math.floor(b / size))
+      const z = terrain.gridToWorldZ(b % size)
+      path.push(new Vector3(x, terrain.heights[b], z))
+    }
+    path.push(new Vector3(to.x, terrain.getHeightAt(to.x, to.z), to.z))
+    return path
+  }
+
+  private nodeAt(x: number, z: number) {
+    const { terrain, size } = this
+    const { width, depth } = terrain.config
+    const gx = clampInt(Math.round((x + width / 2) / terrain.stepX), 0, size - 1)
+    const gz = clampInt(Math.round((z + depth / 2) / terrain.stepZ), 0, size - 1)
+    return gx * size + gz
+  }
+
+  /** `node` when it is walkable, else the nearest walkable node close by, else -1. */
+  private snap(node: number) {
+    const { size, nodes } = this
+    if (nodes[node] === NODE_FREE) return node
+
+    const gx = Math.floor(node / size)
+    const gz = node % size
+    let best = -1
+    let bestDistance = Infinity
+    for (let dx = -SNAP_RADIUS; dx <= SNAP_RADIUS; dx++) {
+      for (let dz = -SNAP_RADIUS; dz <= SNAP_RADIUS; dz++) {
+        const nx = gx + dx
+        const nz = gz + dz
+        if (nx < 0 || nz < 0 || nx >= size || nz >= size) continue
+        const d = dx * dx + dz * dz
+        if (d < bestDistance && nodes[nx * size + nz] === NODE_FREE) {
+          best = nx * size + nz
+          bestDistance = d
+        }
+      }
+    }
+    return best
+  }
+
+  private markTerrain() {
+    const { terrain, size, nodes, water } = this
+    const { heights } = terrain
+    const { waterLevel } = terrain.config
+    const maxStand = Math.tan(this.config.maxStandSlope)
+
+    for (let gx = 0; gx < size; gx++) {
+      for (let gz = 0; gz < size; gz++) {
+        const i = gx * size + gz
+        const x0 = Math.max(0, gx - 1)
+        const x1 = Math.min(size - 1, gx + 1)
+        const z0 = Math.max(0, gz - 1)
+        const z1 = Math.min(size - 1, gz + 1)
+        const sx = (heights[x1 * size + gz] - heights[x0 * size + gz]) / ((x1 - x0) * terrain.stepX)
+        const sz = (heights[gx * size + z1] - heights[gx * size + z0]) / ((z1 - z0) * terrain.stepZ)
+
+        nodes[i] = Math.hypot(sx, sz) > maxStand ? NODE_STEEP : NODE_FREE
+        water[i] = waterLevel - heights[i] > this.config.swimDepth ? 1 : 0
+      }
+    }
+  }
+
+  /** Blocks every node where the walker's capsule, standing on the ground, would touch `collider`. */
+  private markCollider(collider: Collider) {
+    const { terrain, size, nodes, physics } = this
+    const { agentRadius, agentHalfHeight } = this.config
+    const { RAPIER } = physics
+    const agent = new RAPIER.Capsule(agentHalfHeight, agentRadius)
+    const rotation = { x: 0, y: 0, z: 0, w: 1 }
+    const { width, depth } = terrain.config
+
+    const center = collider.translation()
+    const reach = horizontalReach(collider, RAPIER.ShapeType) + agentRadius
+    const gx0 = clampInt(Math.floor((center.x - reach + width / 2) / terrain.stepX), 0, size - 1)
+    const gx1 = clampInt(Math.ceil((center.x + reach + width / 2) / terrain.stepX), 0, size - 1)
+    const gz0 = clampInt(Math.floor((center.z - reach + depth / 2) / terrain.stepZ), 0, size - 1)
+    const gz1 = clampInt(Math.ceil((center.z + reach + depth / 2) / terrain.stepZ), 0, size - 1)
+
+    for (let gx = gx0; gx <= gx1; gx++) {
+      for (let gz = gz0; gz <= gz1; gz++) {
+        const i = gx * size + gz
+        if (nodes[i] !== NODE_FREE) continue
+        const position = {
+          x: terrain.gridToWorldX(gx),
+          y: terrain.heights[i] + agentHalfHeight + agentRadius + 0.05,
+          z: terrain.gridToWorldZ(gz),
+        }
+        if (collider.intersectsShape(agent, position, rotation)) nodes[i] = NODE_BLOCKED
+      }
+    }
+  }
+}
+
+/** How far `collider` reaches sideways from its centre, whatever its rotation. */
+function horizontalReach(collider: Collider, types: Physics['RAPIER']['ShapeType']) {
+  switch (collider.shapeType()) {
+    case types.Ball:
+    case types.Cylinder:
+    case types.Capsule:
+    case types.Cone:
+      return collider.radius()
+    case types.Cuboid: {
+      const { x, y, z } = collider.halfExtents()
+      return Math.hypot(x, y, z)
+    }
+    default:
+      return 4
+  }
+}
+
+function clampInt(value: number, min: number, max: number) {
+  return Math.max(min, Math.min(max, value))
+}
+
+/** Binary min-heap of node indices keyed by their A* score. */
+class NodeHeap {
+  private readonly items: number[] = []
+  private readonly scores: number[] = []
+
+  get length() {
+    return this.items.length
+  }
+
+  push(item: number, score: number) {
+    const { items, scores } = this
+    let i = items.length
+    items.push(item)
+    scores.push(score)
+    while (i > 0) {
+      const up = (i - 1) >> 1
+      if (scores[up] <= score) break
+      items[i] = items[up]
+      scores[i] = scores[up]
+      i = up
+    }
+    items[i] = item
+    scores[i] = score
+  }
+
+  pop() {
+    const { items, scores } = this
+    const top = items[0]
+    const lastItem = items.pop()!
+    const lastScore = scores.pop()!
+    const count = items.length
+    if (count > 0) {
+      let i = 0
+      while (true) {
+        const left = i * 2 + 1
+        if (left >= count) break
+        const right = left + 1
+        const child = right < count && scores[right] < scores[left] ? right : left
+        if (scores[child] >= lastScore) break
+        items[i] = items[child]
+        scores[i] = scores[child]
+        i = child
+      }
+      items[i] = lastItem
+      scores[i] = lastScore
+    }
+    return top
+  }
+}
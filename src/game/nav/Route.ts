@@ -0,0 +1,35 @@
+import type { Vector3 } from 'three'
+
+export type RouteProjection = {
+  /** Segment `route[segment]`–`route[segment + 1]` holding the closest point. */
+  segment: number
+  /** Fraction of that segment before the closest point. */
+  t: number
+  /** Metres along the route to the closest point. */
+  along: number
+  /** How far `p` is from it, on the ground plane. */
+  distance: number
+}
+
+/** The point of a walked route closest to `p`, ignoring height; null for a route without segments. */
+export function projectOnRoute(route: Vector3[], p: Vector3): RouteProjection | null {
+  let best: RouteProjection | null = null
+  let along = 0
+  for (let i = 0; i < route.length - 1; i++) {
+    const a = route[i]
+    const b = route[i + 1]
+    const dx = b.x - a.x
+    const dz = b.z - a.z
+    const lengthSq = dx * dx + dz * dz
+    const t = lengthSq > 0 ? Math.max(0, Math.min(1, ((p.x - a.x) * dx + (p.z - a.z) * dz) / lengthSq)) : 0
+    const distance = Math.hypot(a.x + dx * t - p.x, a.z + dz * t - p.z)
+    const length = Math.sqrt(lengthSq)
+    if (!best || distance < best.distance) best = { segment: i, t, along: along + length * t, distance }
+    along += length
+  }
+  return best
+}
+
+export function flatDistance(a: Vector3, b: Vector3) {
+  return Math.hypot(b.x - a.x, b.z - a.z)
+}
@@ -0,0 +1,156 @@
+import { Vector3 } from 'three'
+
+import type { LevelDefinition } from '../levels/Levels'
+import type { LevelFile } from '../levels/LevelFile'
+import type { NavGrid } from './NavGrid'
+import { flatDistance, projectOnRoute } from './Route'
+
+/** How far the dog gets on its hunger, assuming it keeps moving at top speed. */
+export type HungerBudget = {
+  max: number
+  berryRestore: number
+  /** Hunger used per metre walked. */
+  drainPerMetre: number
+}
+
+export type ValidatorConfig = {
+  /** Share of the ideal range the dog is expected to make: it stops, turns, climbs and swims. */
+  hungerMargin: number
+  /** Berries further off the route than this do not count as food on the way. */
+  detourRadius: number
+  /** Berries closer together than this are eaten in one detour. */
+  clusterRadius: number
+}
+
+export type RoundReport = {
+  ownerReachable: boolean
+  /** Walkable route from spawn to the owner, or null. */
+  route: Vector3[] | null
+  /** Metres along `route`; Infinity when the owner cannot be reached. */
+  routeLength: number
+  berries: number
+  /** Berries the dog cannot walk to from spawn. */
+  unreachableBerries: number
+  /** Lowest hunger on the way to the owner, eating every cluster worth the detour, 0–1. */
+  lowestHunger: number
+  /** Metres along the route where the dog runs out of food, or null if it makes it. */
+  starvesAt: number | null
+}
+
+export const DEFAULT_VALIDATOR: ValidatorConfig = {
+  hungerMargin: 0.6,
+  detourRadius: 60,
+  clusterRadius: 30,
+}
+
+/** Hunger use per metre at top speed, where a metre costs the least. */
+export function hungerBudget(hunger: LevelFile['hunger'], level: LevelDefinition, maxSpeed: number): HungerBudget {
+  const drainPerSec = (hunger.baseDrain + hunger.extraDrainAtMaxSpeed) * level.hungerDrain
+  return {
+    max: hunger.max,
+    berryRestore: hunger.berryRestore,
+    drainPerMetre: maxSpeed > 0 ? drainPerSec / maxSpeed : Infinity,
+  }
+}
+
+/**
+ * Checks that a generated round can be won: the owner is reachable from spawn
+ * and there is enough food near the way there. The dog starts full and eats
+ * every berry cluster near the route whose berries are worth the detour.
+ */
+export function validateRound(
+  nav: NavGrid,
+  spawn: Vector3,
+  owner: Vector3,
+  berries: readonly Vector3[],
+  budget: HungerBudget,
+  config?: Partial<ValidatorConfig>,
+): RoundReport {
+  const cfg = { ...DEFAULT_VALIDATOR, ...config }
+  const reachable = nav.reachableFrom(spawn)
+  const food = berries.filter((b) => reachable(b.x, b.z))
+  const route = reachable(owner.x, owner.z) ? nav.findPath(spawn, owner) : null
+
+  const report: RoundReport = {
+    ownerReachable: route !== null,
+    route,
+    routeLength: route ? routeLength(route) : Infinity,
+    berries: berries.length,
+    unreachableBerries: berries.length - food.length,
+    lowestHunger: 0,
+    starvesAt: null,
+  }
+  if (!route) return report
+
+  const { lowestHunger, starvesAt } = walkRoute(route, food, budget, cfg)
+  report.lowestHunger = lowestHunger
+  report.starvesAt = starvesAt
+  return report
+}
+
+/** Where on the route to add food after `validateRound` found the dog starving at `starvesAt`. */
+export function patchPoint(report: RoundReport, budget: HungerBudget, config?: Partial<ValidatorConfig>) {
+  const { route, starvesAt } = report
+  if (!route || starvesAt === null) return null
+  const { hungerMargin } = { ...DEFAULT_VALIDATOR, ...config }
+
+  // A quarter of a full stomach before running out, so the dog still has some left on arrival.
+  const range = ((budget.max / budget.drainPerMetre) * hungerMargin) / 4
+  return pointAlong(route, Math.max(0, starvesAt - range))
+}
+
+function walkRoute(route: Vector3[], food: Vector3[], budget: HungerBudget, cfg: ValidatorConfig) {
+  const drain = budget.drainPerMetre / cfg.hungerMargin
+  const length = routeLength(route)
+
+  // Food stops along the route, each a group of berries eaten in one detour.
+  const stops: { along: number; detour: number; count: number }[] = []
+  for (const berry of food) {
+    const hit = projectOnRoute(route, berry)
+    if (!hit || hit.distance > cfg.detourRadius) continue
+    const { along, distance } = hit
+    const stop = stops.find((s) => Math.abs(s.along - along) < cfg.clusterRadius)
+    if (stop) {
+      stop.count++
+      stop.detour = Math.max(stop.detour, distance * 2)
+    } else {
+      stops.push({ along, detour: distance * 2, count: 1 })
+    }
+  }
+  stops.sort((a, b) => a.along - b.along)
+
+  let hunger = budget.max
+  let lowest = hunger
+  let at = 0
+  for (const stop of [...stops, { along: length, detour: 0, count: 0 }]) {
+    hunger -= (stop.along - at) * drain
+    at = stop.along
+    if (hunger <= 0) {
+      return { lowestHunger: 0, starvesAt: at + hunger / drain }
+    }
+    lowest = Math.min(lowest, hunger)
+
+    // Not worth it if the detour uses more than the berries give back.
+    const gain = stop.count * budget.berryRestore - stop.detour * drain
+    if (gain > 0 && hunger - (stop.detour / 2) * drain > 0) {
+      hunger = Math.min(budget.max, hunger + gain)
+    }
+  }
+  return { lowestHunger: lowest / budget.max, starvesAt: null }
+}
+
+function routeLength(route: Vector3[]) {
+  let length = 0
+  for (let i = 1; i < route.length; i++) length += flatDistance(route[i - 1], route[i])
+  return length
+}
+
+function pointAlong(route: Vector3[], distance: number) {
+  let left = distance
+  for (let i = 0; i < route.length - 1; i++) {
+    const segment = flatDistance(route[i], route[i + 1])
+    if (left <= segment) return new Vector3().lerpVectors(route[i], route[i + 1], segment > 0 ? left / segment : 0)
+    left -= segment
+  }
+  return route[route.length - 1].clone()
+}
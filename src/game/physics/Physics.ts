@@ -8,7 +8,7 @@ export class Physics {
   }
 
   readonly RAPIER = RAPIER
-  readonly world: World
+  world: World
 
   readonly fixedTimeStep = 1 / 60
   private accumulator = 0
@@ -17,6 +17,24 @@ export class Physics {
     this.world = world
   }
 
+  /**
+   * Swaps in a new, empty world. Rapier's world keeps history (handle slots,
+   * the broad phase tree) that can tip a step one way or the other, so a run
+   * starts in a fresh one to step the same on every machine. Colliders and
+   * bodies of the old world must be removed first; none carry over.
+   */
+  reset() {
+    const gravity = this.world.gravity
+    this.world.free()
+    this.world = new RAPIER.World({ x: gravity.x, y: gravity.y, z: gravity.z })
+    this.accumulator = 0
+  }
+
+  /** Drops leftover frame time so a restarted run steps exactly like a fresh world. */
+  resetAccumulator() {
+    this.accumulator = 0
+  }
+
   step(dt: number) {
     const maxFrame = 0.25
     this.accumulator += Math.min(dt, maxFrame)
@@ -1,9 +1,9 @@
 import { AnimationMixer, Box3, CapsuleGeometry, Group, LoopOnce, LoopRepeat, Mesh, MeshStandardMaterial, Object3D, Quaternion, Vector3 } from 'three'
 
 import type { Physics } from '../physics/Physics'
-import type { Input } from '../input/Input'
+import type { InputSource } from '../input/Input'
 import { pickDogClips, type DogClipMap } from '../assets/loadDog'
-import { clamp } from '../utils/math'
+import { clamp, lerp } from '../utils/math'
 
 export type PlayerConfig = {
   spawn: Vector3
@@ -16,10 +16,31 @@ export type PlayerConfig = {
   slideSlopeRadians: number
   slideStrength: number
   starvingSpeedMultiplier: number
+  /** Speed while sniffing for the owner's trail. */
+  sniffSpeedMultiplier: number
   coyoteTime: number
   jumpBufferTime: number
+  /** Surface height of lakes and rivers. */
+  waterLevel: number
+  /** Fraction of the capsule under water at which the dog swims instead of walking. */
+  swimDepth: number
+  swimSpeedMultiplier: number
+  /** Upward force at full submersion relative to the dog's weight; above 1 it floats. */
+  buoyancy: number
+  /** Linear damping when fully under water. */
+  waterDamping: number
 }
 
+type ActionName = 'idle' | 'walk' | 'run' | 'jump' | 'gallopJump' | 'swim'
+
+const AIR_DAMPING = 0.4
+// Paddling up from the water is weaker than a jump from the ground.
+const SWIM_JUMP_MULTIPLIER = 0.6
+const SWIM_ANIMATION_SPEED = 0.7
+// After a knock-back the dog barely steers for this long, so the shove is not cancelled at once.
+const STAGGER_TIME = 0.5
+const STAGGER_CONTROL = 0.15
+
 export class Player {
   readonly group = new Group()
 
@@ -35,7 +56,11 @@ export class Player {
 
   private mixer: AnimationMixer | null = null
   private clips: DogClipMap = {}
-  private activeActionName: 'idle' | 'walk' | 'run' | 'jump' | 'gallopJump' | null = null
+  private activeActionName: ActionName | null = null
+
+  private swimming = false
+  private grip = 1
+  private staggerTimer = 0
 
   private jumpAnimTime = 0
   private jumpWasRunning = false
@@ -46,8 +71,13 @@ export class Player {
 
   private readonly cfg: PlayerConfig
   private starving = false
+  private sniffing = false
+  private disposed = false
 
   dispose() {
+    // A second call must not remove whatever took over the handles.
+    if (this.disposed) return
+    this.disposed = true
     const { world } = this.physics
     world.removeCollider(this.collider, true)
     world.removeRigidBody(this.body)
@@ -55,7 +85,7 @@ export class Player {
 
   constructor(
     private readonly physics: Physics,
-    private readonly input: Input,
+    private readonly input: InputSource,
     config?: Partial<PlayerConfig>,
   ) {
     const cfg: PlayerConfig = {
@@ -69,8 +99,14 @@ export class Player {
       slideSlopeRadians: (48 * Math.PI) / 180,
       slideStrength: 12,
       starvingSpeedMultiplier: 0.28,
+      sniffSpeedMultiplier: 0.35,
       coyoteTime: 0.12,
       jumpBufferTime: 0.12,
+      waterLevel: -Infinity,
+      swimDepth: 0.45,
+      swimSpeedMultiplier: 0.45,
+      buoyancy: 1.6,
+      waterDamping: 2.5,
       ...config,
     }
 
@@ -81,7 +117,7 @@ export class Player {
     const rbDesc = RAPIER.RigidBodyDesc.dynamic()
       .setTranslation(cfg.spawn.x, cfg.spawn.y, cfg.spawn.z)
       .lockRotations()
-      .setLinearDamping(0.4)
+      .setLinearDamping(AIR_DAMPING)
       .setCcdEnabled(true)
       .setSoftCcdPrediction(2.0)
 
@@ -110,19 +146,83 @@ export class Player {
     return new Vector3(t.x, t.y, t.z)
   }
 
+  get velocity() {
+    const v = this.body.linvel()
+    return new Vector3(v.x, v.y, v.z)
+  }
+
+  /**
+   * Moves the body and model at once, e.g. when restoring a saved run. Every
+   * bit of movement state starts over, so the dog moves on as a new one would.
+   */
+  teleport(position: Vector3, velocity: Vector3, rotation: Quaternion) {
+    this.body.setTranslation({ x: position.x, y: position.y, z: position.z }, true)
+    this.body.setLinvel({ x: velocity.x, y: velocity.y, z: velocity.z }, true)
+
+    this.grounded = false
+    this.groundNormal.set(0, 1, 0)
+    this.desiredVel.set(0, 0, 0)
+    this.coyoteTimer = 0
+    this.jumpBufferTimer = 0
+    this.swimming = false
+    this.sniffing = false
+    this.staggerTimer = 0
+    this.jumpAnimTime = 0
+    this.jumpWasRunning = false
+
+    this.group.position.copy(position)
+    this.group.quaternion.copy(rotation)
+  }
+
+  /**
+   * Shoves the dog with a Rapier impulse that changes its velocity by `velocity`
+   * (whatever its mass), and leaves it staggering for a moment.
+   */
+  knockBack(velocity: Vector3) {
+    const mass = this.body.mass()
+    this.body.applyImpulse({ x: velocity.x * mass, y: velocity.y * mass, z: velocity.z * mass }, true)
+    this.grounded = false
+    this.coyoteTimer = 0
+    this.staggerTimer = STAGGER_TIME
+  }
+
   getHorizontalSpeed() {
     const v = this.body.linvel()
     return Math.sqrt(v.x * v.x + v.z * v.z)
   }
 
+  get config(): Readonly<PlayerConfig> {
+    return this.cfg
+  }
+
   getConfiguredMaxSpeed() {
     return this.cfg.maxSpeed
   }
 
+  get isSwimming() {
+    return this.swimming
+  }
+
+  /** Nose to the ground; only on land and while the dog can move. */
+  get isSniffing() {
+    return this.sniffing
+  }
+
+  get isStarving() {
+    return this.starving
+  }
+
   setStarving(starving: boolean) {
     this.starving = starving
   }
 
+  /** Traction on the ground, 1 when dry; scales acceleration and collider friction. */
+  setGrip(grip: number) {
+    if (grip === this.grip) return
+    this.grip = grip
+    this.collider.setFriction(grip)
+  }
+
   get yaw() {
     const rot = this.group.quaternion
     const forward = new Vector3(0, 0, -1).applyQuaternion(rot)
@@ -187,6 +287,9 @@ export class Player {
 
     // Ground check.
     this.updateGroundInfo(cfg)
+    this.updateWater(cfg)
+
+    this.sniffing = state.sniffHeld && allowMove && !this.swimming
 
     // Jump buffer + coyote time for reliability on rough terrain.
     if (this.grounded) {
@@ -202,14 +305,17 @@ export class Player {
     }
 
     // Movement direction relative to camera yaw.
+    // Analog sticks keep their magnitude (slower when barely tilted); keyboard diagonals are capped at 1.
     const move = allowMove ? new Vector3(state.right, 0, -state.forward) : new Vector3(0, 0, 0)
-    if (move.lengthSq() > 1e-6) move.normalize()
+    if (move.lengthSq() > 1) move.normalize()
 
     const yaw = cameraYaw
     move.applyAxisAngle(new Vector3(0, 1, 0), yaw)
 
     let targetSpeed = state.runHeld ? cfg.maxSpeed * 0.55 : cfg.maxSpeed
     if (this.starving) targetSpeed *= cfg.starvingSpeedMultiplier
+    if (this.sniffing) targetSpeed *= cfg.sniffSpeedMultiplier
+    if (this.swimming) targetSpeed *= cfg.swimSpeedMultiplier
 
     const desiredVel = new Vector3(move.x * targetSpeed, 0, move.z * targetSpeed)
 
@@ -244,17 +350,22 @@ export class Player {
 
     // Smooth horizontal acceleration.
     const vel = new Vector3(current.x, current.y, current.z)
-    const accel = cfg.acceleration
+    // Wet ground: the dog speeds up and stops more slowly.
+    let accel = this.grounded ? cfg.acceleration * this.grip : cfg.acceleration
+    if (this.staggerTimer > 0) {
+      accel *= STAGGER_CONTROL
+      this.staggerTimer = Math.max(0, this.staggerTimer - dt)
+    }
 
     vel.x = approach(vel.x, desiredVel.x, accel * dt)
     vel.z = approach(vel.z, desiredVel.z, accel * dt)
 
     // Jump.
-    const canJump = this.coyoteTimer > 0
+    const canJump = this.coyoteTimer > 0 || this.swimming
     const wantsJump = this.jumpBufferTimer > 0
 
     if (canJump && wantsJump) {
-      vel.y = cfg.jumpSpeed
+      vel.y = this.swimming ? cfg.jumpSpeed * SWIM_JUMP_MULTIPLIER : cfg.jumpSpeed
       this.grounded = false
       this.coyoteTimer = 0
       this.jumpBufferTimer = 0
@@ -325,6 +436,29 @@ export class Player {
 
     this.grounded = hit.timeOfImpact <= cfg.halfHeight + cfg.radius + 0.05
     this.groundNormal.set(hit.normal.x, hit.normal.y, hit.normal.z).normalize()
+
+    // Heightfield faces are two-sided and report the side the ray struck; slopes need the top one.
+    if (this.groundNormal.y < 0) this.groundNormal.negate()
+  }
+
+  /**
+   * Buoyancy and drag in Rapier: an upward force for the submerged part of the
+   * capsule and extra linear damping, both recomputed before every step.
+   */
+  private updateWater(cfg: PlayerConfig) {
+    const pos = this.body.translation()
+    const height = (cfg.halfHeight + cfg.radius) * 2
+    const submerged = clamp((cfg.waterLevel - (pos.y - height / 2)) / height, 0, 1)
+
+    // A little hysteresis so bobbing at the surface does not flip the mode every frame.
+    this.swimming = submerged >= (this.swimming ? cfg.swimDepth - 0.1 : cfg.swimDepth)
+
+    const weight = this.body.mass() * -this.physics.world.gravity.y
+    this.body.resetForces(true)
+    if (submerged > 0) {
+      this.body.addForce({ x: 0, y: weight * cfg.buoyancy * submerged, z: 0 }, true)
+    }
+    this.body.setLinearDamping(lerp(AIR_DAMPING, cfg.waterDamping, submerged))
   }
 
   startCelebration(duration = 3.2) {
@@ -344,8 +478,10 @@ export class Player {
   private updateAnimation(dt: number, speedXZ: number, runActive: boolean) {
     if (!this.mixer || !this.clips.idle) return
 
-    let next: 'idle' | 'walk' | 'run' | 'jump' | 'gallopJump'
-    if (this.jumpAnimTime > 0 && !this.grounded) {
+    let next: ActionName
+    if (this.swimming) {
+      next = 'swim'
+    } else if (this.jumpAnimTime > 0 && !this.grounded) {
       if (this.jumpWasRunning && this.clips.gallopJump) {
         next = 'gallopJump'
       } else {
@@ -379,12 +515,14 @@ export class Player {
           nextAction.setLoop(LoopRepeat, Infinity)
           nextAction.reset()
         }
+        nextAction.timeScale = next === 'swim' ? SWIM_ANIMATION_SPEED : 1
 
         nextAction.play()
 
         if (this.activeActionName) {
           const prevAction = action(this.activeActionName)
-          if (prevAction) prevAction.crossFadeTo(nextAction, 0.25, false)
+          // Without a swim clip `swim` reuses the walk action, which must not fade into itself.
+          if (prevAction && prevAction !== nextAction) prevAction.crossFadeTo(nextAction, 0.25, false)
         }
 
         this.activeActionName = next
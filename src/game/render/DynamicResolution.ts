@@ -0,0 +1,101 @@
+export type DynamicResolutionConfig = {
+  /** Frame time to hold; set it from `measureDisplayRefresh` to match the screen. */
+  targetFrameMs: number
+  minScale: number
+  maxScale: number
+  /** Scale change per adjustment when frames are slow; it grows back at half this. */
+  step: number
+  /** Seconds of frames averaged before each decision. */
+  interval: number
+  /** Intervals to wait after a drop before trying to grow again, so it does not flicker. */
+  cooldown: number
+}
+
+/**
+ * Render scale from frame times: drops while the average frame misses the
+ * target and creeps back up while it holds. `requestAnimationFrame` never runs
+ * faster than the display, so holding the target is the signal to grow.
+ */
+export class DynamicResolution {
+  scale: number
+
+  private readonly cfg: DynamicResolutionConfig
+  private elapsed = 0
+  private frames = 0
+  private cooldownLeft = 0
+
+  constructor(config?: Partial<DynamicResolutionConfig>) {
+    this.cfg = {
+      targetFrameMs: 1000 / 60,
+      minScale: 0.5,
+      maxScale: 1,
+      step: 0.1,
+      interval: 1,
+      cooldown: 3,
+      ...config,
+    }
+    this.scale = this.cfg.maxScale
+  }
+
+  setTargetFrameMs(ms: number) {
+    this.cfg.targetFrameMs = ms
+  }
+
+  /** Feeds one frame's duration in seconds; true when `scale` changed. */
+  update(dt: number) {
+    const { cfg } = this
+    this.elapsed += dt
+    this.frames++
+    if (this.elapsed < cfg.interval) return false
+
+    const frameMs = (this.elapsed / this.frames) * 1000
+    this.elapsed = 0
+    this.frames = 0
+
+    const budgetMs = cfg.targetFrameMs
+    const previous = this.scale
+
+    if (frameMs > budgetMs * 1.15) {
+      this.scale = Math.max(cfg.minScale, this.scale - cfg.step)
+      this.cooldownLeft = cfg.cooldown
+    } else if (this.cooldownLeft > 0) {
+      this.cooldownLeft--
+    } else if (frameMs < budgetMs * 1.05) {
+      this.scale = Math.min(cfg.maxScale, this.scale + cfg.step / 2)
+    }
+
+    return this.scale !== previous
+  }
+
+  reset() {
+    this.scale = this.cfg.maxScale
+    this.elapsed = 0
+    this.frames = 0
+    this.cooldownLeft = 0
+  }
+}
+
+/**
+ * The display's refresh interval in ms: the median gap between `frames` empty
+ * `requestAnimationFrame` callbacks. Run it before the game loop starts, so the
+ * load being measured against does not slow the probe down. Null when no frames
+ * come, e.g. in a hidden tab.
+ */
+export function measureDisplayRefresh(frames = 30, timeoutMs = 2000) {
+  return new Promise<number | null>((resolve) => {
+    const stamps: number[] = []
+    const timer = window.setTimeout(() => resolve(null), timeoutMs)
+
+    const probe = (time: number) => {
+      stamps.push(time)
+      if (stamps.length <= frames) {
+        requestAnimationFrame(probe)
+        return
+      }
+      window.clearTimeout(timer)
+      const gaps = stamps.slice(1).map((t, i) => t - stamps[i]).sort((a, b) => a - b)
+      resolve(gaps[Math.floor(gaps.length / 2)])
+    }
+    requestAnimationFrame(probe)
+  })
+}
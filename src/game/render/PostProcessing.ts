@@ -0,0 +1,289 @@
+import {
+  ClampToEdgeWrapping,
+  Color,
+  Data3DTexture,
+  HalfFloatType,
+  LinearFilter,
+  PerspectiveCamera,
+  Scene,
+  Vector2,
+  WebGLRenderer,
+  WebGLRenderTarget,
+} from 'three'
+import { EffectComposer } from 'three/examples/jsm/postprocessing/EffectComposer.js'
+import { RenderPass } from 'three/examples/jsm/postprocessing/RenderPass.js'
+import { GTAOPass } from 'three/examples/jsm/postprocessing/GTAOPass.js'
+import { UnrealBloomPass } from 'three/examples/jsm/postprocessing/UnrealBloomPass.js'
+import { BokehPass } from 'three/examples/jsm/postprocessing/BokehPass.js'
+import { OutputPass } from 'three/examples/jsm/postprocessing/OutputPass.js'
+import { ShaderPass } from 'three/examples/jsm/postprocessing/ShaderPass.js'
+
+import type { PostEffects } from '../settings/GraphicsSettings'
+import { clamp, lerp } from '../utils/math'
+
+/** What the effects react to, gathered by `Game` each frame. */
+export type PostFrame = {
+  /** 0 in daylight, 1 at night. */
+  night: number
+  /** 1 while the sun is near the horizon. */
+  twilight: number
+  celebrating: boolean
+  /** Camera to dog distance, kept sharp by the depth of field. */
+  focusDistance: number
+  starving: boolean
+}
+
+const LUT_SIZE = 16
+
+// Bloom catches the glowing berries and windows; the celebration lets more through.
+const BLOOM_THRESHOLD = 0.75
+const BLOOM_WIN_THRESHOLD = 0.5
+
+// Effects ease in and out over about this many seconds.
+const CELEBRATE_FADE = 0.8
+const STARVE_FADE = 1.5
+
+const GradingShader = {
+  name: 'GradingShader',
+  uniforms: {
+    tDiffuse: { value: null },
+    lutDay: { value: null },
+    lutTwilight: { value: null },
+    lutNight: { value: null },
+    night: { value: 0 },
+    twilight: { value: 0 },
+    lutSize: { value: LUT_SIZE },
+  },
+  vertexShader: /* glsl */ `
+varying vec2 vUv;
+void main() {
+  vUv = uv;
+  gl_Position = projectionMatrix * modelViewMatrix * vec4(position, 1.0);
+}`,
+  fragmentShader: /* glsl */ `
+uniform sampler2D tDiffuse;
+uniform sampler3D lutDay;
+uniform sampler3D lutTwilight;
+uniform sampler3D lutNight;
+uniform float night;
+uniform float twilight;
+uniform float lutSize;
+varying vec2 vUv;
+void main() {
+  vec4 color = texture2D(tDiffuse, vUv);
+  // Sample texel centres so the ends of the range map onto the ends of the LUT.
+  vec3 uvw = (clamp(color.rgb, 0.0, 1.0) * (lutSize - 1.0) + 0.5) / lutSize;
+  vec3 graded = mix(texture(lutDay, uvw).rgb, texture(lutNight, uvw).rgb, night);
+  graded = mix(graded, texture(lutTwilight, uvw).rgb, twilight);
+  gl_FragColor = vec4(graded, color.a);
+}`,
+}
+
+const StarvingVignetteShader = {
+  name: 'StarvingVignetteShader',
+  uniforms: {
+    tDiffuse: { value: null },
+    amount: { value: 0 },
+    tint: { value: new Color(0x3a0606) },
+  },
+  vertexShader: GradingShader.vertexShader,
+  fragmentShader: /* glsl */ `
+uniform sampler2D tDiffuse;
+uniform float amount;
+uniform vec3 tint;
+varying vec2 vUv;
+void main() {
+  vec4 color = texture2D(tDiffuse, vUv);
+  float edge = smoothstep(0.3, 0.85, length(vUv - 0.5) * 1.3) * amount;
+  float grey = dot(color.rgb, vec3(0.299, 0.587, 0.114));
+  // Hunger drains the colour first, then closes in from the edges.
+  color.rgb = mix(color.rgb, vec3(grey), amount * 0.45);
+  color.rgb = mix(color.rgb, tint, edge);
+  gl_FragColor = color;
+}`,
+}
+
+/**
+ * The post-processing chain between the scene and the screen: ambient
+ * occlusion, bloom, depth of field while celebrating, tone mapping, colour
+ * grading by time of day and the starvation vignette. Every effect can be
+ * switched off on its own; tone mapping always runs.
+ */
+export class PostProcessing {
+  private readonly composer: EffectComposer
+  private readonly ao: GTAOPass
+  private readonly bloom: UnrealBloomPass
+  private readonly dof: BokehPass
+  private readonly grading: ShaderPass
+  private readonly vignette: ShaderPass
+  private readonly luts: Data3DTexture[]
+
+  private effects: PostEffects
+  private celebrate = 0
+  private starve = 0
+  private pulseTime = 0
+
+  constructor(renderer: WebGLRenderer, scene: Scene, camera: PerspectiveCamera, effects: PostEffects, antialias: boolean) {
+    this.effects = { ...effects }
+
+    const size = renderer.getDrawingBufferSize(new Vector2())
+    const target = new WebGLRenderTarget(size.x, size.y, { type: HalfFloatType, samples: antialias ? 4 : 0 })
+    this.composer = new EffectComposer(renderer, target)
+
+    this.ao = new GTAOPass(scene, camera, size.x, size.y)
+    this.ao.updateGtaoMaterial({ radius: 1.2, thickness: 1 })
+
+    this.bloom = new UnrealBloomPass(size.clone(), 0.3, 0.5, BLOOM_THRESHOLD)
+    this.dof = new BokehPass(scene, camera, { focus: 6, aperture: 0, maxblur: 0.008 })
+
+    this.luts = [gradeLut(gradeDay), gradeLut(gradeTwilight), gradeLut(gradeNight)]
+    this.grading = new ShaderPass(GradingShader)
+    this.grading.uniforms.lutDay.value = this.luts[0]
+    this.grading.uniforms.lutTwilight.value = this.luts[1]
+    this.grading.uniforms.lutNight.value = this.luts[2]
+
+    this.vignette = new ShaderPass(StarvingVignetteShader)
+
+    // Grading and the vignette work on display colours, so they follow the tone mapping.
+    this.composer.addPass(new RenderPass(scene, camera))
+    this.composer.addPass(this.ao)
+    this.composer.addPass(this.bloom)
+    this.composer.addPass(this.dof)
+    this.composer.addPass(new OutputPass())
+    this.composer.addPass(this.grading)
+    this.composer.addPass(this.vignette)
+
+    this.applyEffects()
+  }
+
+  setEffects(effects: PostEffects) {
+    this.effects = { ...effects }
+    this.applyEffects()
+  }
+
+  setPixelRatio(ratio: number) {
+    this.composer.setPixelRatio(ratio)
+  }
+
+  setSize(width: number, height: number) {
+    this.composer.setSize(width, height)
+  }
+
+  render(dt: number, frame: PostFrame) {
+    const { effects } = this
+
+    this.celebrate = approach(this.celebrate, frame.celebrating ? 1 : 0, dt / CELEBRATE_FADE)
+    this.starve = approach(this.starve, frame.starving ? 1 : 0, dt / STARVE_FADE)
+    this.pulseTime += dt
+
+    this.bloom.strength = lerp(0.2 + 0.3 * frame.night, 1.1, this.celebrate)
+    this.bloom.threshold = lerp(BLOOM_THRESHOLD, BLOOM_WIN_THRESHOLD, this.celebrate)
+
+    // Only the dog stays sharp while it celebrates with its owner.
+    const dofUniforms = this.dof.uniforms as Record<string, { value: number }>
+    dofUniforms.focus.value = frame.focusDistance
+    dofUniforms.aperture.value = 0.0004 * this.celebrate
+    this.dof.enabled = effects.depthOfField && this.celebrate > 0
+
+    this.grading.uniforms.night.value = frame.night
+    this.grading.uniforms.twilight.value = frame.twilight
+
+    // A slow, heartbeat-like pulse while the dog is starving.
+    const pulse = 0.85 + 0.15 * Math.sin(this.pulseTime * 2.4)
+    this.vignette.uniforms.amount.value = this.starve * pulse
+    this.vignette.enabled = effects.vignette && this.starve > 0
+
+    this.composer.render(dt)
+  }
+
+  dispose() {
+    this.composer.dispose()
+    this.ao.dispose()
+    this.bloom.dispose()
+    this.dof.dispose()
+    this.grading.dispose()
+    this.vignette.dispose()
+    for (const lut of this.luts) lut.dispose()
+  }
+
+  private applyEffects() {
+    const { effects } = this
+    this.ao.enabled = effects.ambientOcclusion
+    this.bloom.enabled = effects.bloom
+    this.grading.enabled = effects.colorGrading
+    // Depth of field and the vignette also wait for their moment in `render`.
+    this.dof.enabled = effects.depthOfField && this.celebrate > 0
+    this.vignette.enabled = effects.vignette && this.starve > 0
+  }
+}
+
+/** A `LUT_SIZE`³ colour cube built by running `grade` over every entry. */
+function gradeLut(grade: (color: Color) => void) {
+  const data = new Uint8Array(LUT_SIZE ** 3 * 4)
+  const color = new Color()
+
+  for (let b = 0; b < LUT_SIZE; b++) {
+    for (let g = 0; g < LUT_SIZE; g++) {
+      for (let r = 0; r < LUT_SIZE; r++) {
+        const max = LUT_SIZE - 1
+        color.setRGB(r / max, g / max, b / max)
+        grade(color)
+        const i = (r + g * LUT_SIZE + b * LUT_SIZE * LUT_SIZE) * 4
+        data[i] = Math.round(clamp(color.r, 0, 1) * 255)
+        data[i + 1] = Math.round(clamp(color.g, 0, 1) * 255)
+        data[i + 2] = Math.round(clamp(color.b, 0, 1) * 255)
+        data[i + 3] = 255
+      }
+    }
+  }
+
+  const texture = new Data3DTexture(data, LUT_SIZE, LUT_SIZE, LUT_SIZE)
+  texture.minFilter = LinearFilter
+  texture.magFilter = LinearFilter
+  texture.wrapS = ClampToEdgeWrapping
+  texture.wrapT = ClampToEdgeWrapping
+  texture.wrapR = ClampToEdgeWrapping
+  texture.unpackAlignment = 1
+  texture.needsUpdate = true
+  return texture
+}
+
+// Grades work on display (sRGB) values in 0..1.
+
+function gradeDay(color: Color) {
+  saturate(color, 1.08)
+  contrast(color, 1.05)
+}
+
+function gradeTwilight(color: Color) {
+  color.r *= 1.08
+  color.b *= 0.86
+  // Warm shadows, like light bouncing off a low sun.
+  color.r += 0.03 * (1 - color.r)
+  color.g += 0.012 * (1 - color.g)
+}
+
+function gradeNight(color: Color) {
+  saturate(color, 0.6)
+  color.r *= 0.86
+  color.g *= 0.94
+  color.b = color.b * 1.08 + 0.02
+  contrast(color, 1.08)
+}
+
+function saturate(color: Color, amount: number) {
+  const grey = color.r * 0.299 + color.g * 0.587 + color.b * 0.114
+  color.r = grey + (color.r - grey) * amount
+  color.g = grey + (color.g - grey) * amount
+  color.b = grey + (color.b - grey) * amount
+}
+
+function contrast(color: Color, amount: number) {
+  color.r = 0.5 + (color.r - 0.5) * amount
+  color.g = 0.5 + (color.g - 0.5) * amount
+  color.b = 0.5 + (color.b - 0.5) * amount
+}
+
+function approach(value: number, target: number, step: number) {
+  return value + clamp(target - value, -step, step)
+}
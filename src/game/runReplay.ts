@@ -0,0 +1,59 @@
+import { Simulation } from './Simulation'
+import { ThirdPersonCamera } from './camera/ThirdPersonCamera'
+import { ReplayPlayback, type ReplayFile } from './input/Replay'
+import { DEFAULT_LEVEL, DEFAULT_LEVEL_ID, type LevelFile } from './levels/LevelFile'
+
+/**
+ * Plays a replay to the end without rendering and returns the final simulation,
+ * e.g. for regression tests in Node. Frame order mirrors `Game.tick`. Replays of
+ * other maps need their parsed level file (`parseLevelFile`).
+ */
+export async function runReplay(replay: ReplayFile, levelFile: LevelFile = DEFAULT_LEVEL) {
+  const level = replay.level ?? DEFAULT_LEVEL_ID
+  if (level !== levelFile.id) {
+    throw new Error(`Replay is for level "${level}", not "${levelFile.id}"`)
+  }
+
+  const playback = new ReplayPlayback(replay)
+  const sim = await Simulation.create({ input: playback, seed: replay.seed, headless: true, levelFile })
+  const camera = new ThirdPersonCamera(sim.physics, playback)
+
+  if (replay.start) {
+    startReplay(sim, replay)
+    camera.yaw = replay.start.camera.yaw
+    camera.pitch = replay.start.camera.pitch
+  }
+
+  for (let frame = playback.beginFrame(); frame; frame = playback.beginFrame()) {
+    if (frame.roundAction === 'reset') {
+      sim.resetRound()
+      camera.update(0, sim.player.group.position)
+    } else if (frame.roundAction === 'restart') {
+      sim.restartRound()
+      camera.update(0, sim.player.group.position)
+    } else if (frame.roundAction === 'continue') {
+      sim.continueRound()
+    }
+
+    sim.step(frame.dt, camera.yaw)
+    camera.update(frame.dt, sim.player.group.position)
+  }
+
+  return sim
+}
+
+/**
+ * Rebuilds the state a recording started from the way the session did: a New
+ * game runs `newRun` again, a Continue restores the snapshot. Both start a
+ * fresh physics world, so playback steps exactly as the session did.
+ */
+export function startReplay(sim: Simulation, replay: ReplayFile) {
+  const { start } = replay
+  if (!start) return
+  if (replay.newRun) {
+    sim.setGuardLevel(start.guards ?? 'off')
+    sim.newRun()
+  } else {
+    sim.restore(start)
+  }
+}
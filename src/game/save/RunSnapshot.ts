@@ -0,0 +1,129 @@
+import { GUARD_LEVELS, type GuardLevel } from '../settings/DifficultySettings'
+
+type Vec3 = [number, number, number]
+
+/**
+ * Everything needed to rebuild a run: the world is regenerated from `seed` and
+ * `round`, then the dynamic state below is applied on top. Animals and geese
+ * keep only the caught flags; they respawn where the round placed them.
+ */
+export type RunSnapshot = {
+  version: 1
+  savedAt: number
+  seed: number
+  /** Level file id; saves from before level files are on the default map. */
+  level?: string
+  round: number
+  hunger: number
+  /** 0–1 through the day; saves from before the day/night cycle start at the level's start time. */
+  timeOfDay?: number
+  /** Seconds on the weather clock; older saves start with the first, clear spell. */
+  weatherTime?: number
+  player: {
+    position: Vec3
+    velocity: Vec3
+    /** Model orientation quaternion (x, y, z, w). */
+    rotation: [number, number, number, number]
+  }
+  /** Collected flags in berry placement order. */
+  berries: boolean[]
+  /** Caught flags in animal placement order; older saves have every animal still about. */
+  wildlife?: boolean[]
+  /** Geese guarding berries in this run; older saves have none. */
+  guards?: GuardLevel
+  /** Yard position (x, z); the owner stands at a fixed offset from it. */
+  owner: [number, number]
+  camera: {
+    yaw: number
+    pitch: number
+  }
+}
+
+const STORAGE_KEY = 'doggo-3d.run'
+
+export function loadRunSnapshot(): RunSnapshot | null {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY)
+    if (!raw) return null
+    return parseRunSnapshot(JSON.parse(raw))
+  } catch (e) {
+    console.warn('Saved run ignored', e)
+    return null
+  }
+}
+
+export function saveRunSnapshot(snapshot: RunSnapshot) {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(snapshot))
+  } catch (e) {
+    console.warn('Unable to save run', e)
+  }
+}
+
+export function clearRunSnapshot() {
+  try {
+    localStorage.removeItem(STORAGE_KEY)
+  } catch {
+    // Storage unavailable: nothing to clear.
+  }
+}
+
+/** Validates parsed JSON as a snapshot; throws with a readable message otherwise. */
+export function parseRunSnapshot(data: unknown): RunSnapshot {
+  if (!data || typeof data !== 'object') {
+    throw new Error('Saved run must be an object')
+  }
+
+  const s = data as Partial<RunSnapshot>
+
+  if (s.version !== 1) throw new Error(`Unsupported saved run version: ${String(s.version)}`)
+  if (!isInt(s.seed) || s.seed < 0) throw new Error('Saved run "seed" must be a non-negative integer')
+  if (s.level !== undefined && typeof s.level !== 'string') throw new Error('Saved run "level" must be a string')
+  if (!isInt(s.round) || s.round < 1) throw new Error('Saved run "round" must be a positive integer')
+  if (!isNum(s.hunger)) throw new Error('Saved run "hunger" must be a number')
+  if (s.timeOfDay !== undefined && (!isNum(s.timeOfDay) || s.timeOfDay < 0 || s.timeOfDay >= 1)) {
+    throw new Error('Saved run "timeOfDay" must be a number from 0 to below 1')
+  }
+  if (s.weatherTime !== undefined && (!isNum(s.weatherTime) || s.weatherTime < 0)) {
+    throw new Error('Saved run "weatherTime" must be a non-negative number')
+  }
+  if (!isNum(s.savedAt)) throw new Error('Saved run "savedAt" must be a number')
+
+  const player = s.player
+  if (
+    !player ||
+    !isNumTuple(player.position, 3) ||
+    !isNumTuple(player.velocity, 3) ||
+    !isNumTuple(player.rotation, 4)
+  ) {
+    throw new Error('Saved run "player" must have position, velocity and rotation')
+  }
+
+  if (!Array.isArray(s.berries) || !s.berries.every((b) => typeof b === 'boolean')) {
+    throw new Error('Saved run "berries" must be a list of booleans')
+  }
+  if (s.wildlife !== undefined && (!Array.isArray(s.wildlife) || !s.wildlife.every((b) => typeof b === 'boolean'))) {
+    throw new Error('Saved run "wildlife" must be a list of booleans')
+  }
+  if (s.guards !== undefined && !GUARD_LEVELS.includes(s.guards)) {
+    throw new Error(`Saved run "guards" must be one of ${GUARD_LEVELS.join(', ')}`)
+  }
+  if (!isNumTuple(s.owner, 2)) throw new Error('Saved run "owner" must be [x, z]')
+  if (!s.camera || !isNum(s.camera.yaw) || !isNum(s.camera.pitch)) {
+    throw new Error('Saved run "camera" must have yaw and pitch')
+  }
+
+  return s as RunSnapshot
+}
+
+function isNum(value: unknown): value is number {
+  return typeof value === 'number' && Number.isFinite(value)
+}
+
+function isInt(value: unknown): value is number {
+  return isNum(value) && Number.isInteger(value)
+}
+
+function isNumTuple(value: unknown, length: number) {
+  return Array.isArray(value) && value.length === length && value.every(isNum)
+}
@@ -0,0 +1,88 @@
+import type { InputSource } from './input/Input'
+import { DEFAULT_LEVEL, type LevelFile } from './levels/LevelFile'
+import { Simulation } from './Simulation'
+
+export type RoundScore = {
+  round: number
+  /** The owner could be reached where the seed first put the yard. */
+  ownerReachable: boolean
+  ownerRetries: number
+  berryPatches: number
+  /** Walked route to the owner over the straight line; 1 is a straight walk. */
+  detour: number
+  /** Lowest hunger on the way to the owner after any fixes, 0–1. */
+  lowestHunger: number
+  berries: number
+  unreachableBerries: number
+}
+
+export type SeedScore = {
+  seed: number
+  /**
+   * 0 when any round needed fixing or cannot be won; otherwise the worst
+   * round's lowest hunger on the way times its share of reachable berries.
+   */
+  score: number
+  rounds: RoundScore[]
+}
+
+export type SeedScoreOptions = {
+  /** First seed; `count` seeds from it are scored. */
+  from: number
+  count: number
+  /** Rounds checked per seed, following the level's progression. */
+  rounds: number
+  levelFile: LevelFile
+  onSeed?: (score: SeedScore, index: number) => void
+}
+
+const idle: InputSource = {
+  getState: () => ({ forward: 0, right: 0, runHeld: false, jumpPressed: false, jumpHeld: false, sniffHeld: false }),
+}
+
+/**
+ * Runs the world validator over many seeds without rendering, e.g. in Node, to
+ * find seeds that generate well or to see how often rounds need fixing. Each
+ * seed builds its own headless simulation: one to two seconds per seed on one core.
+ */
+export async function scoreWorldSeeds(options?: Partial<SeedScoreOptions>) {
+  const opts: SeedScoreOptions = { from: 1, count: 1000, rounds: 1, levelFile: DEFAULT_LEVEL, ...options }
+  const results: SeedScore[] = []
+
+  for (let i = 0; i < opts.count; i++) {
+    const seed = opts.from + i
+    const sim = await Simulation.create({ input: idle, seed, headless: true, levelFile: opts.levelFile })
+    const rounds: RoundScore[] = []
+
+    for (let round = 1; round <= opts.rounds; round++) {
+      if (round > 1) sim.resetRound()
+      const { report, ownerRetries, berryPatches } = sim.validation
+      const owner = sim.ownerGoal.ownerPosition
+      rounds.push({
+        round,
+        ownerReachable: ownerRetries === 0 && report.ownerReachable,
+        ownerRetries,
+        berryPatches,
+        detour: report.routeLength / Math.max(1, Math.hypot(owner.x, owner.z)),
+        lowestHunger: report.lowestHunger,
+        berries: report.berries,
+        unreachableBerries: report.unreachableBerries,
+      })
+    }
+
+    const score = Math.min(
+      ...rounds.map((r) =>
+        r.ownerReachable && r.berryPatches === 0
+          ? r.lowestHunger * (1 - r.unreachableBerries / Math.max(1, r.berries))
+          : 0,
+      ),
+    )
+    const result = { seed, score, rounds }
+    results.push(result)
+    opts.onSeed?.(result, i)
+
+    sim.physics.world.free()
+  }
+
+  return results
+}
@@ -0,0 +1,97 @@
+/** How many geese guard berry clusters and how hard they go after the dog. */
+export type GuardLevel = 'off' | 'calm' | 'normal' | 'fierce'
+
+export const GUARD_LEVELS: GuardLevel[] = ['off', 'calm', 'normal', 'fierce']
+
+export type GuardPreset = {
+  /** Berry clusters with geese; the ones near spawn are left alone. */
+  flocks: number
+  perFlock: number
+  /** A goose goes for a dog it can see within this distance. */
+  sightRadius: number
+  /** Chase speed in m/s; the dog runs at 12.75. */
+  chaseSpeed: number
+  /** A goose gives up once the chase takes it this far from its berries. */
+  leashRadius: number
+  /** Velocity in m/s the dog is shoved away with on a hit. */
+  knockback: number
+  hungerCost: number
+  /** Seconds a goose keeps off after a hit. */
+  cooldown: number
+}
+
+export const GUARD_PRESETS: Record<GuardLevel, GuardPreset> = {
+  off: { flocks: 0, perFlock: 0, sightRadius: 0, chaseSpeed: 0, leashRadius: 0, knockback: 0, hungerCost: 0, cooldown: 0 },
+  calm: { flocks: 2, perFlock: 1, sightRadius: 9, chaseSpeed: 6, leashRadius: 22, knockback: 5, hungerCost: 3, cooldown: 4 },
+  normal: { flocks: 4, perFlock: 2, sightRadius: 13, chaseSpeed: 8, leashRadius: 30, knockback: 7, hungerCost: 5, cooldown: 3 },
+  fierce: { flocks: 7, perFlock: 3, sightRadius: 18, chaseSpeed: 10, leashRadius: 40, knockback: 9, hungerCost: 8, cooldown: 2 },
+}
+
+export type DifficultySettings = {
+  /** The HUD compass pointing at the owner (and at berries when hungry); without it the dog has to sniff. */
+  compass: boolean
+  /** Dots along a walkable route to the owner. */
+  hintPath: boolean
+  /** Geese guarding berries; takes effect from the next new game. */
+  guards: GuardLevel
+}
+
+export const DEFAULT_DIFFICULTY: DifficultySettings = {
+  compass: true,
+  hintPath: false,
+  guards: 'normal',
+}
+
+const STORAGE_KEY = 'doggo-3d.difficulty'
+
+/** Saved difficulty settings, or the defaults when nothing (valid) is stored. */
+export function loadDifficultySettings(): DifficultySettings {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY)
+    if (!raw) return { ...DEFAULT_DIFFICULTY }
+    return parseDifficultySettings(JSON.parse(raw))
+  } catch (e) {
+    console.warn('Stored difficulty settings ignored', e)
+    return { ...DEFAULT_DIFFICULTY }
+  }
+}
+
+export function saveDifficultySettings(settings: DifficultySettings) {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(settings))
+  } catch (e) {
+    console.warn('Unable to save difficulty settings', e)
+  }
+}
+
+function parseDifficultySettings(data: unknown): DifficultySettings {
+  if (!data || typeof data !== 'object') {
+    throw new Error('Difficulty settings must be an object')
+  }
+
+  const record = data as Record<string, unknown>
+  const result = { ...DEFAULT_DIFFICULTY }
+
+  if (record.compass !== undefined) {
+    if (typeof record.compass !== 'boolean') {
+      throw new Error('Difficulty "compass" must be true or false')
+    }
+    result.compass = record.compass
+  }
+
+  if (record.hintPath !== undefined) {
+    if (typeof record.hintPath !== 'boolean') {
+      throw new Error('Difficulty "hintPath" must be true or false')
+    }
+    result.hintPath = record.hintPath
+  }
+
+  if (record.guards !== undefined) {
+    if (!GUARD_LEVELS.includes(record.guards as GuardLevel)) {
+      throw new Error(`Unknown guard level: ${String(record.guards)}`)
+    }
+    result.guards = record.guards as GuardLevel
+  }
+
+  return result
+}
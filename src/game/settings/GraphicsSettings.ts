@@ -0,0 +1,122 @@
+import type { ShadowQuality } from '../world/SunShadows'
+
+export type GraphicsQuality = 'low' | 'medium' | 'high' | 'ultra'
+
+export const GRAPHICS_QUALITIES: GraphicsQuality[] = ['low', 'medium', 'high', 'ultra']
+
+export type GraphicsPreset = {
+  /** Upper limit for the renderer pixel ratio; the screen's own ratio caps it too. */
+  pixelRatio: number
+  antialias: boolean
+  shadows: ShadowQuality
+  /** Share of trees and rocks drawn past `decorDisplay.fullRadius`; colliders are never thinned. */
+  decorDensity: number
+  /** Share of the grass and flowers scattered around the dog. */
+  grassDensity: number
+  /** Terrain and fog end at this distance, or at the level's fog if that is closer. */
+  drawDistance: number
+}
+
+export const GRAPHICS_PRESETS: Record<GraphicsQuality, GraphicsPreset> = {
+  low: { pixelRatio: 0.75, antialias: false, shadows: 'low', decorDensity: 0.35, grassDensity: 0.3, drawDistance: 400 },
+  medium: { pixelRatio: 1, antialias: false, shadows: 'medium', decorDensity: 0.6, grassDensity: 0.6, drawDistance: 650 },
+  high: { pixelRatio: 1.5, antialias: true, shadows: 'high', decorDensity: 1, grassDensity: 1, drawDistance: 1100 },
+  ultra: { pixelRatio: 2, antialias: true, shadows: 'ultra', decorDensity: 1, grassDensity: 1.4, drawDistance: 1600 },
+}
+
+/** Post-processing effects, each switched on its own. */
+export type PostEffects = {
+  ambientOcclusion: boolean
+  /** Glow around berries and lit windows, stronger when the owner is found. */
+  bloom: boolean
+  /** Blurs all but the dog while it celebrates. */
+  depthOfField: boolean
+  /** Warm at dusk and dawn, cold and blue at night. */
+  colorGrading: boolean
+  /** Drained colours and dark edges while starving. */
+  vignette: boolean
+}
+
+export const POST_EFFECTS = ['ambientOcclusion', 'bloom', 'depthOfField', 'colorGrading', 'vignette'] as const
+
+export type GraphicsSettings = {
+  quality: GraphicsQuality
+  /** Lower the render scale while frames are slow, raise it back when they are not. */
+  dynamicResolution: boolean
+  effects: PostEffects
+}
+
+export const DEFAULT_GRAPHICS: GraphicsSettings = {
+  quality: 'high',
+  dynamicResolution: false,
+  effects: {
+    ambientOcclusion: false,
+    bloom: true,
+    depthOfField: true,
+    colorGrading: true,
+    vignette: true,
+  },
+}
+
+const STORAGE_KEY = 'doggo-3d.graphics'
+
+/** Saved graphics settings, or the defaults when nothing (valid) is stored. */
+export function loadGraphicsSettings(): GraphicsSettings {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY)
+    if (!raw) return cloneGraphicsSettings(DEFAULT_GRAPHICS)
+    return parseGraphicsSettings(JSON.parse(raw))
+  } catch (e) {
+    console.warn('Stored graphics settings ignored', e)
+    return cloneGraphicsSettings(DEFAULT_GRAPHICS)
+  }
+}
+
+export function saveGraphicsSettings(settings: GraphicsSettings) {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(settings))
+  } catch (e) {
+    console.warn('Unable to save graphics settings', e)
+  }
+}
+
+export function cloneGraphicsSettings(settings: GraphicsSettings): GraphicsSettings {
+  return { ...settings, effects: { ...settings.effects } }
+}
+
+function parseGraphicsSettings(data: unknown): GraphicsSettings {
+  if (!data || typeof data !== 'object') {
+    throw new Error('Graphics settings must be an object')
+  }
+
+  const record = data as Record<string, unknown>
+  const result = cloneGraphicsSettings(DEFAULT_GRAPHICS)
+
+  if (record.quality !== undefined) {
+    if (!GRAPHICS_QUALITIES.includes(record.quality as GraphicsQuality)) {
+      throw new Error(`Unknown graphics quality: ${String(record.quality)}`)
+    }
+    result.quality = record.quality as GraphicsQuality
+  }
+  if (record.dynamicResolution !== undefined) {
+    if (typeof record.dynamicResolution !== 'boolean') {
+      throw new Error('Graphics "dynamicResolution" must be true or false')
+    }
+    result.dynamicResolution = record.dynamicResolution
+  }
+  if (record.effects !== undefined) {
+    if (!record.effects || typeof record.effects !== 'object') {
+      throw new Error('Graphics "effects" must be an object')
+    }
+    const effects = record.effects as Record<string, unknown>
+    for (const name of POST_EFFECTS) {
+      if (effects[name] === undefined) continue
+      if (typeof effects[name] !== 'boolean') {
+        throw new Error(`Graphics effect "${name}" must be true or false`)
+      }
+      result.effects[name] = effects[name]
+    }
+  }
+
+  return result
+}
@@ -0,0 +1,67 @@
+import { keyLabel, type KeyBindings } from '../input/Bindings'
+import { gamepadButtonLabel, type GamepadConfig } from '../input/Input'
+
+const TOUCH_ROWS: Array<[string, string]> = [
+  ['Джойстик', 'бег'],
+  ['🚶', 'ходьба (вкл/выкл)'],
+  ['⤒', 'прыжок'],
+  ['👃', 'нюхать след (удерживать)'],
+  ['Правая половина', 'смотреть (веди пальцем)'],
+]
+
+/** Fills the HUD help block from the active bindings and gamepad buttons (or the touch layout). */
+export function renderControlsHelp(el: HTMLElement, bindings: KeyBindings, gamepad: GamepadConfig, touch = false) {
+  const rows: Array<[string, string]> = touch ? TOUCH_ROWS : [
+    [movementLabel(bindings), 'бег'],
+    [listLabel(bindings.walk), 'ходьба'],
+    [listLabel(bindings.jump), 'прыжок'],
+    [listLabel(bindings.sniff), 'нюхать след (удерживать)'],
+    ['Мышь', 'смотреть (кликни по сцене)'],
+    ['Геймпад', gamepadLabel(gamepad)],
+    ['F8', 'сохранить повтор'],
+  ]
+
+  el.replaceChildren(
+    ...rows.map(([keys, action]) => {
+      const row = document.createElement('div')
+      const b = document.createElement('b')
+      b.textContent = keys
+      row.append(b, ` — ${action}`)
+      return row
+    }),
+  )
+}
+
+/** "WASD / ↑←↓→": one group per binding slot, in forward-left-back-right order. */
+function movementLabel(bindings: KeyBindings) {
+  const order = [bindings.forward, bindings.left, bindings.back, bindings.right]
+  const slots = Math.max(...order.map((codes) => codes.length))
+
+  const groups: string[] = []
+  for (let i = 0; i < slots; i++) {
+    const labels = order.map((codes) => codes[i]).filter(Boolean).map(keyLabel)
+    if (!labels.length) continue
+    const compact = labels.every((label) => [...label].length === 1)
+    groups.push(labels.join(compact ? '' : ' '))
+  }
+
+  return groups.length ? groups.join(' / ') : '—'
+}
+
+function listLabel(codes: string[]) {
+  const labels = [...new Set(codes.map(keyLabel))]
+  return labels.length ? labels.join(' / ') : '—'
+}
+
+/** "стики, A — прыжок, B/LB — ходьба, X — нюхать" for the default buttons. */
+function gamepadLabel(cfg: GamepadConfig) {
+  const actions: Array<[number[], string]> = [
+    [cfg.jumpButtons, 'прыжок'],
+    [cfg.walkButtons, 'ходьба'],
+    [cfg.sniffButtons, 'нюхать'],
+  ]
+  const labels = actions.map(
+    ([indices, action]) => `${indices.length ? indices.map(gamepadButtonLabel).join('/') : '—'} — ${action}`,
+  )
+  return ['стики', ...labels].join(', ')
+}
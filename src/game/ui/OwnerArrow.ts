@@ -33,6 +33,10 @@ export class OwnerArrow {
     this.root.appendChild(this.compass)
   }
 
+  setVisible(visible: boolean) {
+    this.compass.classList.toggle('hidden', !visible)
+  }
+
   update(
     owner: Vector3,
     player: Vector3,
@@ -40,14 +44,16 @@ export class OwnerArrow {
     ownerDistance: number,
     nearestBerry: Vector3 | null,
     showBerry: boolean,
+    /** Extra needle swing in degrees, e.g. in a storm. */
+    jitter = 0,
   ) {
     if (!Number.isFinite(ownerDistance)) return
 
-    const ownerAngle = angleToTarget(owner, player, headingFromNorth)
+    const ownerAngle = angleToTarget(owner, player, headingFromNorth) + jitter
     this.ownerNeedle.style.transform = `translate(-50%, -50%) rotate(${ownerAngle}deg)`
 
     if (showBerry && nearestBerry) {
-      const berryAngle = angleToTarget(nearestBerry, player, headingFromNorth)
+      const berryAngle = angleToTarget(nearestBerry, player, headingFromNorth) - jitter * 0.8
       this.berryNeedle.style.transform = `translate(-50%, -50%) rotate(${berryAngle}deg)`
       this.berryNeedle.classList.add('active', 'blinking')
 
@@ -0,0 +1,74 @@
+export type PauseMenuActions = {
+  onPause: () => void
+  onResume: () => void
+  onRestart: () => void
+  onSettings: () => void
+  onQuit: () => void
+}
+
+/** ⏸ button (the only way to pause on touch screens) and the pause overlay. */
+export class PauseMenu {
+  private readonly button: HTMLButtonElement
+  private readonly overlay: HTMLDivElement
+  private readonly restartButton: HTMLButtonElement
+  private readonly quitButton: HTMLButtonElement
+
+  constructor(root: HTMLElement, actions: PauseMenuActions) {
+    this.button = document.createElement('button')
+    this.button.id = 'pause-button'
+    this.button.title = 'Пауза (Esc)'
+    this.button.textContent = '⏸'
+    this.button.classList.add('hidden')
+    this.button.addEventListener('click', actions.onPause)
+
+    this.overlay = document.createElement('div')
+    this.overlay.id = 'pause-menu'
+    this.overlay.classList.add('hidden')
+
+    const panel = document.createElement('div')
+    panel.className = 'menu-panel'
+
+    const title = document.createElement('div')
+    title.className = 'menu-title'
+    title.textContent = 'Пауза'
+
+    const resume = menuButton('Продолжить', actions.onResume)
+    this.restartButton = menuButton('Начать раунд заново', actions.onRestart)
+    const settings = menuButton('Настройки', actions.onSettings)
+    this.quitButton = menuButton('Выйти в меню', actions.onQuit)
+
+    const list = document.createElement('div')
+    list.className = 'menu-actions'
+    list.append(resume, this.restartButton, settings, this.quitButton)
+
+    panel.append(title, list)
+    this.overlay.append(panel)
+    root.append(this.button, this.overlay)
+  }
+
+  /** Replays carry their own restarts and have no title screen to quit to. */
+  setReplayMode(replay: boolean) {
+    this.restartButton.classList.toggle('hidden', replay)
+    this.quitButton.classList.toggle('hidden', replay)
+  }
+
+  /** The ⏸ button is only useful while a round is running. */
+  setButtonVisible(visible: boolean) {
+    this.button.classList.toggle('hidden', !visible)
+  }
+
+  show() {
+    this.overlay.classList.remove('hidden')
+  }
+
+  hide() {
+    this.overlay.classList.add('hidden')
+  }
+}
+
+export function menuButton(text: string, onClick: () => void) {
+  const button = document.createElement('button')
+  button.textContent = text
+  button.addEventListener('click', onClick)
+  return button
+}
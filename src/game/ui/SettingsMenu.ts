@@ -0,0 +1,349 @@
+import {
+  DEFAULT_BINDINGS,
+  INPUT_ACTIONS,
+  bindKey,
+  cloneBindings,
+  isBindableCode,
+  keyLabel,
+  unbindKey,
+  type InputAction,
+  type KeyBindings,
+} from '../input/Bindings'
+import {
+  GRAPHICS_QUALITIES,
+  POST_EFFECTS,
+  cloneGraphicsSettings,
+  type GraphicsQuality,
+  type GraphicsSettings,
+  type PostEffects,
+} from '../settings/GraphicsSettings'
+import { GUARD_LEVELS, type DifficultySettings, type GuardLevel } from '../settings/DifficultySettings'
+
+const ACTION_LABELS: Record<InputAction, string> = {
+  forward: 'Вперёд',
+  back: 'Назад',
+  left: 'Влево',
+  right: 'Вправо',
+  walk: 'Ходьба',
+  jump: 'Прыжок',
+  sniff: 'Нюхать',
+}
+
+const QUALITY_LABELS: Record<GraphicsQuality, string> = {
+  low: 'Низкое',
+  medium: 'Среднее',
+  high: 'Высокое',
+  ultra: 'Ультра',
+}
+
+const GUARD_LABELS: Record<GuardLevel, string> = {
+  off: 'Нет',
+  calm: 'Мирные',
+  normal: 'Обычные',
+  fierce: 'Злые',
+}
+
+const EFFECT_LABELS: Record<keyof PostEffects, string> = {
+  ambientOcclusion: 'Мягкие тени (AO)',
+  bloom: 'Свечение',
+  depthOfField: 'Размытие фона при победе',
+  colorGrading: 'Цвет по времени суток',
+  vignette: 'Виньетка при голоде',
+}
+
+export class SettingsMenu {
+  private readonly button: HTMLButtonElement
+  private readonly panel: HTMLDivElement
+  private readonly list: HTMLDivElement
+  private readonly graphicsList: HTMLDivElement
+  private readonly difficultyList: HTMLDivElement
+
+  private bindings: KeyBindings
+  private graphics: GraphicsSettings
+  private difficulty: DifficultySettings
+  private capturing: InputAction | null = null
+
+  constructor(
+    private readonly root: HTMLElement,
+    bindings: KeyBindings,
+    private readonly onChange: (bindings: KeyBindings) => void,
+    graphics: GraphicsSettings,
+    private readonly onGraphicsChange: (graphics: GraphicsSettings) => void,
+    difficulty: DifficultySettings,
+    private readonly onDifficultyChange: (difficulty: DifficultySettings) => void,
+  ) {
+    this.bindings = cloneBindings(bindings)
+    this.graphics = cloneGraphicsSettings(graphics)
+    this.difficulty = { ...difficulty }
+
+    this.button = document.createElement('button')
+    this.button.id = 'settings-button'
+    this.button.title = 'Настройки'
+    this.button.textContent = '⚙'
+    this.button.addEventListener('click', () => this.toggle())
+
+    this.panel = document.createElement('div')
+    this.panel.id = 'settings'
+    this.panel.classList.add('hidden')
+
+    const title = document.createElement('div')
+    title.className = 'settings-title'
+    title.textContent = 'Управление'
+
+    const hint = document.createElement('div')
+    hint.className = 'settings-hint'
+    hint.textContent = 'Клик по клавише — убрать, «+» — назначить новую.'
+
+    this.list = document.createElement('div')
+    this.list.className = 'settings-list'
+
+    const actions = document.createElement('div')
+    actions.className = 'settings-actions'
+
+    const reset = document.createElement('button')
+    reset.textContent = 'По умолчанию'
+    reset.addEventListener('click', () => this.apply(cloneBindings(DEFAULT_BINDINGS)))
+
+    const close = document.createElement('button')
+    close.textContent = 'Готово'
+    close.addEventListener('click', () => this.close())
+
+    const difficultyTitle = document.createElement('div')
+    difficultyTitle.className = 'settings-title settings-section'
+    difficultyTitle.textContent = 'Сложность'
+
+    const difficultyHint = document.createElement('div')
+    difficultyHint.className = 'settings-hint'
+    difficultyHint.textContent =
+      'Без компаса хозяина ищут по следу: удерживай «Нюхать». Гуси у ягод меняются с новой игры.'
+
+    this.difficultyList = document.createElement('div')
+    this.difficultyList.className = 'settings-list'
+
+    const graphicsTitle = document.createElement('div')
+    graphicsTitle.className = 'settings-title settings-section'
+    graphicsTitle.textContent = 'Графика'
+
+    const graphicsHint = document.createElement('div')
+    graphicsHint.className = 'settings-hint'
+    graphicsHint.textContent = 'Тени и сглаживание меняются после перезагрузки.'
+
+    this.graphicsList = document.createElement('div')
+    this.graphicsList.className = 'settings-list'
+
+    actions.append(reset, close)
+    this.panel.append(
+      title,
+      hint,
+      this.list,
+      difficultyTitle,
+      difficultyHint,
+      this.difficultyList,
+      graphicsTitle,
+      graphicsHint,
+      this.graphicsList,
+      actions,
+    )
+    this.root.append(this.button, this.panel)
+
+    this.render()
+  }
+
+  get isOpen() {
+    return !this.panel.classList.contains('hidden')
+  }
+
+  open() {
+    if (document.pointerLockElement) {
+      document.exitPointerLock()
+    }
+    this.panel.classList.remove('hidden')
+    this.render()
+  }
+
+  close() {
+    this.stopCapture()
+    this.panel.classList.add('hidden')
+  }
+
+  toggle() {
+    if (this.isOpen) this.close()
+    else this.open()
+  }
+
+  private apply(bindings: KeyBindings) {
+    this.bindings = bindings
+    this.onChange(cloneBindings(bindings))
+    this.render()
+  }
+
+  private applyGraphics(graphics: GraphicsSettings) {
+    this.graphics = graphics
+    this.onGraphicsChange(cloneGraphicsSettings(graphics))
+    this.render()
+  }
+
+  private applyDifficulty(difficulty: DifficultySettings) {
+    this.difficulty = difficulty
+    this.onDifficultyChange({ ...difficulty })
+    this.render()
+  }
+
+  private startCapture(action: InputAction) {
+    this.stopCapture()
+    this.capturing = action
+    window.addEventListener('keydown', this.onCaptureKey, true)
+    this.render()
+  }
+
+  private stopCapture() {
+    if (!this.capturing) return
+    this.capturing = null
+    window.removeEventListener('keydown', this.onCaptureKey, true)
+    this.render()
+  }
+
+  private onCaptureKey = (e: KeyboardEvent) => {
+    const action = this.capturing
+    if (!action) return
+
+    e.preventDefault()
+    e.stopPropagation()
+
+    if (e.code === 'Escape') {
+      this.stopCapture()
+      return
+    }
+    if (!isBindableCode(e.code)) return
+
+    this.capturing = null
+    window.removeEventListener('keydown', this.onCaptureKey, true)
+    this.apply(bindKey(this.bindings, action, e.code))
+  }
+
+  private render() {
+    this.list.replaceChildren(
+      ...INPUT_ACTIONS.map((action) => {
+        const row = document.createElement('div')
+        row.className = 'settings-row'
+
+        const name = document.createElement('span')
+        name.className = 'settings-action'
+        name.textContent = ACTION_LABELS[action]
+
+        const keys = document.createElement('span')
+        keys.className = 'settings-keys'
+
+        for (const code of this.bindings[action]) {
+          const chip = document.createElement('button')
+          chip.className = 'settings-key'
+          chip.title = code
+          chip.textContent = keyLabel(code)
+          chip.addEventListener('click', () => this.apply(unbindKey(this.bindings, action, code)))
+          keys.append(chip)
+        }
+
+        const add = document.createElement('button')
+        add.className = 'settings-add'
+        if (this.capturing === action) {
+          add.textContent = 'Нажми клавишу… (Esc — отмена)'
+          add.classList.add('capturing')
+          add.addEventListener('click', () => this.stopCapture())
+        } else {
+          add.textContent = '+'
+          add.addEventListener('click', () => this.startCapture(action))
+        }
+        keys.append(add)
+
+        row.append(name, keys)
+        return row
+      }),
+    )
+
+    this.difficultyList.replaceChildren(
+      this.toggleRow('Компас', this.difficulty.compass, () =>
+        this.applyDifficulty({ ...this.difficulty, compass: !this.difficulty.compass }),
+      ),
+      this.toggleRow('Подсказка пути', this.difficulty.hintPath, () =>
+        this.applyDifficulty({ ...this.difficulty, hintPath: !this.difficulty.hintPath }),
+      ),
+      this.guardsRow(),
+    )
+    this.renderGraphics()
+  }
+
+  private guardsRow() {
+    const row = document.createElement('div')
+    row.className = 'settings-row'
+
+    const name = document.createElement('span')
+    name.className = 'settings-action'
+    name.textContent = 'Гуси'
+
+    const levels = document.createElement('span')
+    levels.className = 'settings-keys'
+    for (const level of GUARD_LEVELS) {
+      const button = document.createElement('button')
+      button.textContent = GUARD_LABELS[level]
+      button.classList.toggle('selected', this.difficulty.guards === level)
+      button.addEventListener('click', () => this.applyDifficulty({ ...this.difficulty, guards: level }))
+      levels.append(button)
+    }
+    row.append(name, levels)
+    return row
+  }
+
+  private renderGraphics() {
+    const quality = document.createElement('div')
+    quality.className = 'settings-row'
+
+    const qualityName = document.createElement('span')
+    qualityName.className = 'settings-action'
+    qualityName.textContent = 'Качество'
+
+    const presets = document.createElement('span')
+    presets.className = 'settings-keys'
+    for (const q of GRAPHICS_QUALITIES) {
+      const button = document.createElement('button')
+      button.textContent = QUALITY_LABELS[q]
+      button.classList.toggle('selected', this.graphics.quality === q)
+      button.addEventListener('click', () => this.applyGraphics({ ...cloneGraphicsSettings(this.graphics), quality: q }))
+      presets.append(button)
+    }
+    quality.append(qualityName, presets)
+
+    const dynamic = this.toggleRow('Динамическое разрешение', this.graphics.dynamicResolution, () =>
+      this.applyGraphics({
+        ...cloneGraphicsSettings(this.graphics),
+        dynamicResolution: !this.graphics.dynamicResolution,
+      }),
+    )
+
+    const effects = POST_EFFECTS.map((name) =>
+      this.toggleRow(EFFECT_LABELS[name], this.graphics.effects[name], () => {
+        const next = cloneGraphicsSettings(this.graphics)
+        next.effects[name] = !next.effects[name]
+        this.applyGraphics(next)
+      }),
+    )
+
+    this.graphicsList.replaceChildren(quality, dynamic, ...effects)
+  }
+
+  private toggleRow(label: string, on: boolean, onToggle: () => void) {
+    const row = document.createElement('div')
+    row.className = 'settings-row'
+
+    const name = document.createElement('span')
+    name.className = 'settings-action'
+    name.textContent = label
+
+    const toggle = document.createElement('button')
+    toggle.textContent = on ? 'Вкл' : 'Выкл'
+    toggle.classList.toggle('selected', on)
+    toggle.addEventListener('click', onToggle)
+
+    row.append(name, toggle)
+    return row
+  }
+}
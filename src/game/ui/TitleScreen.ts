@@ -0,0 +1,62 @@
+import type { RunSnapshot } from '../save/RunSnapshot'
+import { menuButton } from './PauseMenu'
+
+export type TitleScreenActions = {
+  onNewGame: () => void
+  onContinue: (snapshot: RunSnapshot) => void
+  onSettings: () => void
+}
+
+/** Start menu drawn over the idle world: new game, continue the saved run, settings. */
+export class TitleScreen {
+  private readonly overlay: HTMLDivElement
+  private readonly info: HTMLDivElement
+  private readonly list: HTMLDivElement
+
+  constructor(
+    root: HTMLElement,
+    private readonly actions: TitleScreenActions,
+  ) {
+    this.overlay = document.createElement('div')
+    this.overlay.id = 'title-screen'
+    this.overlay.classList.add('hidden')
+
+    const panel = document.createElement('div')
+    panel.className = 'menu-panel'
+
+    const title = document.createElement('div')
+    title.className = 'menu-title'
+    title.textContent = 'Doggo 3D'
+
+    this.info = document.createElement('div')
+    this.info.className = 'menu-info'
+
+    this.list = document.createElement('div')
+    this.list.className = 'menu-actions'
+
+    panel.append(title, this.info, this.list)
+    this.overlay.append(panel)
+    root.append(this.overlay)
+  }
+
+  /** `saved` is the run that "Продолжить" restores, if any. */
+  show(saved: RunSnapshot | null) {
+    const buttons: HTMLButtonElement[] = []
+    if (saved) {
+      const savedAt = new Date(saved.savedAt).toLocaleString()
+      this.info.textContent = `Сохранение: раунд ${saved.round}, сытость ${Math.round(saved.hunger)}% — ${savedAt}`
+      buttons.push(menuButton('Продолжить', () => this.actions.onContinue(saved)))
+    } else {
+      this.info.textContent = 'Найди хозяина и не забывай про ягоды.'
+    }
+    buttons.push(menuButton('Новая игра', this.actions.onNewGame))
+    buttons.push(menuButton('Настройки', this.actions.onSettings))
+
+    this.list.replaceChildren(...buttons)
+    this.overlay.classList.remove('hidden')
+  }
+
+  hide() {
+    this.overlay.classList.add('hidden')
+  }
+}
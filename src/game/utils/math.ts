@@ -2,6 +2,16 @@ export function clamp(value: number, min: number, max: number) {
   return Math.min(max, Math.max(min, value))
 }
 
+export function clamp01(value: number) {
+  return clamp(value, 0, 1)
+}
+
+/** 0 below `edge0`, 1 above `edge1`, and an S-curve between (as in GLSL). */
+export function smoothstep(edge0: number, edge1: number, x: number) {
+  const t = clamp01((x - edge0) / (edge1 - edge0))
+  return t * t * (3 - 2 * t)
+}
+
 export function lerp(a: number, b: number, t: number) {
   return a + (b - a) * t
 }
@@ -0,0 +1,46 @@
+export type Rng = () => number
+
+export function mulberry32(seed: number): Rng {
+  let a = seed | 0
+  return function () {
+    a |= 0
+    a = (a + 0x6d2b79f5) | 0
+    let t = Math.imul(a ^ (a >>> 15), 1 | a)
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296
+  }
+}
+
+/** FNV-1a, 32-bit. */
+export function hashString(text: string) {
+  let h = 0x811c9dc5
+  for (let i = 0; i < text.length; i++) {
+    h ^= text.charCodeAt(i)
+    h = Math.imul(h, 0x01000193)
+  }
+  return h >>> 0
+}
+
+/**
+ * Derives an independent seed for one generator from a parent seed, so every
+ * consumer of the world seed gets its own stream: `deriveSeed(seed, 'berries')`.
+ */
+export function deriveSeed(seed: number, salt: string) {
+  let h = (seed ^ hashString(salt)) >>> 0
+  // murmur3 finalizer.
+  h = Math.imul(h ^ (h >>> 16), 0x85ebca6b)
+  h = Math.imul(h ^ (h >>> 13), 0xc2b2ae35)
+  return (h ^ (h >>> 16)) >>> 0
+}
+
+export function randomSeed() {
+  return Math.floor(Math.random() * 4294967296) >>> 0
+}
+
+/** Accepts a decimal seed or any other text (hashed), e.g. from a URL parameter. */
+export function parseSeed(value: string | null | undefined) {
+  const text = value?.trim()
+  if (!text) return null
+  if (/^\d+$/.test(text)) return Number(text) >>> 0
+  return hashString(text)
+}
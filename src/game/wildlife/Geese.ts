@@ -0,0 +1,392 @@
+import type { Collider, RigidBody } from '@dimforge/rapier3d-compat'
+import { Group, InstancedMesh, Matrix4, MeshStandardMaterial, Quaternion, Vector3 } from 'three'
+
+import type { NavGrid } from '../nav/NavGrid'
+import type { Physics } from '../physics/Physics'
+import type { Player } from '../player/Player'
+import { GUARD_PRESETS, type GuardPreset } from '../settings/DifficultySettings'
+import { wrapAngleRadians } from '../utils/math'
+import { deriveSeed, mulberry32, type Rng } from '../utils/random'
+import type { Terrain } from '../world/Terrain'
+import { buildBody, createInstances, type Part } from './WildlifeMeshes'
+
+export type GeeseConfig = {
+  /** Geese walk around their berries at about this distance from the cluster's centre. */
+  patrolRadius: number
+  walkSpeed: number
+  /** A goose this close to the dog (horizontally) hits it. */
+  hitRadius: number
+  /** Berry clusters nearer to spawn than this are never guarded. */
+  spawnClearance: number
+  /** Geese farther than this from the dog stand still until it comes closer. */
+  activeRadius: number
+  /** Geese farther than this from the dog are not drawn. */
+  drawDistance: number
+  /** When false nothing is drawn (headless simulation). */
+  render: boolean
+}
+
+export type GooseState = 'patrol' | 'chase' | 'return'
+
+export type Goose = {
+  state: GooseState
+  position: Vector3
+  heading: number
+  speed: number
+  /** Centre of the berry cluster it guards. */
+  home: Vector3
+  /** Where it is on its round of the cluster, and which way it walks (±1). */
+  angle: number
+  direction: number
+  /** Seconds left walking or grazing on patrol; seconds without sight of the dog in a chase. */
+  timer: number
+  /** Seconds before it may go for the dog again after a hit. */
+  cooldown: number
+  /** Distance travelled, for the waddle. */
+  stride: number
+  rand: Rng
+  body: RigidBody
+  collider: Collider
+}
+
+// Headings tried around the wanted one when the ground ahead is steep, wet or blocked.
+const TURNS = [0, 0.5, -0.5, 1, -1, 1.6, -1.6, 2.4, -2.4]
+
+// The chase ends after this long without seeing the dog.
+const LOST_SIGHT_TIME = 2
+// Height of the eyes above the feet, where sight rays start.
+const EYE_HEIGHT = 0.8
+// The collider is a capsule standing on the ground.
+const BODY_RADIUS = 0.28
+const BODY_HALF_HEIGHT = 0.15
+
+const GOOSE: Part[] = [
+  { shape: 'sphere', size: [0.32, 0.2, 0.2], at: [0, 0.38, 0], color: '#f1efe8' },
+  { shape: 'sphere', size: [0.12, 0.07, 0.12], at: [-0.3, 0.44, 0], color: '#d9d6cc' },
+  { shape: 'sphere', size: [0.06, 0.22, 0.06], at: [0.24, 0.6, 0], color: '#f1efe8' },
+  { shape: 'sphere', size: [0.09, 0.08, 0.075], at: [0.28, 0.8, 0], color: '#f1efe8' },
+  { shape: 'cone', size: [0.035, 0.12, 0.035], at: [0.41, 0.78, 0], color: '#e8892a' },
+  { shape: 'sphere', size: [0.03, 0.12, 0.03], at: [0.02, 0.1, 0.07], color: '#e8892a' },
+  { shape: 'sphere', size: [0.03, 0.12, 0.03], at: [0.02, 0.1, -0.07], color: '#e8892a' },
+]
+
+const UP = new Vector3(0, 1, 0)
+const FORWARD = new Vector3(1, 0, 0)
+const SIDE = new Vector3(0, 0, 1)
+
+/**
+ * Geese guarding some of the round's berry clusters. They walk around their
+ * berries, go for the dog when they see it close by, and shove it away with a
+ * Rapier impulse when they reach it, which costs hunger. Sight is a ray
+ * through the physics world, so trees, rocks, fences and hills hide the dog.
+ * Each goose is a kinematic body the dog bumps into. How many there are and
+ * how fierce they get is a difficulty preset (`GUARD_PRESETS`).
+ */
+export class Geese {
+  readonly group = new Group()
+  readonly geese: Goose[] = []
+
+  private readonly cfg: GeeseConfig
+  private readonly mesh: InstancedMesh | null
+  private readonly colliderHandles = new Set<number>()
+  private preset: GuardPreset = GUARD_PRESETS.off
+  private readonly matrix = new Matrix4()
+  private readonly rotation = new Quaternion()
+  private readonly tilt = new Quaternion()
+  private readonly scale = new Vector3(1, 1, 1)
+
+  constructor(
+    private readonly terrain: Terrain,
+    private readonly nav: NavGrid,
+    private readonly physics: Physics,
+    config?: Partial<GeeseConfig>,
+  ) {
+    this.cfg = {
+      patrolRadius: 10,
+      walkSpeed: 1.3,
+      hitRadius: 1.1,
+      spawnClearance: 60,
+      activeRadius: 160,
+      drawDistance: 110,
+      render: true,
+      ...config,
+    }
+
+    if (this.cfg.render) {
+      const capacity = Math.max(...Object.values(GUARD_PRESETS).map((p) => p.flocks * p.perFlock))
+      this.mesh = createInstances(
+        buildBody(GOOSE),
+        new MeshStandardMaterial({ vertexColors: true, roughness: 0.85 }),
+        capacity,
+      )
+      this.group.add(this.mesh)
+    } else {
+      this.mesh = null
+    }
+  }
+
+  /** Puts new flocks on `clusters` (berry cluster centres) for a round; the same seed picks the same ones. */
+  reset(seed: number, clusters: readonly Vector3[], preset: GuardPreset) {
+    this.removeBodies()
+    this.preset = preset
+
+    const rand = mulberry32(seed)
+    const { spawnClearance, patrolRadius } = this.cfg
+    const candidates = clusters.filter((c) => Math.hypot(c.x, c.z) >= spawnClearance)
+    const flocks = Math.min(preset.flocks, candidates.length)
+
+    for (let f = 0; f < flocks; f++) {
+      // Partial shuffle: every cluster is as likely to be guarded.
+      const pick = f + Math.floor(rand() * (candidates.length - f))
+      ;[candidates[f], candidates[pick]] = [candidates[pick], candidates[f]]
+      const home = candidates[f].clone()
+      home.y = this.terrain.getHeightAt(home.x, home.z)
+
+      for (let i = 0; i < preset.perFlock; i++) {
+        // One stream per goose, like the other animals.
+        const goose = mulberry32(deriveSeed(seed, `goose:${f}:${i}`))
+        const angle = (i / preset.perFlock) * Math.PI * 2 + goose() * 0.5
+        let x = home.x + Math.cos(angle) * patrolRadius
+        let z = home.z + Math.sin(angle) * patrolRadius
+        if (!this.canStand(x, z)) {
+          x = home.x
+          z = home.z
+        }
+        const position = new Vector3(x, this.terrain.getHeightAt(x, z), z)
+        this.geese.push({
+          state: 'patrol',
+          position,
+          heading: angle + Math.PI / 2,
+          speed: 0,
+          home,
+          angle,
+          direction: goose() < 0.5 ? -1 : 1,
+          timer: goose() * 3,
+          cooldown: 0,
+          stride: goose() * 10,
+          rand: goose,
+          ...this.createBody(position),
+        })
+      }
+    }
+  }
+
+  /**
+   * Moves every goose near the dog and knocks the dog back on a hit (only
+   * when `canHit`, e.g. not while celebrating). Returns the number of hits.
+   */
+  update(dt: number, player: Player, canHit: boolean) {
+    const dog = player.group.position
+    const { preset } = this
+    let hits = 0
+
+    for (const goose of this.geese) {
+      const { position, home } = goose
+      const dx = dog.x - position.x
+      const dz = dog.z - position.z
+      const distance = Math.hypot(dx, dz)
+      if (distance > this.cfg.activeRadius) continue
+
+      goose.cooldown = Math.max(0, goose.cooldown - dt)
+      const dogFromHome = Math.hypot(dog.x - home.x, dog.z - home.z)
+      const fromHome = Math.hypot(position.x - home.x, position.z - home.z)
+      const inReach = dogFromHome < preset.leashRadius && distance < preset.sightRadius
+
+      switch (goose.state) {
+        case 'patrol':
+        case 'return':
+          if (goose.cooldown <= 0 && inReach && this.canSee(goose, dog, player.config)) {
+            goose.state = 'chase'
+            goose.timer = 0
+            this.chase(goose, dt, dog)
+          } else if (goose.state === 'patrol') {
+            this.patrol(goose, dt)
+          } else {
+            this.goHome(goose, dt, fromHome)
+          }
+          break
+        case 'chase':
+          if (dogFromHome > preset.leashRadius || fromHome > preset.leashRadius) {
+            goose.state = 'return'
+            break
+          }
+          goose.timer = this.canSee(goose, dog, player.config) ? 0 : goose.timer + dt
+          if (goose.timer > LOST_SIGHT_TIME) {
+            goose.state = 'return'
+            break
+          }
+          this.chase(goose, dt, dog)
+          break
+      }
+
+      const after = Math.hypot(dog.x - position.x, dog.z - position.z)
+      if (
+        canHit &&
+        goose.state === 'chase' &&
+        goose.cooldown <= 0 &&
+        after < this.cfg.hitRadius &&
+        Math.abs(dog.y - position.y) < 1.5
+      ) {
+        const push = new Vector3(dog.x - position.x, 0, dog.z - position.z)
+        if (push.lengthSq() < 1e-6) push.set(Math.cos(goose.heading), 0, Math.sin(goose.heading))
+        push.normalize().multiplyScalar(preset.knockback)
+        push.y = preset.knockback * 0.4
+        player.knockBack(push)
+
+        goose.cooldown = preset.cooldown
+        goose.state = 'return'
+        hits++
+      }
+
+      goose.body.setNextKinematicTranslation({
+        x: position.x,
+        y: position.y + BODY_HALF_HEIGHT + BODY_RADIUS,
+        z: position.z,
+      })
+    }
+
+    this.draw(dog)
+    return hits
+  }
+
+  dispose() {
+    this.removeBodies()
+    if (this.mesh) {
+      this.mesh.geometry.dispose()
+      ;(this.mesh.material as MeshStandardMaterial).dispose()
+    }
+    this.group.clear()
+  }
+
+  /** Takes every goose and its body out of the physics world until the next `reset`. */
+  removeBodies() {
+    const { world } = this.physics
+    for (const goose of this.geese) {
+      world.removeCollider(goose.collider, false)
+      world.removeRigidBody(goose.body)
+    }
+    this.geese.length = 0
+    this.colliderHandles.clear()
+  }
+
+  /** Round and round the berries, stopping now and then to graze. */
+  private patrol(goose: Goose, dt: number) {
+    const { patrolRadius, walkSpeed } = this.cfg
+    goose.timer -= dt
+    if (goose.timer <= 0) {
+      const grazing = goose.speed === 0
+      goose.speed = grazing ? walkSpeed : 0
+      goose.timer = grazing ? 3 + goose.rand() * 3 : 1 + goose.rand() * 2
+    }
+    if (goose.speed === 0) return
+
+    goose.angle += ((goose.direction * walkSpeed) / patrolRadius) * dt
+    const x = goose.home.x + Math.cos(goose.angle) * patrolRadius
+    const z = goose.home.z + Math.sin(goose.angle) * patrolRadius
+    this.turnTowards(goose, Math.atan2(z - goose.position.z, x - goose.position.x), dt * 4)
+    this.walk(goose, dt)
+  }
+
+  private chase(goose: Goose, dt: number, dog: Vector3) {
+    goose.speed = this.preset.chaseSpeed
+    this.turnTowards(goose, Math.atan2(dog.z - goose.position.z, dog.x - goose.position.x), dt * 8)
+    this.walk(goose, dt)
+  }
+
+  private goHome(goose: Goose, dt: number, fromHome: number) {
+    const { position, home } = goose
+    if (fromHome < this.cfg.patrolRadius + 1) {
+      goose.state = 'patrol'
+      goose.angle = Math.atan2(position.z - home.z, position.x - home.x)
+      goose.timer = 0
+      return
+    }
+    goose.speed = this.cfg.walkSpeed * 2.5
+    this.turnTowards(goose, Math.atan2(home.z - position.z, home.x - position.x), dt * 4)
+    this.walk(goose, dt)
+  }
+
+  private turnTowards(goose: Goose, heading: number, rate: number) {
+    const turn = wrapAngleRadians(heading - goose.heading + Math.PI) - Math.PI
+    goose.heading += turn * Math.min(1, rate)
+  }
+
+  /** A ray from the goose's eyes to the dog's back that nothing but other geese may stop. */
+  private canSee(goose: Goose, dog: Vector3, shape: { radius: number; halfHeight: number }) {
+    const { RAPIER, world } = this.physics
+    const origin = { x: goose.position.x, y: goose.position.y + EYE_HEIGHT, z: goose.position.z }
+    const to = new Vector3(dog.x - origin.x, dog.y + shape.halfHeight - origin.y, dog.z - origin.z)
+    // Stop short of the dog's own collider.
+    const reach = to.length() - shape.radius - 0.05
+    if (reach <= 0) return true
+
+    const ray = new RAPIER.Ray(origin, to.normalize())
+    const hit = world.castRay(ray, reach, true, undefined, undefined, undefined, undefined, (collider) =>
+      !this.colliderHandles.has(collider.handle),
+    )
+    return hit === null
+  }
+
+  /** Steps along the heading over the ground, turning away from anything the dog could not walk on either. */
+  private walk(goose: Goose, dt: number) {
+    const { position } = goose
+    const step = goose.speed * dt
+
+    for (const turn of TURNS) {
+      const heading = goose.heading + turn
+      const x = position.x + Math.cos(heading) * step
+      const z = position.z + Math.sin(heading) * step
+      if (!this.canStand(x, z)) continue
+
+      goose.heading = heading
+      position.set(x, this.terrain.getHeightAt(x, z), z)
+      goose.stride += step
+      return
+    }
+    goose.heading += Math.PI
+  }
+
+  private canStand(x: number, z: number) {
+    const { width, depth } = this.terrain.config
+    if (Math.abs(x) > width / 2 - 5 || Math.abs(z) > depth / 2 - 5) return false
+    return this.nav.isWalkable(x, z) && !this.terrain.isUnderwater(x, z, 0.1)
+  }
+
+  private createBody(position: Vector3) {
+    const { RAPIER, world } = this.physics
+    const body = world.createRigidBody(
+      RAPIER.RigidBodyDesc.kinematicPositionBased().setTranslation(
+        position.x,
+        position.y + BODY_HALF_HEIGHT + BODY_RADIUS,
+        position.z,
+      ),
+    )
+    const collider = world.createCollider(RAPIER.ColliderDesc.capsule(BODY_HALF_HEIGHT, BODY_RADIUS), body)
+    this.colliderHandles.add(collider.handle)
+    return { body, collider }
+  }
+
+  private draw(dog: Vector3) {
+    const { mesh, matrix, rotation, tilt, scale } = this
+    if (!mesh) return
+    const maxD2 = this.cfg.drawDistance * this.cfg.drawDistance
+    let count = 0
+
+    for (const goose of this.geese) {
+      const { position } = goose
+      const dx = position.x - dog.x
+      const dz = position.z - dog.z
+      if (dx * dx + dz * dz > maxD2) continue
+
+      rotation.setFromAxisAngle(UP, -goose.heading)
+      // Waddles as it walks and leans in, neck out, when it charges.
+      if (goose.speed > 0) rotation.multiply(tilt.setFromAxisAngle(FORWARD, Math.sin(goose.stride * 4) * 0.12))
+      if (goose.state === 'chase') rotation.multiply(tilt.setFromAxisAngle(SIDE, -0.3))
+      matrix.compose(position, rotation, scale)
+      mesh.setMatrixAt(count++, matrix)
+    }
+
+    mesh.count = count
+    mesh.instanceMatrix.needsUpdate = true
+  }
+}
@@ -0,0 +1,476 @@
+import { Group, Vector3 } from 'three'
+
+import type { NavGrid } from '../nav/NavGrid'
+import { clamp, wrapAngleRadians } from '../utils/math'
+import { deriveSeed, mulberry32, type Rng } from '../utils/random'
+import type { Terrain } from '../world/Terrain'
+import { WildlifeMeshes } from './WildlifeMeshes'
+
+export type AnimalKind = 'rabbit' | 'squirrel' | 'bird'
+
+export const ANIMAL_KINDS: AnimalKind[] = ['rabbit', 'squirrel', 'bird']
+
+/** Behaviour of one kind of animal; speeds in m/s, distances in metres. */
+export type SpeciesConfig = {
+  wanderSpeed: number
+  fleeSpeed: number
+  /** The dog startles it from this far away, plus `alertPerSpeed` per m/s the dog runs. */
+  alertRadius: number
+  alertPerSpeed: number
+  /** It calms down once the dog is this far away. */
+  safeRadius: number
+  /** Wandering keeps it within this distance of home. */
+  homeRadius: number
+  /** Where it escapes to: up a trunk, into a treetop, or just away on foot. */
+  perch: 'trunk' | 'canopy' | 'none'
+  /** Seconds of sprinting before it tires and slows down to `tiredSpeed`. */
+  stamina: number
+  tiredSpeed: number
+  /** The dog catches it within this distance; 0 means it cannot be caught. */
+  catchRadius: number
+}
+
+export const SPECIES: Record<AnimalKind, SpeciesConfig> = {
+  rabbit: {
+    wanderSpeed: 1.4,
+    fleeSpeed: 11,
+    alertRadius: 9,
+    alertPerSpeed: 0.9,
+    safeRadius: 32,
+    homeRadius: 14,
+    perch: 'none',
+    stamina: 5,
+    tiredSpeed: 6,
+    catchRadius: 1.4,
+  },
+  squirrel: {
+    wanderSpeed: 1.6,
+    fleeSpeed: 8,
+    alertRadius: 6,
+    alertPerSpeed: 0.7,
+    safeRadius: 16,
+    homeRadius: 10,
+    perch: 'trunk',
+    stamina: Infinity,
+    tiredSpeed: 8,
+    catchRadius: 0,
+  },
+  bird: {
+    wanderSpeed: 0.5,
+    fleeSpeed: 9,
+    alertRadius: 7,
+    alertPerSpeed: 1.1,
+    safeRadius: 24,
+    homeRadius: 6,
+    perch: 'canopy',
+    stamina: Infinity,
+    tiredSpeed: 9,
+    catchRadius: 0,
+  },
+}
+
+export type WildlifeConfig = {
+  rabbits: number
+  squirrels: number
+  birds: number
+  /** Animals farther than this from the dog stand still until it comes closer. */
+  activeRadius: number
+  /** When false nothing is drawn (headless simulation). */
+  render: boolean
+}
+
+export type AnimalState = 'wander' | 'rest' | 'flee' | 'perch' | 'caught'
+
+export type Animal = {
+  kind: AnimalKind
+  state: AnimalState
+  position: Vector3
+  heading: number
+  speed: number
+  home: Vector3
+  /** Tree it is heading for or sits in, as a spot in the air. */
+  perch: Vector3 | null
+  /** Seconds left in the current wander leg, rest or perch. */
+  timer: number
+  stamina: number
+  /** Distance travelled, for the hop and wing animation. */
+  stride: number
+  rand: Rng
+}
+
+type Tree = { x: number; y: number; z: number; height: number }
+
+// Headings tried around the wanted one when the ground ahead is steep, wet or blocked.
+const TURNS = [0, 0.5, -0.5, 1, -1, 1.6, -1.6, 2.4, -2.4]
+
+// A tree farther than this is no escape; the animal runs on the ground instead.
+const PERCH_SEARCH = 40
+
+/**
+ * Ambient animals: rabbits, squirrels and birds that wander near home and run
+ * from the dog when it comes close or fast. Squirrels escape up tree trunks,
+ * birds into treetops, and rabbits just run, until they tire and the dog can
+ * catch them. Seeded per round and stepped with the simulation, so replays
+ * chase the same rabbits.
+ */
+export class Wildlife {
+  readonly group = new Group()
+  readonly animals: Animal[] = []
+
+  private readonly cfg: WildlifeConfig
+  private readonly meshes: WildlifeMeshes | null
+  private trees: Tree[] = []
+
+  constructor(
+    private readonly terrain: Terrain,
+    private readonly nav: NavGrid,
+    config?: Partial<WildlifeConfig>,
+  ) {
+    this.cfg = {
+      rabbits: 60,
+      squirrels: 50,
+      birds: 70,
+      activeRadius: 160,
+      render: true,
+      ...config,
+    }
+
+    this.meshes = this.cfg.render
+      ? new WildlifeMeshes(terrain, { rabbit: this.cfg.rabbits, squirrel: this.cfg.squirrels, bird: this.cfg.birds })
+      : null
+    if (this.meshes) this.group.add(this.meshes.group)
+  }
+
+  /** Places a new set of animals; birds and squirrels settle near `trees`. */
+  reset(seed: number, trees: Tree[]) {
+    this.trees = trees
+    this.animals.length = 0
+
+    const counts: Record<AnimalKind, number> = {
+      rabbit: this.cfg.rabbits,
+      squirrel: this.cfg.squirrels,
+      bird: this.cfg.birds,
+    }
+    for (const kind of ANIMAL_KINDS) {
+      for (let i = 0; i < counts[kind]; i++) {
+        // One stream per animal: how many random numbers one uses never changes another.
+        const rand = mulberry32(deriveSeed(seed, `${kind}:${i}`))
+        const home = this.pickHome(kind, rand)
+        this.animals.push({
+          kind,
+          state: 'rest',
+          position: home.clone(),
+          heading: rand() * Math.PI * 2,
+          speed: 0,
+          home,
+          perch: null,
+          timer: rand() * 3,
+          stamina: SPECIES[kind].stamina,
+          stride: rand() * 10,
+          rand,
+        })
+      }
+    }
+  }
+
+  /** Per-animal caught flags, in placement order. */
+  getCaughtStates() {
+    return this.animals.map((a) => a.state === 'caught')
+  }
+
+  /** Restores flags from `getCaughtStates`; extra or missing entries are ignored. */
+  setCaughtStates(states: boolean[]) {
+    this.animals.forEach((a, i) => {
+      if (states[i]) a.state = 'caught'
+    })
+  }
+
+  /**
+   * Moves every animal near the dog. Returns how many it caught this step
+   * (only when `canCatch`, e.g. not while celebrating).
+   */
+  update(dt: number, dog: Vector3, dogSpeed: number, canCatch: boolean) {
+    let caught = 0
+
+    for (const animal of this.animals) {
+      if (animal.state === 'caught') continue
+      const dx = animal.position.x - dog.x
+      const dz = animal.position.z - dog.z
+      const distance = Math.hypot(dx, dz)
+      if (distance > this.cfg.activeRadius) continue
+
+      const species = SPECIES[animal.kind]
+      if (canCatch && species.catchRadius > 0 && distance < species.catchRadius) {
+        animal.state = 'caught'
+        caught++
+        continue
+      }
+
+      const alert = species.alertRadius + species.alertPerSpeed * dogSpeed
+      if (distance < alert && animal.state !== 'flee' && !(animal.state === 'perch' && this.isUp(animal))) {
+        this.startFleeing(animal, dog)
+      }
+
+      switch (animal.state) {
+        case 'wander':
+        case 'rest':
+          this.wander(animal, dt)
+          break
+        case 'flee':
+          this.flee(animal, dt, dog, distance)
+          break
+        case 'perch':
+          this.sit(animal, dt, distance)
+          break
+      }
+
+      animal.stamina =
+        animal.state === 'flee'
+          ? Math.max(0, animal.stamina - dt)
+          : Math.min(species.stamina, animal.stamina + dt * 0.5)
+    }
+
+    this.meshes?.update(dt, this.animals, dog)
+    return caught
+  }
+
+  dispose() {
+    this.meshes?.dispose()
+    this.group.clear()
+  }
+
+  private wander(animal: Animal, dt: number) {
+    const species = SPECIES[animal.kind]
+    animal.timer -= dt
+
+    if (animal.timer <= 0) {
+      const { rand } = animal
+      if (animal.state === 'rest') {
+        animal.state = 'wander'
+        animal.timer = 1 + rand() * 3
+        // Drift back towards home when straying.
+        const toHome = Math.atan2(animal.home.z - animal.position.z, animal.home.x - animal.position.x)
+        const away = Math.hypot(animal.home.x - animal.position.x, animal.home.z - animal.position.z)
+        animal.heading =
+          away > species.homeRadius ? toHome + (rand() - 0.5) : animal.heading + (rand() - 0.5) * 2.5
+      } else {
+        animal.state = 'rest'
+        animal.timer = 1 + rand() * 4
+      }
+    }
+
+    animal.speed = animal.state === 'wander' ? species.wanderSpeed : 0
+    if (animal.speed > 0) this.walk(animal, dt)
+  }
+
+  private startFleeing(animal: Animal, dog: Vector3) {
+    animal.state = 'flee'
+    animal.heading = Math.atan2(animal.position.z - dog.z, animal.position.x - dog.x)
+    const { perch } = SPECIES[animal.kind]
+    animal.perch = perch === 'none' ? null : this.findPerch(animal, dog)
+    if (!animal.perch && perch === 'canopy') animal.perch = this.findLanding(animal)
+  }
+
+  private flee(animal: Animal, dt: number, dog: Vector3, distance: number) {
+    const species = SPECIES[animal.kind]
+    animal.speed = animal.stamina > 0 ? species.fleeSpeed : species.tiredSpeed
+
+    if (animal.perch) {
+      this.moveToPerch(animal, dt)
+      return
+    }
+
+    if (distance > species.safeRadius) {
+      animal.state = 'rest'
+      animal.timer = 1 + animal.rand() * 2
+      animal.home.copy(animal.position)
+      animal.home.y = this.terrain.getHeightAt(animal.home.x, animal.home.z)
+      return
+    }
+
+    // Away from the dog, zigzagging so a straight dash does not catch it.
+    const away = Math.atan2(animal.position.z - dog.z, animal.position.x - dog.x)
+    const zigzag = Math.sin(animal.stride * 0.35) * 0.6
+    const turn = wrapAngleRadians(away + zigzag - animal.heading + Math.PI) - Math.PI
+    animal.heading += turn * Math.min(1, dt * 6)
+    this.walk(animal, dt)
+  }
+
+  private moveToPerch(animal: Animal, dt: number) {
+    const perch = animal.perch!
+    const { position } = animal
+    const dx = perch.x - position.x
+    const dz = perch.z - position.z
+    const across = Math.hypot(dx, dz)
+    const step = animal.speed * dt
+
+    if (SPECIES[animal.kind].perch === 'canopy') {
+      // Flies straight there, climbing first so it clears the ground.
+      const ground = this.terrain.getHeightAt(position.x, position.z)
+      const toGo = Math.hypot(across, perch.y - position.y)
+      if (toGo <= step) {
+        position.copy(perch)
+        this.settle(animal)
+        return
+      }
+      animal.heading = Math.atan2(dz, dx)
+      position.x += (dx / toGo) * step
+      position.z += (dz / toGo) * step
+      position.y = Math.max(ground + 1.5, position.y + ((perch.y - position.y) / toGo) * step)
+      animal.stride += step
+      return
+    }
+
+    // Runs to the trunk, then climbs.
+    if (across > 0.4) {
+      animal.heading = Math.atan2(dz, dx)
+      const move = Math.min(step, across)
+      position.x += (dx / across) * move
+      position.z += (dz / across) * move
+      position.y = this.terrain.getHeightAt(position.x, position.z)
+    } else {
+      position.y = Math.min(perch.y, position.y + step * 0.6)
+      if (position.y >= perch.y) this.settle(animal)
+    }
+    animal.stride += step
+  }
+
+  private settle(animal: Animal) {
+    animal.state = 'perch'
+    animal.speed = 0
+    animal.timer = 4 + animal.rand() * 4
+  }
+
+  /** Sits in the tree until the dog has been gone for a while, then comes down. */
+  private sit(animal: Animal, dt: number, distance: number) {
+    const species = SPECIES[animal.kind]
+    const { position } = animal
+    const ground = this.terrain.getHeightAt(position.x, position.z)
+
+    if (this.isUp(animal)) {
+      if (distance < species.safeRadius) {
+        animal.timer = Math.max(animal.timer, 3)
+        return
+      }
+      animal.timer -= dt
+      if (animal.timer > 0) return
+
+      // Down again: climbing takes a while, a bird glides off to a spot nearby.
+      const descend = (species.perch === 'canopy' ? species.fleeSpeed * 0.5 : species.wanderSpeed) * dt
+      const x = position.x + Math.cos(animal.heading) * descend
+      const z = position.z + Math.sin(animal.heading) * descend
+      if (species.perch === 'canopy' && this.canStand(x, z)) {
+        position.x = x
+        position.z = z
+      }
+      position.y = Math.max(this.terrain.getHeightAt(position.x, position.z), position.y - descend)
+      animal.stride += descend
+      return
+    }
+
+    position.y = ground
+    animal.perch = null
+    animal.home.set(position.x, ground, position.z)
+    animal.state = 'rest'
+    animal.timer = 1 + animal.rand() * 3
+  }
+
+  private isUp(animal: Animal) {
+    const { position } = animal
+    return position.y > this.terrain.getHeightAt(position.x, position.z) + 0.05
+  }
+
+  /** Nearest tree not on the dog's side; null when there is none close. */
+  private findPerch(animal: Animal, dog: Vector3) {
+    const { position, rand } = animal
+    let best: Tree | null = null
+    let bestDistance = PERCH_SEARCH
+    for (const tree of this.trees) {
+      const d = Math.hypot(tree.x - position.x, tree.z - position.z)
+      if (d >= bestDistance) continue
+      // Running past the dog is no escape.
+      if (Math.hypot(tree.x - dog.x, tree.z - dog.z) < d) continue
+      best = tree
+      bestDistance = d
+    }
+    if (!best) return null
+
+    const canopy = SPECIES[animal.kind].perch === 'canopy'
+    const height = best.height * (canopy ? 0.85 + rand() * 0.1 : 0.25 + rand() * 0.15)
+    const side = rand() * Math.PI * 2
+    // Trunks are about half a metre thick; birds sit out on a branch.
+    const offset = canopy ? 1.5 + rand() * 1.5 : 0.6
+    return new Vector3(best.x + Math.cos(side) * offset, best.y + height, best.z + Math.sin(side) * offset)
+  }
+
+  /** Somewhere on the ground well away from the dog, for a bird with no tree nearby. */
+  private findLanding(animal: Animal) {
+    const { position, rand } = animal
+    for (let tries = 0; tries < 8; tries++) {
+      const heading = animal.heading + (rand() - 0.5) * 1.5
+      const r = 25 + rand() * 20
+      const x = position.x + Math.cos(heading) * r
+      const z = position.z + Math.sin(heading) * r
+      if (this.canStand(x, z)) return new Vector3(x, this.terrain.getHeightAt(x, z), z)
+    }
+    return null
+  }
+
+  /** Steps along the heading over the ground, turning away from anything the dog could not walk on either. */
+  private walk(animal: Animal, dt: number) {
+    const { position } = animal
+    const step = animal.speed * dt
+
+    for (const turn of TURNS) {
+      const heading = animal.heading + turn
+      const x = position.x + Math.cos(heading) * step
+      const z = position.z + Math.sin(heading) * step
+      if (!this.canStand(x, z)) continue
+
+      animal.heading = heading
+      position.set(x, this.terrain.getHeightAt(x, z), z)
+      animal.stride += step
+      return
+    }
+    // Cornered: turn around and try again next step.
+    animal.heading += Math.PI
+  }
+
+  private canStand(x: number, z: number) {
+    const { width, depth } = this.terrain.config
+    if (Math.abs(x) > width / 2 - 5 || Math.abs(z) > depth / 2 - 5) return false
+    return this.nav.isWalkable(x, z) && !this.terrain.isUnderwater(x, z, 0.1)
+  }
+
+  private pickHome(kind: AnimalKind, rand: Rng) {
+    const { terrain } = this
+    const { width, depth, borderWidth } = terrain.config
+    const halfW = width / 2 - borderWidth
+    const halfD = depth / 2 - borderWidth
+
+    for (let tries = 0; tries < 40; tries++) {
+      let x: number
+      let z: number
+      if (kind !== 'rabbit' && this.trees.length > 0) {
+        // Squirrels and birds live by the trees.
+        const tree = this.trees[Math.floor(rand() * this.trees.length)]
+        const angle = rand() * Math.PI * 2
+        const r = 2 + rand() * 6
+        x = tree.x + Math.cos(angle) * r
+        z = tree.z + Math.sin(angle) * r
+      } else {
+        x = (rand() * 2 - 1) * halfW
+        z = (rand() * 2 - 1) * halfD
+        // Rabbits like open grass.
+        if (rand() > terrain.biomes.weightsAt(x, z).grass) continue
+      }
+      x = clamp(x, -halfW, halfW)
+      z = clamp(z, -halfD, halfD)
+      if (!this.canStand(x, z)) continue
+      return new Vector3(x, terrain.getHeightAt(x, z), z)
+    }
+    const x = (rand() * 2 - 1) * 50
+    const z = (rand() * 2 - 1) * 50
+    return new Vector3(x, terrain.getHeightAt(x, z), z)
+  }
+}
@@ -0,0 +1,196 @@
+import {
+  BufferGeometry,
+  Color,
+  ConeGeometry,
+  DoubleSide,
+  Float32BufferAttribute,
+  Group,
+  InstancedMesh,
+  Matrix4,
+  MeshStandardMaterial,
+  Quaternion,
+  SphereGeometry,
+  Vector3,
+} from 'three'
+import { mergeGeometries } from 'three/examples/jsm/utils/BufferGeometryUtils.js'
+
+import type { Terrain } from '../world/Terrain'
+import type { Animal, AnimalKind } from './Wildlife'
+
+export type WildlifeMeshesConfig = {
+  /** Animals farther than this from the dog are not drawn. */
+  drawDistance: number
+}
+
+// A piece of an animal: a sphere or cone stretched to `size` (a cone's length is y) and put at `at`; models face +X.
+export type Part = { shape: 'sphere' | 'cone'; size: [number, number, number]; at: [number, number, number]; color: string }
+
+const BODIES: Record<AnimalKind, Part[]> = {
+  rabbit: [
+    { shape: 'sphere', size: [0.22, 0.16, 0.14], at: [0, 0.16, 0], color: '#9c8468' },
+    { shape: 'sphere', size: [0.1, 0.1, 0.09], at: [0.17, 0.27, 0], color: '#a48b6e' },
+    { shape: 'sphere', size: [0.03, 0.1, 0.035], at: [0.14, 0.4, 0.04], color: '#a48b6e' },
+    { shape: 'sphere', size: [0.03, 0.1, 0.035], at: [0.14, 0.4, -0.04], color: '#a48b6e' },
+    { shape: 'sphere', size: [0.05, 0.05, 0.05], at: [-0.22, 0.2, 0], color: '#f2eee6' },
+  ],
+  squirrel: [
+    { shape: 'sphere', size: [0.13, 0.09, 0.08], at: [0, 0.1, 0], color: '#a4552a' },
+    { shape: 'sphere', size: [0.06, 0.06, 0.055], at: [0.12, 0.16, 0], color: '#a4552a' },
+    { shape: 'sphere', size: [0.08, 0.17, 0.05], at: [-0.15, 0.24, 0], color: '#c47a3f' },
+  ],
+  bird: [
+    { shape: 'sphere', size: [0.09, 0.065, 0.065], at: [0, 0.08, 0], color: '#4a5563' },
+    { shape: 'sphere', size: [0.045, 0.045, 0.045], at: [0.08, 0.13, 0], color: '#3b4350' },
+    { shape: 'cone', size: [0.015, 0.04, 0.015], at: [0.13, 0.13, 0], color: '#e0a030' },
+    { shape: 'sphere', size: [0.06, 0.02, 0.03], at: [-0.1, 0.09, 0], color: '#3b4350' },
+  ],
+}
+
+const UP = new Vector3(0, 1, 0)
+const SIDE = new Vector3(0, 0, 1)
+
+/**
+ * Instanced low-poly animals: one mesh per kind, plus the birds' wings so they
+ * can flap. Rabbits hop and squirrels bound as they move; squirrels on a trunk
+ * point nose up.
+ */
+export class WildlifeMeshes {
+  readonly group = new Group()
+
+  private readonly cfg: WildlifeMeshesConfig
+  private readonly bodies: Record<AnimalKind, InstancedMesh>
+  private readonly wings: InstancedMesh
+  private readonly matrix = new Matrix4()
+  private readonly position = new Vector3()
+  private readonly rotation = new Quaternion()
+  private readonly pitch = new Quaternion()
+  private readonly scale = new Vector3()
+  private time = 0
+
+  constructor(
+    private readonly terrain: Terrain,
+    counts: Record<AnimalKind, number>,
+    config?: Partial<WildlifeMeshesConfig>,
+  ) {
+    this.cfg = { drawDistance: 110, ...config }
+
+    const material = new MeshStandardMaterial({ vertexColors: true, roughness: 0.9 })
+    const build = (kind: AnimalKind) => createInstances(buildBody(BODIES[kind]), material, counts[kind])
+    this.bodies = { rabbit: build('rabbit'), squirrel: build('squirrel'), bird: build('bird') }
+
+    this.wings = createInstances(
+      buildWings(),
+      new MeshStandardMaterial({ color: '#3b4350', roughness: 0.9, side: DoubleSide }),
+      counts.bird,
+    )
+
+    this.group.add(this.bodies.rabbit, this.bodies.squirrel, this.bodies.bird, this.wings)
+  }
+
+  update(dt: number, animals: Animal[], dog: Vector3) {
+    this.time += dt
+    const counts: Record<AnimalKind, number> = { rabbit: 0, squirrel: 0, bird: 0 }
+    let wingCount = 0
+    const { matrix, position, rotation, pitch, scale, terrain } = this
+    const maxD2 = this.cfg.drawDistance * this.cfg.drawDistance
+
+    for (const animal of animals) {
+      if (animal.state === 'caught') continue
+      const p = animal.position
+      const dx = p.x - dog.x
+      const dz = p.z - dog.z
+      if (dx * dx + dz * dz > maxD2) continue
+
+      const ground = terrain.getHeightAt(p.x, p.z)
+      const airborne = p.y > ground + 0.05
+      position.copy(p)
+      rotation.setFromAxisAngle(UP, -animal.heading)
+      scale.set(1, 1, 1)
+
+      if (animal.kind === 'bird') {
+        // Flaps in the air, folds its wings on the ground or a branch.
+        const flying = airborne && animal.speed > 0
+        if (!airborne && animal.speed > 0) position.y += Math.abs(Math.sin(animal.stride * 9)) * 0.05
+        matrix.compose(position, rotation, scale)
+        this.bodies.bird.setMatrixAt(counts.bird++, matrix)
+
+        const flap = flying ? Math.sin(this.time * 18 + animal.stride) : 0.15
+        scale.set(1, flap, flying ? 1 : 0.3)
+        position.y += 0.1
+        matrix.compose(position, rotation, scale)
+        this.wings.setMatrixAt(wingCount++, matrix)
+        continue
+      }
+
+      if (animal.kind === 'squirrel' && airborne) {
+        // Head up the trunk.
+        rotation.multiply(pitch.setFromAxisAngle(SIDE, Math.PI / 2))
+      } else if (animal.speed > 0) {
+        const bound = animal.kind === 'rabbit' ? 0.28 : 0.12
+        const rate = animal.kind === 'rabbit' ? 1.6 : 2.6
+        position.y += Math.abs(Math.sin(animal.stride * rate)) * bound * Math.min(1, animal.speed / 3)
+      }
+
+      matrix.compose(position, rotation, scale)
+      this.bodies[animal.kind].setMatrixAt(counts[animal.kind]++, matrix)
+    }
+
+    for (const kind of Object.keys(this.bodies) as AnimalKind[]) {
+      const mesh = this.bodies[kind]
+      mesh.count = counts[kind]
+      mesh.instanceMatrix.needsUpdate = true
+    }
+    this.wings.count = wingCount
+    this.wings.instanceMatrix.needsUpdate = true
+  }
+
+  dispose() {
+    for (const mesh of [...Object.values(this.bodies), this.wings]) {
+      mesh.geometry.dispose()
+      ;(mesh.material as MeshStandardMaterial).dispose()
+    }
+    this.group.clear()
+  }
+}
+
+export function createInstances(geometry: BufferGeometry, material: MeshStandardMaterial, capacity: number) {
+  const mesh = new InstancedMesh(geometry, material, Math.max(1, capacity))
+  mesh.count = 0
+  mesh.castShadow = true
+  mesh.frustumCulled = false
+  return mesh
+}
+
+export function buildBody(parts: Part[]) {
+  const geometries = parts.map((part) => {
+    const geometry = part.shape === 'sphere' ? new SphereGeometry(1, 10, 8) : new ConeGeometry(1, 1, 6)
+    geometry.scale(...part.size)
+    // Cones point along +Y; beaks point forward.
+    if (part.shape === 'cone') geometry.rotateZ(-Math.PI / 2)
+    geometry.translate(...part.at)
+
+    const color = new Color(part.color)
+    const count = geometry.getAttribute('position').count
+    const colors = new Float32Array(count * 3)
+    for (let i = 0; i < count; i++) color.toArray(colors, i * 3)
+    geometry.setAttribute('color', new Float32BufferAttribute(colors, 3))
+    return geometry
+  })
+
+  const body = mergeGeometries(geometries)!
+  for (const geometry of geometries) geometry.dispose()
+  return body
+}
+
+/** Two flat wings from the root along the body to the tips; the tips rise with the instance's y scale. */
+function buildWings() {
+  const geometry = new BufferGeometry()
+  // Front root, back root, tip; one triangle per side.
+  const positions = [
+    [0.04, 0, 0.03, -0.06, 0, 0.03, -0.03, 0.08, 0.22],
+    [0.04, 0, -0.03, -0.03, 0.08, -0.22, -0.06, 0, -0.03],
+  ].flat()
+  geometry.setAttribute('position', new Float32BufferAttribute(positions, 3))
+  geometry.computeVertexNormals()
+  return geometry
+}
@@ -4,12 +4,15 @@ import {
   AnimationObjectGroup,
   Box3,
   Group,
+  MeshStandardMaterial,
   Object3D,
   Vector3,
 } from 'three'
 
+import { BIOME_DENSITY } from './Biomes'
 import type { Terrain } from './Terrain'
 import { loadBerryModel } from '../assets/loadBerry'
+import { mulberry32 } from '../utils/random'
 
 export type BerriesConfig = {
   seed: number
@@ -19,8 +22,15 @@ export type BerriesConfig = {
   clusterRadius: number
   minDistanceFromSpawn: number
   pickupRadius: number
+  /** Hand-placed berries (x, z), added to every round after the seeded clusters. */
+  fixed: [number, number][]
+  /** When false the berry model is never fetched (headless simulation). */
+  loadModel: boolean
 }
 
+// Seeded berries stay at least this far above the water.
+const SHORE_MARGIN = 0.3
+
 type BerryInstance = {
   position: Vector3
   collected: boolean
@@ -36,6 +46,7 @@ export class Berries {
   private cfg: BerriesConfig
 
   private readonly instances: BerryInstance[] = []
+  private readonly clusterCenters: Vector3[] = []
 
   private template: Group | null = null
   private clips: AnimationClip[] = []
@@ -45,6 +56,10 @@ export class Berries {
 
   private animTime = 0
 
+  // Template materials are shared by every clone, so the night glow is set once here.
+  private glowMaterials: MeshStandardMaterial[] = []
+  private glow = 0
+
   private modelLoadPromise: Promise<void> | null = null
 
   constructor(
@@ -60,10 +75,12 @@ export class Berries {
       clusterRadius: 14,
       minDistanceFromSpawn: 40,
       pickupRadius: 1.8,
+      fixed: [],
+      loadModel: true,
       ...config,
     }
 
-    this.modelLoadPromise = this.ensureModel()
+    this.modelLoadPromise = this.cfg.loadModel ? this.ensureModel() : null
     this.reset()
   }
 
@@ -86,16 +103,31 @@ export class Berries {
     this.template = root
     this.clips = clips
 
+    root.traverse((obj) => {
+      const mesh = obj as any
+      if (!mesh.isMesh) return
+      for (const material of [mesh.material].flat()) {
+        if (!(material instanceof MeshStandardMaterial)) continue
+        material.emissive.copy(material.color)
+        material.emissiveMap = material.map
+        material.needsUpdate = true
+        this.glowMaterials.push(material)
+      }
+    })
+    this.setGlow(this.glow)
+
     this.rebuildObjects()
   }
 
-  reset() {
+  /** Scatters a new set of berry clusters; the same seed always gives the same layout. */
+  reset(seed = this.cfg.seed, totalCount = this.cfg.totalCount) {
     this.instances.length = 0
+    this.clusterCenters.length = 0
     this.animTime = 0
 
-    const rand = mulberry32(this.cfg.seed + Math.floor(Math.random() * 1_000_000))
+    const rand = mulberry32(seed)
 
-    const targetCount = this.cfg.totalCount
+    const targetCount = totalCount
     const clusters: { center: Vector3; count: number }[] = []
 
     let remaining = targetCount
@@ -110,6 +142,7 @@ export class Berries {
 
     for (const cluster of clusters) {
       let tries = 0
+      let fallback: Vector3 | null = null
       while (tries < 80) {
         tries++
 
@@ -118,52 +151,98 @@ export class Berries {
 
         if (x * x + z * z < this.cfg.minDistanceFromSpawn * this.cfg.minDistanceFromSpawn) continue
 
+        if (this.terrain.isUnderwater(x, z, SHORE_MARGIN)) continue
         const slope = estimateSlopeRadians(this.terrain, x, z)
         if (slope > (45 * Math.PI) / 180) continue
 
         const y = this.terrain.getHeightAt(x, z)
+
+        // Clusters prefer meadows; if no spot passes, the first usable one is kept.
+        fallback ??= new Vector3(x, y, z)
+        if (rand() >= BIOME_DENSITY[this.terrain.biomes.biomeAt(x, z)].berries) continue
+
         cluster.center.set(x, y, z)
+        fallback = null
         break
       }
+      if (fallback) cluster.center.copy(fallback)
 
-      for (let i = 0; i < cluster.count; i++) {
-        let placed = false
-        let berryTries = 0
+      this.clusterCenters.push(cluster.center)
+      this.scatterCluster(rand, cluster.center, cluster.count)
+    }
 
-        while (!placed && berryTries < 30) {
-          berryTries++
+    this.cfg.fixed.forEach(([x, z], i) => {
+      this.instances.push({
+        position: new Vector3(x, this.terrain.getHeightAt(x, z) + 0.6, z),
+        collected: false,
+        baseScale: 1,
+        phase: i * 1.7,
+        popTime: 0,
+        object: null,
+      })
+    })
 
-          const angle = rand() * Math.PI * 2
-          const r = Math.sqrt(rand()) * this.cfg.clusterRadius
+    // Rebuild if model already loaded.
+    this.rebuildObjects()
+  }
 
-          const x = cluster.center.x + Math.cos(angle) * r
-          const z = cluster.center.z + Math.sin(angle) * r
+  /**
+   * Adds a cluster of `count` berries around (x, z) to the current round, e.g.
+   * where the world validator finds the dog would starve on the way to the owner.
+   */
+  addCluster(seed: number, x: number, z: number, count = this.cfg.clusterMax) {
+    const center = new Vector3(x, this.terrain.getHeightAt(x, z), z)
+    this.clusterCenters.push(center)
+    this.scatterCluster(mulberry32(seed), center, count)
+    this.rebuildObjects()
+  }
 
-          if (x * x + z * z < this.cfg.minDistanceFromSpawn * this.cfg.minDistanceFromSpawn) continue
+  /** Every berry of the round, collected or not, in placement order. */
+  getPositions() {
+    return this.instances.map((b) => b.position)
+  }
 
-          const slope = estimateSlopeRadians(this.terrain, x, z)
-          if (slope > (50 * Math.PI) / 180) continue
+  /** Centres of the round's seeded and added clusters (not the hand-placed berries), in placement order. */
+  getClusterCenters() {
+    return this.clusterCenters
+  }
 
-          const y = this.terrain.getHeightAt(x, z)
+  private scatterCluster(rand: () => number, center: Vector3, count: number) {
+    for (let i = 0; i < count; i++) {
+      let placed = false
+      let berryTries = 0
 
-          const s = 0.85 + rand() * 0.55
+      while (!placed && berryTries < 30) {
+        berryTries++
 
-          this.instances.push({
-            position: new Vector3(x, y + 0.6, z),
-            collected: false,
-            baseScale: s,
-            phase: rand() * Math.PI * 2,
-            popTime: 0,
-            object: null,
-          })
+        const angle = rand() * Math.PI * 2
+        const r = Math.sqrt(rand()) * this.cfg.clusterRadius
 
-          placed = true
-        }
+        const x = center.x + Math.cos(angle) * r
+        const z = center.z + Math.sin(angle) * r
+
+        if (x * x + z * z < this.cfg.minDistanceFromSpawn * this.cfg.minDistanceFromSpawn) continue
+
+        if (this.terrain.isUnderwater(x, z, SHORE_MARGIN)) continue
+        const slope = estimateSlopeRadians(this.terrain, x, z)
+        if (slope > (50 * Math.PI) / 180) continue
+
+        const y = this.terrain.getHeightAt(x, z)
+
+        const s = 0.85 + rand() * 0.55
+
+        this.instances.push({
+          position: new Vector3(x, y + 0.6, z),
+          collected: false,
+          baseScale: s,
+          phase: rand() * Math.PI * 2,
+          popTime: 0,
+          object: null,
+        })
+
+        placed = true
       }
     }
-
-    // Rebuild if model already loaded.
-    this.rebuildObjects()
   }
 
   private rebuildObjects() {
@@ -261,6 +340,12 @@ export class Berries {
     }
   }
 
+  /** Makes the berries glow in their own colors; 0 by day, 1 at full night. */
+  setGlow(amount: number) {
+    this.glow = amount
+    for (const material of this.glowMaterials) material.emissiveIntensity = amount * 0.8
+  }
+
   /** Returns how many berries were collected this call. */
   collectNear(position: Vector3, radius = this.cfg.pickupRadius) {
     const r2 = radius * radius
@@ -278,6 +363,20 @@ export class Berries {
     return collected
   }
 
+  /** Per-berry collected flags, in placement order (same seed = same order). */
+  getCollectedStates() {
+    return this.instances.map((b) => b.collected)
+  }
+
+  /** Restores flags from `getCollectedStates`; extra or missing entries are ignored. */
+  setCollectedStates(states: boolean[]) {
+    this.instances.forEach((b, i) => {
+      b.collected = states[i] ?? false
+      b.popTime = 0
+      if (b.object) b.object.visible = !b.collected
+    })
+  }
+
   getNearestUncollected(from: Vector3) {
     let best: Vector3 | null = null
     let bestD2 = Infinity
@@ -304,6 +403,7 @@ export class Berries {
     this.mixer = null
     this.template = null
     this.clips = []
+    this.glowMaterials = []
   }
 }
 
@@ -320,14 +420,3 @@ function estimateSlopeRadians(terrain: Terrain, x: number, z: number) {
   const tan = Math.sqrt(dx * dx + dz * dz)
   return Math.atan(tan)
 }
-
-function mulberry32(seed: number) {
-  let a = seed | 0
-  return function () {
-    a |= 0
-    a = (a + 0x6d2b79f5) | 0
-    let t = Math.imul(a ^ (a >>> 15), 1 | a)
-    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t
-    return ((t ^ (t >>> 14)) >>> 0) / 4294967296
-  }
-}
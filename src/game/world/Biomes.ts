@@ -0,0 +1,176 @@
+import { createNoise2D } from 'simplex-noise'
+
+import { clamp01, smoothstep } from '../utils/math'
+import { deriveSeed, mulberry32 } from '../utils/random'
+import type { Terrain } from './Terrain'
+
+/** Ground layers; all but grass are stored in the splat map, grass gets what is left. */
+export type GroundLayer = 'grass' | 'dirt' | 'rock' | 'sand' | 'snow'
+
+/**
+ * What a spot is like for placement: the dominant ground layer, with grass
+ * split into wet `meadow` and drier `woods`.
+ */
+export type Biome = 'meadow' | 'woods' | 'scrub' | 'rocks' | 'shore' | 'snow'
+
+export type BiomeConfig = {
+  /** Snow starts around this fraction of `maxHeight`. */
+  snowLine: number
+  /** Sand from the lake and river beds up to this many metres above the water. */
+  shoreHeight: number
+  /** Slope in degrees where bare rock takes over. */
+  rockSlope: number
+  /** Below this moisture the ground turns to dirt. */
+  dryMoisture: number
+  /** Grass with at least this moisture counts as meadow. */
+  meadowMoisture: number
+  /** Feature size of the moisture noise, in metres. */
+  moistureScale: number
+}
+
+/** Relative chance to keep a candidate spot, per biome; rejected spots are re-rolled. */
+export const BIOME_DENSITY: Record<Biome, { trees: number; rocks: number; berries: number }> = {
+  meadow: { trees: 0.35, rocks: 0.3, berries: 1 },
+  woods: { trees: 1, rocks: 0.6, berries: 0.25 },
+  scrub: { trees: 0.5, rocks: 0.8, berries: 0.15 },
+  rocks: { trees: 0, rocks: 1, berries: 0.05 },
+  shore: { trees: 0.15, rocks: 0.5, berries: 0.2 },
+  snow: { trees: 0.2, rocks: 0.6, berries: 0 },
+}
+
+const DEG = Math.PI / 180
+
+/**
+ * Ground layers per terrain grid vertex, from height, slope and a moisture
+ * noise field. `splat` feeds the terrain shader; the queries drive placement.
+ */
+export class Biomes {
+  readonly config: BiomeConfig
+  /** RGBA = dirt, rock, sand, snow weights (0–255) per vertex, row by row in z, x fastest. */
+  readonly splat: Uint8Array
+  /** 0–1 per vertex, same layout as `splat` without the channels. */
+  readonly moisture: Float32Array
+
+  constructor(
+    private readonly terrain: Terrain,
+    config?: Partial<BiomeConfig>,
+  ) {
+    this.config = {
+      snowLine: 0.55,
+      shoreHeight: 2.5,
+      rockSlope: 30,
+      dryMoisture: 0.3,
+      meadowMoisture: 0.55,
+      moistureScale: 260,
+      ...config,
+    }
+
+    const { size } = terrain.config
+    this.splat = new Uint8Array(size * size * 4)
+    this.moisture = new Float32Array(size * size)
+    this.generate()
+  }
+
+  /** Weights of every ground layer at (x, z), summing to 1. */
+  weightsAt(x: number, z: number): Record<GroundLayer, number> {
+    const splat = [0, 0, 0, 0]
+    this.sample(x, z, (i, w) => {
+      for (let c = 0; c < 4; c++) splat[c] += this.splat[i * 4 + c] * w
+    })
+
+    const [dirt, rock, sand, snow] = splat.map((v) => v / 255)
+    return { grass: Math.max(0, 1 - dirt - rock - sand - snow), dirt, rock, sand, snow }
+  }
+
+  moistureAt(x: number, z: number) {
+    let m = 0
+    this.sample(x, z, (i, w) => {
+      m += this.moisture[i] * w
+    })
+    return m
+  }
+
+  biomeAt(x: number, z: number): Biome {
+    const weights = this.weightsAt(x, z)
+
+    let layer: GroundLayer = 'grass'
+    for (const key of ['dirt', 'rock', 'sand', 'snow'] as const) {
+      if (weights[key] > weights[layer]) layer = key
+    }
+
+    switch (layer) {
+      case 'dirt':
+        return 'scrub'
+      case 'rock':
+        return 'rocks'
+      case 'sand':
+        return 'shore'
+      case 'snow':
+        return 'snow'
+      default:
+        return this.moistureAt(x, z) >= this.config.meadowMoisture ? 'meadow' : 'woods'
+    }
+  }
+
+  /** Calls `visit` with the index and bilinear weight of the 4 vertices around (x, z). */
+  private sample(x: number, z: number, visit: (index: number, weight: number) => void) {
+    const { terrain } = this
+    const { size, width, depth } = terrain.config
+
+    const gx = Math.min(Math.max((x + width / 2) / terrain.stepX, 0), size - 1)
+    const gz = Math.min(Math.max((z + depth / 2) / terrain.stepZ, 0), size - 1)
+    const x0 = Math.min(Math.floor(gx), size - 2)
+    const z0 = Math.min(Math.floor(gz), size - 2)
+    const fx = gx - x0
+    const fz = gz - z0
+
+    visit(z0 * size + x0, (1 - fx) * (1 - fz))
+    visit(z0 * size + x0 + 1, fx * (1 - fz))
+    visit((z0 + 1) * size + x0, (1 - fx) * fz)
+    visit((z0 + 1) * size + x0 + 1, fx * fz)
+  }
+
+  private generate() {
+    const { terrain, config } = this
+    const { size, maxHeight, seed, waterLevel } = terrain.config
+    const noise2D = createNoise2D(mulberry32(deriveSeed(seed, 'moisture')))
+
+    const snowLine = config.snowLine * maxHeight
+    const sandLine = waterLevel + config.shoreHeight
+    const band = maxHeight * 0.08
+
+    for (let gz = 0; gz < size; gz++) {
+      for (let gx = 0; gx < size; gx++) {
+        const x = terrain.gridToWorldX(gx)
+        const z = terrain.gridToWorldZ(gz)
+        const h = terrain.heightAtGrid(gx, gz)
+
+        const dx = (terrain.heightAtGrid(gx + 1, gz) - terrain.heightAtGrid(gx - 1, gz)) / (2 * terrain.stepX)
+        const dz = (terrain.heightAtGrid(gx, gz + 1) - terrain.heightAtGrid(gx, gz - 1)) / (2 * terrain.stepZ)
+        const slope = Math.atan(Math.hypot(dx, dz))
+
+        // Two octaves of noise, wetter in the valleys.
+        const f = 1 / config.moistureScale
+        const n = noise2D(x * f, z * f) * 0.7 + noise2D(x * f * 3, z * f * 3) * 0.3
+        const moisture = clamp01(0.5 + n * 0.5 - (h / maxHeight) * 0.15)
+
+        // Layers are stacked: snow covers rock, rock covers sand, sand covers dirt, dirt covers grass.
+        const snow = smoothstep(snowLine - band, snowLine + band, h) * (1 - 0.8 * smoothstep(35 * DEG, 50 * DEG, slope))
+        let rest = 1 - snow
+        const rock = smoothstep((config.rockSlope - 6) * DEG, (config.rockSlope + 6) * DEG, slope) * rest
+        rest -= rock
+        const sand = (1 - smoothstep(sandLine - 1, sandLine + 1, h)) * rest
+        rest -= sand
+        const dry = 1 - smoothstep(config.dryMoisture - 0.12, config.dryMoisture + 0.05, moisture)
+        const dirt = Math.max(dry, 0.6 * smoothstep(18 * DEG, 28 * DEG, slope)) * rest
+
+        const i = gz * size + gx
+        this.moisture[i] = moisture
+        this.splat[i * 4] = Math.round(dirt * 255)
+        this.splat[i * 4 + 1] = Math.round(rock * 255)
+        this.splat[i * 4 + 2] = Math.round(sand * 255)
+        this.splat[i * 4 + 3] = Math.round(snow * 255)
+      }
+    }
+  }
+}
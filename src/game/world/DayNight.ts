@@ -0,0 +1,121 @@
+import { Color, DirectionalLight, Fog, Group, HemisphereLight, Scene, Vector3 } from 'three'
+
+import type { LevelFile } from '../levels/LevelFile'
+import { smoothstep } from '../utils/math'
+
+const UP = new Vector3(0, 1, 0)
+
+/** Height of the sun above the horizon as sin(elevation), -1..1; time 0 is midnight, 0.5 noon. */
+export function sunHeightAt(time: number) {
+  return -Math.cos(time * Math.PI * 2)
+}
+
+/** 1 in full daylight, 0 at night, with a short twilight around sunrise and sunset. */
+export function daylightAt(time: number) {
+  return smoothstep(-0.08, 0.12, sunHeightAt(time))
+}
+
+/**
+ * Lights and sky for the time of day. The level's `lighting` is noon and
+ * `dayNight.night` is midnight; the sun rises in the east, passes through the
+ * level's sun position at noon and sets in the west, and the moon is opposite.
+ */
+export class DayNight {
+  readonly group = new Group()
+  readonly sun: DirectionalLight
+  /** Unit vector towards the sun; `SunShadows` moves the light itself around the dog. */
+  readonly sunDirection = new Vector3()
+
+  /** 0 in daylight, 1 at night; drives window lights and glowing berries. */
+  night = 0
+  /** 1 while the sun is near the horizon, 0 at noon and midnight. */
+  twilight = 0
+
+  private readonly moon: DirectionalLight
+  private readonly hemi: HemisphereLight
+  private readonly fog: Fog
+
+  private readonly noonDir: Vector3
+  private readonly eastDir: Vector3
+  private readonly distance: number
+
+  private readonly day
+  private readonly nightColors
+  private readonly dusk: Color
+  private readonly moonIntensity: number
+  private readonly nightHemisphere: number
+
+  constructor(
+    private readonly scene: Scene,
+    private readonly lighting: LevelFile['lighting'],
+    dayNight: LevelFile['dayNight'],
+  ) {
+    const { hemisphere, sun, fog } = lighting
+    const { night } = dayNight
+
+    this.day = {
+      background: new Color(lighting.background),
+      fog: new Color(fog.color),
+      sky: new Color(hemisphere.sky),
+      ground: new Color(hemisphere.ground),
+    }
+    this.nightColors = {
+      background: new Color(night.background),
+      fog: new Color(night.fog),
+      sky: new Color(night.hemisphere.sky),
+      ground: new Color(night.hemisphere.ground),
+    }
+    this.dusk = new Color(dayNight.dusk)
+    this.moonIntensity = night.moon.intensity
+    this.nightHemisphere = night.hemisphere.intensity
+
+    const noon = new Vector3(...sun.position)
+    this.distance = noon.length()
+    this.noonDir = noon.normalize()
+    this.eastDir = new Vector3().crossVectors(UP, new Vector3(this.noonDir.x, 0, this.noonDir.z)).normalize()
+    if (this.eastDir.lengthSq() < 1e-6) this.eastDir.set(1, 0, 0)
+
+    this.hemi = new HemisphereLight(hemisphere.sky, hemisphere.ground, hemisphere.intensity)
+
+    this.sun = new DirectionalLight(sun.color, sun.intensity)
+    this.sun.position.copy(noon).multiplyScalar(this.distance)
+    this.sunDirection.copy(this.noonDir)
+
+    this.moon = new DirectionalLight(night.moon.color, night.moon.intensity)
+
+    this.group.add(this.hemi, this.sun, this.sun.target, this.moon)
+
+    this.fog = new Fog(fog.color, fog.near, fog.far)
+    scene.fog = this.fog
+    scene.background = this.day.background.clone()
+  }
+
+  update(time: number) {
+    const { lighting, scene } = this
+    const angle = (time - 0.25) * Math.PI * 2
+    const daylight = daylightAt(time)
+    this.night = 1 - daylight
+
+    // Sunrise (angle 0) in the east, noon at the level's sun position.
+    const dir = this.sunDirection.copy(this.eastDir).multiplyScalar(Math.cos(angle)).addScaledVector(this.noonDir, Math.sin(angle))
+    this.sun.position.copy(this.sun.target.position).addScaledVector(dir, this.distance)
+    this.moon.position.copy(dir).multiplyScalar(-this.distance)
+
+    this.sun.intensity = lighting.sun.intensity * daylight
+    this.sun.visible = daylight > 0
+    this.moon.intensity = this.moonIntensity * this.night
+    this.moon.visible = this.night > 0
+
+    // Warm tint while the sun is near the horizon.
+    const duskAmount = 1 - smoothstep(0, 0.3, Math.abs(sunHeightAt(time)))
+    this.twilight = duskAmount
+
+    const background = scene.background as Color
+    background.copy(this.nightColors.background).lerp(this.day.background, daylight).lerp(this.dusk, duskAmount * 0.5)
+    this.fog.color.copy(this.nightColors.fog).lerp(this.day.fog, daylight).lerp(this.dusk, duskAmount * 0.35)
+
+    this.hemi.color.copy(this.nightColors.sky).lerp(this.day.sky, daylight)
+    this.hemi.groundColor.copy(this.nightColors.ground).lerp(this.day.ground, daylight)
+    this.hemi.intensity = this.nightHemisphere + (lighting.hemisphere.intensity - this.nightHemisphere) * daylight
+  }
+}
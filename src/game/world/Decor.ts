@@ -1,9 +1,12 @@
-import { Box3, Group, InstancedMesh, Object3D, Vector3 } from 'three'
+import { Box3, Group, InstancedMesh, MeshStandardMaterial, Object3D, Vector3 } from 'three'
 
 import { loadDecorModel } from '../assets/loadDecor'
+import { mulberry32 } from '../utils/random'
 
 import type { Physics } from '../physics/Physics'
+import { BIOME_DENSITY } from './Biomes'
 import type { Terrain } from './Terrain'
+import { addWeatherShading } from './WeatherShading'
 
 export type DecorConfig = {
   treeCount: number
@@ -11,6 +14,19 @@ export type DecorConfig = {
   rockCount: number
   seed: number
   denseTarget?: Vector3
+  /** Trees and rocks at exact spots, on top of the seeded ones. */
+  handPlaced: HandPlacedDecor[]
+  /** When false only colliders are created (headless simulation). */
+  loadModels: boolean
+}
+
+/** `scale` 1 is about an average tree or rock. */
+export type HandPlacedDecor = {
+  type: 'tree' | 'rock'
+  x: number
+  z: number
+  yaw: number
+  scale: number
 }
 
 type MeshPart = {
@@ -25,18 +41,44 @@ type MeshParts = {
   size: Vector3
 }
 
+type DecorPlacement = {
+  x: number
+  y: number
+  z: number
+  yaw: number
+  scale: number
+}
+
+// Bounds of assets/decor/Tree.glb and Rock.glb. Colliders use these so the physics
+// world is identical whether or not the models are loaded.
+const TREE_HEIGHT = 1.74
+const ROCK_HEIGHT = 1.9
+const ROCK_RADIUS = 1.52
+
+// Seeded trees and rocks keep at least this much height above the water.
+const SHORE_MARGIN = 0.5
+
+/**
+ * How much decor is drawn, shared by every round's meshes. Past `fullRadius`
+ * from the camera only a fixed `density` share of trees and rocks is drawn;
+ * the colliders are all there regardless, so gameplay does not change.
+ */
+export const decorDisplay = {
+  density: { value: 1 },
+  fullRadius: { value: 80 },
+}
+
 export class Decor {
   readonly group = new Group()
 
   private readonly cfg: DecorConfig
 
-  private treeBaseOffsetY = 0
-  private treeHeight = 4.4
   private treeScaleMultiplier = 5
 
-  private rockBaseOffsetY = 0
-  private rockHeight = 2.4
-  private rockRadiusBase = 1.2
+  private readonly trees: DecorPlacement[] = []
+  private readonly rocks: DecorPlacement[] = []
+  /** Trunks and rocks, also the obstacles on the nav grid. */
+  readonly colliders: any[] = []
 
   private readyPromise: Promise<void>
 
@@ -50,16 +92,37 @@ export class Decor {
       denseTreeCount: 240,
       rockCount: 220,
       seed: 2026,
+      handPlaced: [],
+      loadModels: true,
       ...config,
     }
 
-    this.readyPromise = this.init()
+    this.placeTrees()
+    this.placeDenseTrees()
+    this.placeRocks()
+    this.placeHandPlaced()
+
+    this.readyPromise = this.cfg.loadModels ? this.init() : Promise.resolve()
   }
 
   async ready() {
     await this.readyPromise
   }
 
+  /** Every tree: trunk base and full height, e.g. for animals to climb. */
+  getTrees() {
+    return this.trees.map((t) => ({ x: t.x, y: t.y, z: t.z, height: TREE_HEIGHT * t.scale }))
+  }
+
+  dispose() {
+    const { world } = this.physics
+    for (const collider of this.colliders) {
+      world.removeCollider(collider, true)
+    }
+    this.colliders.length = 0
+    this.group.clear()
+  }
+
   private async init() {
     const [treeAsset, rockAsset] = await Promise.all([
       loadDecorModel(`${import.meta.env.BASE_URL}assets/decor/Tree.glb`),
@@ -69,40 +132,66 @@ export class Decor {
     const treeParts = collectMeshParts(treeAsset.root)
     const rockParts = collectMeshParts(rockAsset.root)
 
-    this.treeBaseOffsetY = -treeParts.bounds.min.y
-    this.treeHeight = Math.max(0.01, treeParts.size.y)
+    // Each round loads fresh materials, so they are only ever wrapped once.
+    for (const part of treeParts.meshes) {
+      forEachStandardMaterial(part.material, (m) => {
+        addDistanceThinning(m)
+        addWeatherShading(m, { sway: true, swayHeight: treeParts.bounds.max.y })
+      })
+    }
+    for (const part of rockParts.meshes) {
+      forEachStandardMaterial(part.material, (m) => {
+        addDistanceThinning(m)
+        addWeatherShading(m)
+      })
+    }
+
+    const treeBaseOffsetY = -treeParts.bounds.min.y
+    const rockBaseOffsetY = -rockParts.bounds.min.y
 
-    this.rockBaseOffsetY = -rockParts.bounds.min.y
-    this.rockHeight = Math.max(0.01, rockParts.size.y)
-    this.rockRadiusBase = Math.max(rockParts.size.x, rockParts.size.y, rockParts.size.z) * 0.5
+    const dummy = new Object3D()
 
-    const treeMeshes = treeParts.meshes.map((part) => {
-      const mesh = new InstancedMesh(part.geometry, part.material, this.cfg.treeCount)
+    for (const part of treeParts.meshes) {
+      const mesh = new InstancedMesh(part.geometry, part.material, this.trees.length)
       mesh.castShadow = true
       mesh.receiveShadow = true
+
+      this.trees.forEach((tree, i) => {
+        // Ground the model: compensate for GLB pivot so box.min.y touches terrain.
+        dummy.position.set(tree.x, tree.y + treeBaseOffsetY * tree.scale, tree.z)
+        dummy.rotation.set(0, tree.yaw, 0)
+        dummy.scale.setScalar(tree.scale)
+        dummy.updateMatrix()
+        mesh.setMatrixAt(i, dummy.matrix)
+      })
+
+      mesh.instanceMatrix.needsUpdate = true
       this.group.add(mesh)
-      return mesh
-    })
+    }
 
-    const rockMeshes = rockParts.meshes.map((part) => {
-      const mesh = new InstancedMesh(part.geometry, part.material, this.cfg.rockCount)
+    for (const part of rockParts.meshes) {
+      const mesh = new InstancedMesh(part.geometry, part.material, this.rocks.length)
       mesh.castShadow = true
       mesh.receiveShadow = true
-      this.group.add(mesh)
-      return mesh
-    })
 
-    const baseTreeCount = this.placeTrees(treeMeshes)
-    this.placeDenseTrees(treeMeshes, baseTreeCount)
-    this.placeRocks(rockMeshes)
+      this.rocks.forEach((rock, i) => {
+        const s = rock.scale
+        dummy.position.set(rock.x, rock.y + rockBaseOffsetY * s, rock.z)
+        dummy.rotation.set(0, rock.yaw, 0)
+        dummy.scale.set(s * 1.2, s * 0.9, s * 1.1)
+        dummy.updateMatrix()
+        mesh.setMatrixAt(i, dummy.matrix)
+      })
+
+      mesh.instanceMatrix.needsUpdate = true
+      this.group.add(mesh)
+    }
   }
 
-  private placeTrees(meshes: InstancedMesh[]) {
+  private placeTrees() {
     const cfg = this.cfg
     const rand = mulberry32(cfg.seed)
 
-    const dummy = new Object3D()
-
     let placed = 0
     let attempts = 0
 
@@ -116,48 +205,24 @@ export class Decor {
       if (x * x + z * z < 30 * 30) continue
 
       const y = this.terrain.getHeightAt(x, z)
+      if (this.terrain.isUnderwater(x, z, SHORE_MARGIN)) continue
       const slope = estimateSlopeRadians(this.terrain, x, z)
       if (slope > (55 * Math.PI) / 180) continue
+      if (rand() >= this.density(x, z).trees) continue
 
       const heightScale = (0.75 + rand() * 0.6) * this.treeScaleMultiplier
       const yaw = rand() * Math.PI * 2
 
-      // Ground the model: compensate for GLB pivot so box.min.y touches terrain.
-      const groundedY = y + this.treeBaseOffsetY * heightScale
-
-      dummy.position.set(x, groundedY, z)
-      dummy.rotation.set(0, yaw, 0)
-      dummy.scale.setScalar(heightScale)
-      dummy.updateMatrix()
-
-      for (const mesh of meshes) {
-        mesh.setMatrixAt(placed, dummy.matrix)
-      }
-
-      // Physics: approximate trunk with a cylinder.
-      const trunkHalfHeight = (this.treeHeight * heightScale) * 0.5
-      const colliderDesc = this.physics.RAPIER.ColliderDesc.cylinder(trunkHalfHeight, 0.55)
-      colliderDesc.setTranslation(x, y + trunkHalfHeight, z)
-      colliderDesc.setFriction(1.0)
-      this.physics.world.createCollider(colliderDesc)
+      this.addTree({ x, y, z, yaw, scale: heightScale }, 0.55)
 
       placed++
     }
-
-    for (const mesh of meshes) {
-      mesh.count = placed
-      mesh.instanceMatrix.needsUpdate = true
-    }
-
-    return placed
   }
 
-  private placeDenseTrees(meshes: InstancedMesh[], startIndex: number) {
+  private placeDenseTrees() {
     const cfg = this.cfg
     const rand = mulberry32(cfg.seed + 133)
 
-    const dummy = new Object3D()
-
     const halfW = this.terrain.config.width / 2
     const halfD = this.terrain.config.depth / 2
     const bandMin = 0.45
@@ -197,46 +262,25 @@ export class Decor {
       if (x * x + z * z < 45 * 45) continue
 
       const y = this.terrain.getHeightAt(x, z)
+      if (this.terrain.isUnderwater(x, z, SHORE_MARGIN)) continue
       const slope = estimateSlopeRadians(this.terrain, x, z)
       if (slope > (35 * Math.PI) / 180) continue
+      // The cluster stays dense wherever trees grow at all.
+      if (this.density(x, z).trees === 0) continue
 
       const heightScale = (0.9 + rand() * 0.7) * this.treeScaleMultiplier
       const yaw = rand() * Math.PI * 2
 
-      const groundedY = y + this.treeBaseOffsetY * heightScale
-
-      dummy.position.set(x, groundedY, z)
-      dummy.rotation.set(0, yaw, 0)
-      dummy.scale.setScalar(heightScale)
-      dummy.updateMatrix()
-
-      const index = startIndex + placed
-      for (const mesh of meshes) {
-        mesh.setMatrixAt(index, dummy.matrix)
-      }
-
-      const trunkHalfHeight = (this.treeHeight * heightScale) * 0.5
-      const colliderDesc = this.physics.RAPIER.ColliderDesc.cylinder(trunkHalfHeight, 0.65)
-      colliderDesc.setTranslation(x, y + trunkHalfHeight, z)
-      colliderDesc.setFriction(1.0)
-      this.physics.world.createCollider(colliderDesc)
+      this.addTree({ x, y, z, yaw, scale: heightScale }, 0.65)
 
       placed++
     }
-
-    const totalPlaced = startIndex + placed
-    for (const mesh of meshes) {
-      mesh.count = totalPlaced
-      mesh.instanceMatrix.needsUpdate = true
-    }
   }
 
-  private placeRocks(meshes: InstancedMesh[]) {
+  private placeRocks() {
     const cfg = this.cfg
     const rand = mulberry32(cfg.seed + 99)
 
-    const dummy = new Object3D()
-
     let placed = 0
     let attempts = 0
 
@@ -248,37 +292,87 @@ export class Decor {
       if (x * x + z * z < 25 * 25) continue
 
       const y = this.terrain.getHeightAt(x, z)
+      if (this.terrain.isUnderwater(x, z, SHORE_MARGIN)) continue
       const slope = estimateSlopeRadians(this.terrain, x, z)
       if (slope > (65 * Math.PI) / 180) continue
+      if (rand() >= this.density(x, z).rocks) continue
 
       const s = 0.6 + rand() * 1.2
       const yaw = rand() * Math.PI * 2
 
-      const groundedY = y + this.rockBaseOffsetY * s
+      this.addRock({ x, y, z, yaw, scale: s })
+
+      placed++
+    }
+  }
 
-      dummy.position.set(x, groundedY, z)
-      dummy.rotation.set(0, yaw, 0)
-      dummy.scale.set(s * 1.2, s * 0.9, s * 1.1)
-      dummy.updateMatrix()
+  private density(x: number, z: number) {
+    return BIOME_DENSITY[this.terrain.biomes.biomeAt(x, z)]
+  }
 
-      for (const mesh of meshes) {
-        mesh.setMatrixAt(placed, dummy.matrix)
+  private placeHandPlaced() {
+    for (const item of this.cfg.handPlaced) {
+      const y = this.terrain.getHeightAt(item.x, item.z)
+      if (item.type === 'tree') {
+        this.addTree({ x: item.x, y, z: item.z, yaw: item.yaw, scale: item.scale * this.treeScaleMultiplier }, 0.55)
+      } else {
+        this.addRock({ x: item.x, y, z: item.z, yaw: item.yaw, scale: item.scale * 1.2 })
       }
+    }
+  }
 
-      const radius = Math.max(0.2, this.rockRadiusBase * s)
-      const centerY = y + (this.rockHeight * s) * 0.5
-      const colliderDesc = this.physics.RAPIER.ColliderDesc.ball(radius)
-      colliderDesc.setTranslation(x, centerY, z)
-      colliderDesc.setFriction(1.0)
-      this.physics.world.createCollider(colliderDesc)
+  private addTree(tree: DecorPlacement, trunkRadius: number) {
+    this.trees.push(tree)
 
-      placed++
-    }
+    // Physics: approximate trunk with a cylinder.
+    const trunkHalfHeight = (TREE_HEIGHT * tree.scale) * 0.5
+    const colliderDesc = this.physics.RAPIER.ColliderDesc.cylinder(trunkHalfHeight, trunkRadius)
+    colliderDesc.setTranslation(tree.x, tree.y + trunkHalfHeight, tree.z)
+    colliderDesc.setFriction(1.0)
+    this.colliders.push(this.physics.world.createCollider(colliderDesc))
+  }
 
-    for (const mesh of meshes) {
-      mesh.count = placed
-      mesh.instanceMatrix.needsUpdate = true
-    }
+  private addRock(rock: DecorPlacement) {
+    this.rocks.push(rock)
+
+    const s = rock.scale
+    const radius = Math.max(0.2, ROCK_RADIUS * s)
+    const centerY = rock.y + (ROCK_HEIGHT * s) * 0.5
+    const colliderDesc = this.physics.RAPIER.ColliderDesc.ball(radius)
+    colliderDesc.setTranslation(rock.x, centerY, rock.z)
+    colliderDesc.setFriction(1.0)
+    this.colliders.push(this.physics.world.createCollider(colliderDesc))
+  }
+}
+
+/** Collapses the instances `decorDisplay` leaves out; each instance keeps its pick from where it stands. */
+function addDistanceThinning(material: MeshStandardMaterial) {
+  const previous = material.onBeforeCompile
+  const previousKey = material.customProgramCacheKey()
+
+  material.onBeforeCompile = (shader, renderer) => {
+    previous.call(material, shader, renderer)
+    shader.uniforms.decorDensity = decorDisplay.density
+    shader.uniforms.decorFullRadius = decorDisplay.fullRadius
+
+    shader.vertexShader = shader.vertexShader
+      .replace('#include <common>', `#include <common>\nuniform float decorDensity;\nuniform float decorFullRadius;`)
+      .replace(
+        '#include <begin_vertex>',
+        `#include <begin_vertex>
+#ifdef USE_INSTANCING
+vec3 decorPos = (modelMatrix * instanceMatrix[3]).xyz;
+float decorPick = fract(sin(dot(decorPos.xz, vec2(12.9898, 78.233))) * 43758.5453);
+if (decorPick > decorDensity && distance(decorPos, cameraPosition) > decorFullRadius) transformed = vec3(0.0);
+#endif`,
+      )
+  }
+  material.customProgramCacheKey = () => `${previousKey}|${previous.toString()}|decor-thinning`
+}
+
+function forEachStandardMaterial(material: any, visit: (material: MeshStandardMaterial) => void) {
+  for (const m of [material].flat()) {
+    if (m instanceof MeshStandardMaterial) visit(m)
   }
 }
 
@@ -330,14 +424,3 @@ function estimateSlopeRadians(terrain: Terrain, x: number, z: number) {
   const tan = Math.sqrt(dx * dx + dz * dz)
   return Math.atan(tan)
 }
-
-function mulberry32(seed: number) {
-  let a = seed | 0
-  return function () {
-    a |= 0
-    a = (a + 0x6d2b79f5) | 0
-    let t = Math.imul(a ^ (a >>> 15), 1 | a)
-    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t
-    return ((t ^ (t >>> 14)) >>> 0) / 4294967296
-  }
-}
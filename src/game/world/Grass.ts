@@ -0,0 +1,457 @@
+import {
+  BufferAttribute,
+  BufferGeometry,
+  Color,
+  DoubleSide,
+  Group,
+  InstancedBufferAttribute,
+  InstancedMesh,
+  MeshStandardMaterial,
+  OctahedronGeometry,
+  Vector3,
+  Vector4,
+} from 'three'
+
+import { deriveSeed, mulberry32 } from '../utils/random'
+import type { Terrain } from './Terrain'
+import { addWeatherShading, weatherUniforms } from './WeatherShading'
+
+export type GrassConfig = {
+  seed: number
+  /** Grass is drawn this far around the dog and fades out towards the edge. */
+  radius: number
+  /** Side of the square cells the scatter is generated and cached in, in metres. */
+  cellSize: number
+  /** Blade candidates per square metre at density 1; bare and steep ground rejects some. */
+  bladesPerSquareMetre: number
+  flowersPerSquareMetre: number
+  /** No grass on slopes steeper than this, in degrees. */
+  maxSlope: number
+  minHeight: number
+  maxHeight: number
+  /** Blades this close to where the dog is, or recently was, lie down. */
+  pushRadius: number
+}
+
+// Where the dog was over the last second or so; the grass there springs back slowly.
+const TRAIL_LENGTH = 6
+const TRAIL_INTERVAL = 0.2
+const TRAIL_RECOVERY = 1.2
+
+// Floats per cached blade: x, y, z, angle, width, height, r, g, b.
+const BLADE_STRIDE = 9
+// Floats per cached flower: x, y, z, angle, height, r, g, b.
+const FLOWER_STRIDE = 8
+
+const FLOWER_COLORS = ['#f4f1e6', '#f2d14b', '#c98be0', '#e8716a', '#8fb4f0'].map((c) => new Color(c))
+const LUSH = new Color('#4a8f3f')
+const DRY = new Color('#9a9348')
+
+// Flower stems are blades this narrow, so the head sits on their curved tip.
+const STEM_WIDTH = 0.35
+const BLADE_CURVE = 0.15
+
+const DEG = Math.PI / 180
+
+type GrassCell = { blades: Float32Array; flowers: Float32Array }
+
+/**
+ * Grass blades and small flowers scattered around the dog, in cells seeded
+ * from the world seed and the cell position, so a spot always grows the same
+ * grass. Only drawn, never simulated: the blades sway with the weather's wind,
+ * lie down around the dog and fade out towards `radius`.
+ */
+export class Grass {
+  readonly group = new Group()
+
+  private readonly cfg: GrassConfig
+  private readonly bladeMaterial: MeshStandardMaterial
+  private readonly flowerMaterial: MeshStandardMaterial
+  private readonly bladeGeometry = createBladeGeometry()
+  private readonly flowerGeometry = createFlowerGeometry()
+  private blades: InstancedMesh | null = null
+  private flowers: InstancedMesh | null = null
+
+  private readonly cells = new Map<string, GrassCell>()
+  private density = 1
+  private centerCellX = NaN
+  private centerCellZ = NaN
+
+  private readonly uniforms = {
+    grassCenter: { value: new Vector3() },
+    grassRadius: { value: 0 },
+    grassPushRadius: { value: 0 },
+    grassPushers: { value: Array.from({ length: TRAIL_LENGTH }, () => new Vector4()) },
+  }
+  private trailTimer = 0
+  private trailHead = 0
+
+  constructor(
+    private readonly terrain: Terrain,
+    config?: Partial<GrassConfig>,
+  ) {
+    this.cfg = {
+      seed: 0,
+      radius: 36,
+      cellSize: 6,
+      bladesPerSquareMetre: 10,
+      flowersPerSquareMetre: 0.3,
+      maxSlope: 32,
+      minHeight: 0.22,
+      maxHeight: 0.55,
+      pushRadius: 0.9,
+      ...config,
+    }
+    this.uniforms.grassRadius.value = this.cfg.radius
+    this.uniforms.grassPushRadius.value = this.cfg.pushRadius
+
+    this.bladeMaterial = new MeshStandardMaterial({ color: 0xffffff, roughness: 0.85, side: DoubleSide })
+    this.flowerMaterial = new MeshStandardMaterial({ color: 0xffffff, roughness: 0.7 })
+    for (const material of [this.bladeMaterial, this.flowerMaterial]) {
+      this.addGrassMotion(material)
+      addWeatherShading(material)
+    }
+
+    this.createMeshes()
+  }
+
+  /** Share of the blades and flowers drawn, from the graphics preset; regenerates the cells. */
+  setDensity(density: number) {
+    if (density === this.density) return
+    this.density = density
+    this.cells.clear()
+    this.createMeshes()
+  }
+
+  /** Re-scatters around the dog when it enters a new cell and moves its flattened trail. */
+  update(dt: number, dog: Vector3) {
+    const { cellSize } = this.cfg
+    const cx = Math.floor(dog.x / cellSize)
+    const cz = Math.floor(dog.z / cellSize)
+    if (cx !== this.centerCellX || cz !== this.centerCellZ) {
+      this.centerCellX = cx
+      this.centerCellZ = cz
+      this.rebuild(cx, cz)
+    }
+
+    this.uniforms.grassCenter.value.copy(dog)
+    this.updateTrail(dt, dog)
+  }
+
+  dispose() {
+    this.blades?.dispose()
+    this.flowers?.dispose()
+    this.bladeGeometry.dispose()
+    this.flowerGeometry.dispose()
+    this.bladeMaterial.dispose()
+    this.flowerMaterial.dispose()
+    this.group.clear()
+  }
+
+  /** Cells whose nearest point is inside `radius`, as offsets from the centre cell. */
+  private cellOffsets() {
+    const { radius, cellSize } = this.cfg
+    const reach = Math.ceil(radius / cellSize)
+    const offsets: [number, number][] = []
+    for (let dz = -reach; dz <= reach; dz++) {
+      for (let dx = -reach; dx <= reach; dx++) {
+        const nx = Math.max(0, Math.abs(dx) - 1) * cellSize
+        const nz = Math.max(0, Math.abs(dz) - 1) * cellSize
+        if (nx * nx + nz * nz <= radius * radius) offsets.push([dx, dz])
+      }
+    }
+    return offsets
+  }
+
+  private createMeshes() {
+    const { cellSize } = this.cfg
+    const area = cellSize * cellSize
+    const cellCount = this.cellOffsets().length
+    const flowerCapacity = Math.ceil(area * this.cfg.flowersPerSquareMetre * this.density) * cellCount
+    // Every flower stands on a stem from the blade mesh.
+    const bladeCapacity = Math.ceil(area * this.cfg.bladesPerSquareMetre * this.density) * cellCount + flowerCapacity
+
+    this.blades?.dispose()
+    this.flowers?.dispose()
+    this.group.clear()
+
+    this.blades = createInstances(this.bladeGeometry, this.bladeMaterial, bladeCapacity)
+    this.flowers = createInstances(this.flowerGeometry, this.flowerMaterial, flowerCapacity)
+    this.group.add(this.blades, this.flowers)
+
+    this.centerCellX = NaN
+    this.centerCellZ = NaN
+  }
+
+  private rebuild(cx: number, cz: number) {
+    const blades = this.blades!
+    const flowers = this.flowers!
+    const bladeMatrices = blades.instanceMatrix.array as Float32Array
+    const bladeColors = blades.instanceColor!.array as Float32Array
+    const flowerMatrices = flowers.instanceMatrix.array as Float32Array
+    const flowerColors = flowers.instanceColor!.array as Float32Array
+
+    const wanted = new Set<string>()
+    let bladeCount = 0
+    let flowerCount = 0
+
+    for (const [dx, dz] of this.cellOffsets()) {
+      const key = `${cx + dx},${cz + dz}`
+      wanted.add(key)
+      let cell = this.cells.get(key)
+      if (!cell) {
+        cell = this.scatterCell(cx + dx, cz + dz)
+        this.cells.set(key, cell)
+      }
+
+      for (let i = 0; i < cell.blades.length; i += BLADE_STRIDE) {
+        const b = cell.blades
+        writeMatrix(bladeMatrices, bladeCount, b[i], b[i + 1], b[i + 2], b[i + 3], b[i + 4], b[i + 5])
+        bladeColors.set(b.subarray(i + 6, i + 9), bladeCount * 3)
+        bladeCount++
+      }
+
+      for (let i = 0; i < cell.flowers.length; i += FLOWER_STRIDE) {
+        const f = cell.flowers
+        // A thin green stem from the blade mesh, with the head on top.
+        writeMatrix(bladeMatrices, bladeCount, f[i], f[i + 1], f[i + 2], f[i + 3], STEM_WIDTH, f[i + 4])
+        bladeColors.set([LUSH.r, LUSH.g, LUSH.b], bladeCount * 3)
+        bladeCount++
+        writeMatrix(flowerMatrices, flowerCount, f[i], f[i + 1], f[i + 2], f[i + 3], 1, f[i + 4])
+        flowerColors.set(f.subarray(i + 5, i + 8), flowerCount * 3)
+        flowerCount++
+      }
+    }
+
+    // Cells left behind are dropped; walking back scatters them again the same way.
+    for (const key of this.cells.keys()) {
+      if (!wanted.has(key)) this.cells.delete(key)
+    }
+
+    blades.count = bladeCount
+    flowers.count = flowerCount
+    blades.instanceMatrix.needsUpdate = true
+    blades.instanceColor!.needsUpdate = true
+    flowers.instanceMatrix.needsUpdate = true
+    flowers.instanceColor!.needsUpdate = true
+  }
+
+  /** The same cell always gets the same candidates; a lower density keeps a prefix of them. */
+  private scatterCell(cx: number, cz: number): GrassCell {
+    const { terrain, cfg } = this
+    const { cellSize } = cfg
+    const rand = mulberry32(deriveSeed(cfg.seed, `${cx},${cz}`))
+    const area = cellSize * cellSize
+    const bladeCandidates = Math.ceil(area * cfg.bladesPerSquareMetre * this.density)
+    const flowerCandidates = Math.ceil(area * cfg.flowersPerSquareMetre * this.density)
+
+    const blades: number[] = []
+    const flowers: number[] = []
+    const color = new Color()
+    const { width, depth } = terrain.config
+    const meadowMoisture = terrain.biomes.config.meadowMoisture
+
+    const place = (flower: boolean) => {
+      const x = (cx + rand()) * cellSize
+      const z = (cz + rand()) * cellSize
+      const angle = rand() * Math.PI * 2
+      const size = rand()
+      const keep = rand()
+      const tint = rand()
+
+      if (Math.abs(x) > width / 2 || Math.abs(z) > depth / 2) return
+      if (terrain.isUnderwater(x, z, 0.15)) return
+
+      const slope = slopeAt(terrain, x, z)
+      if (slope > cfg.maxSlope) return
+
+      const weights = terrain.biomes.weightsAt(x, z)
+      const moisture = terrain.biomes.moistureAt(x, z)
+      // Thick on grass, patchy on dirt and sand, thinning out up the slopes.
+      let chance = weights.grass + 0.35 * weights.dirt + 0.1 * weights.sand
+      chance *= 1 - (slope / cfg.maxSlope) ** 2
+      if (flower) chance *= weights.grass * Math.min(1, moisture / meadowMoisture)
+      if (keep >= chance) return
+
+      const y = terrain.getHeightAt(x, z)
+      const height = cfg.minHeight + (cfg.maxHeight - cfg.minHeight) * size
+
+      if (flower) {
+        const c = FLOWER_COLORS[Math.floor(tint * FLOWER_COLORS.length)]
+        flowers.push(x, y, z, angle, height * 0.9, c.r, c.g, c.b)
+        return
+      }
+
+      // Drier ground gets yellower grass; each blade varies a little in brightness.
+      color.copy(LUSH).lerp(DRY, Math.max(0, 1 - moisture / meadowMoisture) * 0.7 + weights.dirt * 0.3)
+      color.multiplyScalar(0.8 + tint * 0.35)
+      blades.push(x, y, z, angle, 0.8 + size * 0.5, height, color.r, color.g, color.b)
+    }
+
+    for (let i = 0; i < bladeCandidates; i++) place(false)
+    for (let i = 0; i < flowerCandidates; i++) place(true)
+
+    return { blades: new Float32Array(blades), flowers: new Float32Array(flowers) }
+  }
+
+  private updateTrail(dt: number, dog: Vector3) {
+    const pushers = this.uniforms.grassPushers.value
+    for (const p of pushers) p.w = Math.max(0, p.w - dt / TRAIL_RECOVERY)
+
+    this.trailTimer -= dt
+    if (this.trailTimer <= 0) {
+      this.trailTimer = TRAIL_INTERVAL
+      this.trailHead = (this.trailHead + 1) % TRAIL_LENGTH
+    }
+    // The newest entry follows the dog until the next one is started.
+    pushers[this.trailHead].set(dog.x, dog.y, dog.z, 1)
+  }
+
+  /** Wind sway, the dog's flattened trail and the fade at the edge, in world space. */
+  private addGrassMotion(material: MeshStandardMaterial) {
+    const previous = material.onBeforeCompile
+    const previousKey = material.customProgramCacheKey()
+
+    material.onBeforeCompile = (shader, renderer) => {
+      previous.call(material, shader, renderer)
+      Object.assign(shader.uniforms, weatherUniforms, this.uniforms)
+
+      shader.vertexShader = shader.vertexShader
+        .replace(
+          '#include <common>',
+          `#include <common>
+uniform float windTime;
+uniform float windStrength;
+uniform vec2 windDir;
+uniform vec3 grassCenter;
+uniform float grassRadius;
+uniform float grassPushRadius;
+uniform vec4 grassPushers[${TRAIL_LENGTH}];
+varying float vGrassHeight;`,
+        )
+        // Blades are lit like the ground they grow from.
+        .replace('#include <beginnormal_vertex>', 'vec3 objectNormal = vec3(0.0, 1.0, 0.0);')
+        .replace(
+          '#include <project_vertex>',
+          `mat4 grassModel = modelMatrix * instanceMatrix;
+vec3 grassRoot = (grassModel * vec4(0.0, 0.0, 0.0, 1.0)).xyz;
+vec4 grassWorld = grassModel * vec4(transformed, 1.0);
+float grassLength = length(grassModel[1].xyz);
+float grassT = clamp(transformed.y, 0.0, 1.0);
+float grassBend = grassT * grassT * grassLength;
+vGrassHeight = grassT;
+
+// Shrinks to nothing towards the edge of the scattered area.
+float grassFade = 1.0 - smoothstep(grassRadius * 0.6, grassRadius, distance(grassRoot.xz, grassCenter.xz));
+grassWorld.xyz = grassRoot + (grassWorld.xyz - grassRoot) * grassFade;
+
+float grassPhase = dot(grassRoot.xz, vec2(0.37, 0.51));
+float grassGust = 0.5 + 0.5 * sin(windTime * 2.3 + grassPhase) + 0.3 * sin(windTime * 5.1 + grassPhase * 1.7);
+vec2 grassOffset = windDir * (0.08 + 0.45 * windStrength) * grassGust;
+
+// Pushed flat away from the dog and the last few spots it stood on.
+float grassDown = 0.0;
+for (int i = 0; i < ${TRAIL_LENGTH}; i++) {
+  vec4 pusher = grassPushers[i];
+  vec2 away = grassRoot.xz - pusher.xz;
+  float d = length(away);
+  float push = (1.0 - smoothstep(grassPushRadius * 0.3, grassPushRadius, d)) * pusher.w;
+  push *= 1.0 - smoothstep(1.2, 2.0, abs(pusher.y - grassRoot.y));
+  grassOffset += (d > 1e-3 ? away / d : vec2(1.0, 0.0)) * push;
+  grassDown = max(grassDown, push);
+}
+
+grassWorld.xz += grassOffset * grassBend;
+grassWorld.y -= grassDown * grassBend * 0.6;
+vec4 mvPosition = viewMatrix * grassWorld;
+gl_Position = projectionMatrix * mvPosition;`,
+        )
+
+      shader.fragmentShader = shader.fragmentShader
+        .replace('#include <common>', `#include <common>\nvarying float vGrassHeight;`)
+        // Darker towards the roots, where the blades shade each other.
+        .replace('#include <color_fragment>', `#include <color_fragment>\ndiffuseColor.rgb *= mix(0.45, 1.05, vGrassHeight);`)
+    }
+
+    material.customProgramCacheKey = () => `${previousKey}|${previous.toString()}|grass`
+    material.needsUpdate = true
+  }
+}
+
+function createInstances(geometry: BufferGeometry, material: MeshStandardMaterial, capacity: number) {
+  const mesh = new InstancedMesh(geometry, material, Math.max(1, capacity))
+  mesh.instanceColor = new InstancedBufferAttribute(new Float32Array(Math.max(1, capacity) * 3), 3)
+  mesh.count = 0
+  // Instances move with the dog; the whole patch is always around the camera anyway.
+  mesh.frustumCulled = false
+  mesh.receiveShadow = true
+  return mesh
+}
+
+/** Y rotation by `angle`, `width` across and `height` up, at (x, y, z); column-major like `Matrix4`. */
+function writeMatrix(out: Float32Array, index: number, x: number, y: number, z: number, angle: number, width: number, height: number) {
+  const c = Math.cos(angle)
+  const s = Math.sin(angle)
+  const o = index * 16
+  out[o] = c * width
+  out[o + 1] = 0
+  out[o + 2] = -s * width
+  out[o + 3] = 0
+  out[o + 4] = 0
+  out[o + 5] = height
+  out[o + 6] = 0
+  out[o + 7] = 0
+  out[o + 8] = s * width
+  out[o + 9] = 0
+  out[o + 10] = c * width
+  out[o + 11] = 0
+  out[o + 12] = x
+  out[o + 13] = y
+  out[o + 14] = z
+  out[o + 15] = 1
+}
+
+function slopeAt(terrain: Terrain, x: number, z: number) {
+  const e = 0.75
+  const dx = terrain.getHeightAt(x + e, z) - terrain.getHeightAt(x - e, z)
+  const dz = terrain.getHeightAt(x, z + e) - terrain.getHeightAt(x, z - e)
+  return Math.atan(Math.hypot(dx, dz) / (2 * e)) / DEG
+}
+
+/** A unit-tall tapered blade with a slight forward curve; the tip is one vertex. */
+function createBladeGeometry() {
+  const rows = [
+    { y: 0, half: 0.035 },
+    { y: 0.35, half: 0.028 },
+    { y: 0.7, half: 0.017 },
+  ]
+  const positions: number[] = []
+  for (const { y, half } of rows) {
+    const bend = BLADE_CURVE * y * y
+    positions.push(-half, y, bend, half, y, bend)
+  }
+  positions.push(0, 1, BLADE_CURVE)
+
+  const indices: number[] = []
+  for (let r = 0; r < rows.length - 1; r++) {
+    const a = r * 2
+    indices.push(a, a + 1, a + 2, a + 1, a + 3, a + 2)
+  }
+  const last = (rows.length - 1) * 2
+  indices.push(last, last + 1, last + 2)
+
+  const geometry = new BufferGeometry()
+  geometry.setAttribute('position', new BufferAttribute(new Float32Array(positions), 3))
+  geometry.setIndex(indices)
+  geometry.computeVertexNormals()
+  return geometry
+}
+
+/** A small flower head sitting on top of a unit-tall stem. */
+function createFlowerGeometry() {
+  const geometry = new OctahedronGeometry(0.06)
+  // The instance stretches y by the stem height; squash it back to roughly round.
+  geometry.scale(1, 2.5, 1)
+  geometry.translate(0, 1.02, BLADE_CURVE * STEM_WIDTH)
+  return geometry
+}
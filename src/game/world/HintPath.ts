@@ -0,0 +1,178 @@
+import {
+  BufferAttribute,
+  BufferGeometry,
+  CanvasTexture,
+  Color,
+  Group,
+  Points,
+  PointsMaterial,
+  Vector3,
+} from 'three'
+
+import type { NavGrid } from '../nav/NavGrid'
+import { flatDistance, projectOnRoute } from '../nav/Route'
+import type { Terrain } from './Terrain'
+
+export type HintPathConfig = {
+  /** Dots are laid this far ahead of the dog along the route. */
+  length: number
+  /** Metres between dots. */
+  spacing: number
+  /** Height of the dots above the ground. */
+  lift: number
+  /** The route is searched again once the dog strays this far from it. */
+  rerouteDistance: number
+  /** Seconds between searches while there is no route. */
+  retryInterval: number
+  size: number
+  color: string
+}
+
+/**
+ * Optional trail of dots along a walkable route to the owner, for players who
+ * want help (a difficulty setting). It only shows the next stretch; the route
+ * is searched again when the dog leaves it or the owner moves.
+ */
+export class HintPath {
+  readonly group = new Group()
+
+  private readonly cfg: HintPathConfig
+  private readonly points: Points<BufferGeometry, PointsMaterial>
+  private readonly positions: Float32Array
+  private readonly colors: Float32Array
+  private readonly tint: Color
+  private readonly goal = new Vector3(Infinity, 0, Infinity)
+  private route: Vector3[] | null = null
+  private retryTimer = 0
+  private time = 0
+  private enabled = false
+
+  constructor(config?: Partial<HintPathConfig>) {
+    this.cfg = {
+      length: 80,
+      spacing: 2.5,
+      lift: 0.35,
+      rerouteDistance: 6,
+      retryInterval: 1,
+      size: 0.45,
+      color: '#ffe08a',
+      ...config,
+    }
+
+    const maxDots = Math.ceil(this.cfg.length / this.cfg.spacing) + 1
+    this.positions = new Float32Array(maxDots * 3)
+    this.colors = new Float32Array(maxDots * 4)
+    this.tint = new Color(this.cfg.color)
+
+    const geometry = new BufferGeometry()
+    geometry.setAttribute('position', new BufferAttribute(this.positions, 3))
+    geometry.setAttribute('color', new BufferAttribute(this.colors, 4))
+
+    this.points = new Points(
+      geometry,
+      new PointsMaterial({
+        size: this.cfg.size,
+        map: createDotTexture(),
+        vertexColors: true,
+        transparent: true,
+        depthWrite: false,
+      }),
+    )
+    this.points.frustumCulled = false
+    this.points.visible = false
+    this.group.add(this.points)
+  }
+
+  setEnabled(enabled: boolean) {
+    this.enabled = enabled
+    this.points.visible = false
+    if (!enabled) this.route = null
+  }
+
+  update(dt: number, nav: NavGrid, terrain: Terrain, dog: Vector3, goal: Vector3) {
+    if (!this.enabled) return
+    this.time += dt
+    this.retryTimer = Math.max(0, this.retryTimer - dt)
+
+    if (this.goal.distanceTo(goal) > 1) {
+      // New round or restored save: the old route leads somewhere else.
+      this.goal.copy(goal)
+      this.route = null
+      this.retryTimer = 0
+    }
+
+    let closest = this.route ? projectOnRoute(this.route, dog) : null
+    if ((!closest || closest.distance > this.cfg.rerouteDistance) && this.retryTimer <= 0) {
+      this.route = nav.findPath(dog, goal)
+      this.retryTimer = this.cfg.retryInterval
+      closest = this.route ? projectOnRoute(this.route, dog) : null
+    }
+
+    this.points.visible = closest !== null
+    if (!this.route || !closest) return
+
+    const { cfg, positions, colors, tint, route } = this
+    const at = new Vector3()
+    let count = 0
+    // Dots sit at fixed spots along the route, so they stay put as the dog walks.
+    let next = closest.t * flatDistance(route[closest.segment], route[closest.segment + 1])
+    // Metres from the dog to the start of the current segment (negative on the first one).
+    let base = -next
+    next += cfg.spacing - (closest.along % cfg.spacing)
+
+    for (let i = closest.segment; i < route.length - 1; i++) {
+      const a = route[i]
+      const b = route[i + 1]
+      const segment = flatDistance(a, b)
+
+      for (; next <= segment; next += cfg.spacing) {
+        const ahead = base + next
+        if (ahead > cfg.length) break
+        at.lerpVectors(a, b, next / segment)
+        const o = count * 3
+        positions[o] = at.x
+        positions[o + 1] = terrain.getHeightAt(at.x, at.z) + cfg.lift
+        positions[o + 2] = at.z
+
+        const pulse = 0.75 + 0.25 * Math.sin(this.time * 4 - (closest.along + ahead) * 0.35)
+        const c = count * 4
+        colors[c] = tint.r
+        colors[c + 1] = tint.g
+        colors[c + 2] = tint.b
+        colors[c + 3] = pulse * (1 - ahead / cfg.length)
+        count++
+      }
+      next -= segment
+      base += segment
+      if (base > cfg.length) break
+    }
+
+    const geometry = this.points.geometry
+    geometry.setDrawRange(0, count)
+    geometry.getAttribute('position').needsUpdate = true
+    geometry.getAttribute('color').needsUpdate = true
+  }
+
+  dispose() {
+    this.points.geometry.dispose()
+    this.points.material.map?.dispose()
+    this.points.material.dispose()
+    this.group.clear()
+  }
+}
+
+/** A round dot with a soft edge. */
+function createDotTexture() {
+  const size = 32
+  const canvas = document.createElement('canvas')
+  canvas.width = size
+  canvas.height = size
+  const ctx = canvas.getContext('2d')!
+  const gradient = ctx.createRadialGradient(size / 2, size / 2, 0, size / 2, size / 2, size / 2)
+  gradient.addColorStop(0, 'rgba(255, 255, 255, 1)')
+  gradient.addColorStop(0.6, 'rgba(255, 255, 255, 0.9)')
+  gradient.addColorStop(1, 'rgba(255, 255, 255, 0)')
+  ctx.fillStyle = gradient
+  ctx.fillRect(0, 0, size, size)
+  return new CanvasTexture(canvas)
+}
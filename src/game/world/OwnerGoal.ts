@@ -6,13 +6,28 @@ import {
   Group,
   Mesh,
   MeshStandardMaterial,
+  PointLight,
   Vector3,
 } from 'three'
 
 import { GLTFLoader } from 'three/examples/jsm/loaders/GLTFLoader.js'
 import type { Physics } from '../physics/Physics'
 import type { Terrain } from './Terrain'
-
+import { mulberry32 } from '../utils/random'
+
+
+export type OwnerGoalConfig = {
+  seed: number
+  /** Min and max distance of the yard from the world origin (the spawn point). */
+  distance: [number, number]
+  /** When set, every round puts the yard here instead of searching for a spot. */
+  fixedPosition?: Vector3
+  yardSize: number
+  houseOffset: Vector3
+  ownerOffset: Vector3
+  /** When false the owner and yard models are never fetched (headless simulation). */
+  loadModels: boolean
+}
 
 type ColliderBox = {
   offset: Vector3
@@ -24,80 +39,118 @@ export class OwnerGoal {
   readonly group = new Group()
   readonly ownerPosition = new Vector3()
 
-  private readonly yardSize = 14
-  private readonly houseOffset = new Vector3(2.5, 0, 0)
-  private readonly humanOffset = new Vector3(-3, 0, -2.5)
+  private readonly yardSize: number
+  private readonly houseOffset: Vector3
+  private readonly humanOffset: Vector3
+
+  private readonly cfg: OwnerGoalConfig
 
   private readonly colliderDefs: ColliderBox[] = []
-  private colliders: any[] = []
+  /** House, porch and fence, also the obstacles on the nav grid. */
+  readonly colliders: any[] = []
   private ownerRoot: Group | null = null
   private ownerMixer: AnimationMixer | null = null
   private ownerBaseOffsetY = 0
   private yardFallback: Group | null = null
   private houseRoot: Group | null = null
   private fenceRoot: Group | null = null
+  private readonly windowMat = new MeshStandardMaterial({ color: 0xb9d7f0, roughness: 0.4, metalness: 0.1, emissive: 0xffb561 })
+  // The house model has a single atlas material, so at night the yard is lit from the porch instead.
+  private readonly windowLight = new PointLight(0xffb561, 0, 22, 1.6)
 
   constructor(
     private readonly terrain: Terrain,
     private readonly physics: Physics,
+    config?: Partial<OwnerGoalConfig>,
   ) {
+    this.cfg = {
+      seed: 4242,
+      distance: [340, 440],
+      yardSize: 14,
+      houseOffset: new Vector3(2.5, 0, 0),
+      ownerOffset: new Vector3(-3, 0, -2.5),
+      loadModels: true,
+      ...config,
+    }
+
+    this.yardSize = this.cfg.yardSize
+    this.houseOffset = this.cfg.houseOffset.clone()
+    this.humanOffset = this.cfg.ownerOffset.clone()
+
     this.buildFallbackYard()
-    void this.loadOwnerModel()
-    void this.loadYardModels()
+    if (this.cfg.loadModels) {
+      void this.loadOwnerModel()
+      void this.loadYardModels()
+    }
     this.reset()
   }
 
-  reset() {
+  /** Moves the yard to a new spot; the same seed always picks the same spot. */
+  reset(seed = this.cfg.seed, distance = this.cfg.distance) {
+    const fixed = this.cfg.fixedPosition
+    if (fixed) {
+      this.placeAt(fixed.x, fixed.z)
+      return
+    }
+
+    const rand = mulberry32(seed)
+
     const { width, depth } = this.terrain.config
     const halfW = width / 2
     const halfD = depth / 2
 
-    const minRadius = Math.min(halfW, halfD) - 160
-    const maxRadius = Math.min(halfW, halfD) - 60
-
-    let placed = false
-    let tries = 0
-
-    while (!placed && tries < 60) {
-      tries++
+    // Stay clear of the border mountains whatever the level asks for.
+    const limit = Math.min(halfW, halfD) - 60
+    const maxRadius = Math.min(distance[1], limit)
+    const minRadius = Math.min(distance[0], maxRadius)
 
-      const angle = Math.random() * Math.PI * 2
-      const radius = minRadius + Math.random() * (maxRadius - minRadius)
+    for (let tries = 0; tries < 60; tries++) {
+      const angle = rand() * Math.PI * 2
+      const radius = minRadius + rand() * (maxRadius - minRadius)
 
       const x = Math.cos(angle) * radius
       const z = Math.sin(angle) * radius
 
+      if (!this.isYardDry(x, z)) continue
       const slope = estimateSlopeRadians(this.terrain, x, z)
       if (slope > (28 * Math.PI) / 180) continue
 
-      const y = this.terrain.getHeightAt(x, z)
-      this.group.position.set(x, y, z)
-      this.group.rotation.y = 0
+      this.placeAt(x, z)
+      return
+    }
 
-      this.ownerPosition.copy(this.group.position)
-      this.ownerPosition.add(this.humanOffset)
-      this.ownerPosition.y = this.terrain.getHeightAt(this.ownerPosition.x, this.ownerPosition.z) + 0.9
+    this.placeAt(0, 0)
+  }
 
-      if (this.ownerRoot) {
-        this.ownerRoot.position.copy(this.humanOffset)
-        this.ownerRoot.position.y = this.ownerPosition.y - this.group.position.y + this.ownerBaseOffsetY
-      }
+  /** Centre and corners of a yard at (x, z) are all above the water. */
+  private isYardDry(x: number, z: number) {
+    const half = this.yardSize / 2
+    const corners = [[0, 0], [-half, -half], [half, -half], [-half, half], [half, half]]
+    return corners.every(([dx, dz]) => !this.terrain.isUnderwater(x + dx, z + dz, 0.5))
+  }
 
-      if (this.houseRoot) {
-        this.houseRoot.position.copy(this.houseOffset)
-      }
+  /** Puts the yard at an exact spot (used by `reset` and when restoring a saved run). */
+  placeAt(x: number, z: number) {
+    const y = this.terrain.getHeightAt(x, z)
+    this.group.position.set(x, y, z)
+    this.group.rotation.y = 0
 
-      if (this.fenceRoot) {
-        this.fenceRoot.position.set(0, 0, 0)
-        this.updateFenceToTerrain()
-      }
+    this.ownerPosition.copy(this.group.position)
+    this.ownerPosition.add(this.humanOffset)
+    this.ownerPosition.y = this.terrain.getHeightAt(this.ownerPosition.x, this.ownerPosition.z) + 0.9
+
+    if (this.ownerRoot) {
+      this.ownerRoot.position.copy(this.humanOffset)
+      this.ownerRoot.position.y = this.ownerPosition.y - this.group.position.y + this.ownerBaseOffsetY
+    }
 
-      placed = true
+    if (this.houseRoot) {
+      this.houseRoot.position.copy(this.houseOffset)
     }
 
-    if (!placed) {
-      this.group.position.set(0, this.terrain.getHeightAt(0, 0), 0)
-      this.ownerPosition.set(0, this.group.position.y + 0.9, 0)
+    if (this.fenceRoot) {
+      this.fenceRoot.position.set(0, 0, 0)
+      this.updateFenceToTerrain()
     }
 
     this.rebuildColliders()
@@ -173,7 +226,8 @@ export class OwnerGoal {
     door.castShadow = true
 
     const windowGeo = new BoxGeometry(0.9, 0.9, 0.15)
-    const windowMat = new MeshStandardMaterial({ color: 0xb9d7f0, roughness: 0.4, metalness: 0.1 })
+    const windowMat = this.windowMat
+    windowMat.emissiveIntensity = 0
     const windowLeft = new Mesh(windowGeo, windowMat)
     windowLeft.position.set(this.houseOffset.x - 1.6, 2, this.houseOffset.z + 2.2)
     const windowRight = new Mesh(windowGeo, windowMat)
@@ -199,6 +253,10 @@ export class OwnerGoal {
 
     this.group.add(this.yardFallback)
 
+    this.windowLight.position.set(this.houseOffset.x, 2.4, this.houseOffset.z + 4)
+    this.windowLight.visible = false
+    this.group.add(this.windowLight)
+
     this.colliderDefs.push(
       {
         offset: new Vector3(this.houseOffset.x, 1.7, this.houseOffset.z),
@@ -239,6 +297,13 @@ export class OwnerGoal {
     }
   }
 
+  /** Lights the windows and the porch; 0 by day, 1 at full night. */
+  setNightLevel(night: number) {
+    this.windowMat.emissiveIntensity = night * 1.4
+    this.windowLight.intensity = night * 40
+    this.windowLight.visible = night > 0
+  }
+
   private async loadOwnerModel() {
     try {
       const loader = new GLTFLoader()
@@ -394,13 +459,19 @@ export class OwnerGoal {
     }
   }
 
-  private rebuildColliders() {
-    const { RAPIER, world } = this.physics
-
+  /** Takes the yard's colliders out of the physics world; the next placement adds them again. */
+  removeColliders() {
+    const { world } = this.physics
     for (const collider of this.colliders) {
       world.removeCollider(collider, true)
     }
-    this.colliders = []
+    this.colliders.length = 0
+  }
+
+  private rebuildColliders() {
+    const { RAPIER, world } = this.physics
+
+    this.removeColliders()
 
     for (const def of this.colliderDefs) {
       const desc = RAPIER.ColliderDesc.cuboid(def.half.x, def.half.y, def.half.z)
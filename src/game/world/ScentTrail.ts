@@ -0,0 +1,112 @@
+import { Vector3 } from 'three'
+
+import { clamp } from '../utils/math'
+import { mulberry32 } from '../utils/random'
+import type { Terrain } from './Terrain'
+
+export type ScentTrailConfig = {
+  /** Distance between trail points in metres. */
+  spacing: number
+  /** How far the owner's path strays from the straight line, in radians. */
+  wander: number
+  /** The owner walks around slopes steeper than this, in degrees. */
+  maxSlope: number
+  /**
+   * Metres of trail, counted back from the owner, over which the scent halves
+   * in calm air: the far end is the oldest part of the walk.
+   */
+  halfLife: number
+}
+
+// Headings tried around the preferred one when the ground ahead is wet or steep.
+const DETOURS = [0, 0.35, -0.35, 0.7, -0.7, 1.1, -1.1, 1.5, -1.5]
+
+const DEG = Math.PI / 180
+
+/**
+ * The path the owner walked from where the dog starts to the yard, laid over
+ * the terrain: it wanders, goes around lakes and steep slopes, and its scent
+ * is strongest near the owner. Seeded per round like the rest of its content.
+ */
+export class ScentTrail {
+  readonly config: ScentTrailConfig
+  /** Start to owner, on the ground. */
+  readonly points: Vector3[] = []
+  /** Distance along the trail from each point to the owner. */
+  readonly toOwner: number[] = []
+
+  constructor(
+    private readonly terrain: Terrain,
+    config?: Partial<ScentTrailConfig>,
+  ) {
+    this.config = {
+      spacing: 3,
+      wander: 0.6,
+      maxSlope: 30,
+      halfLife: 260,
+      ...config,
+    }
+  }
+
+  generate(seed: number, from: Vector3, to: Vector3) {
+    const { terrain, config } = this
+    const rand = mulberry32(seed)
+    const { spacing } = config
+    const straight = Math.hypot(to.x - from.x, to.z - from.z)
+    const maxSteps = Math.ceil((straight / spacing) * 3) + 10
+
+    this.points.length = 0
+    let x = from.x
+    let z = from.z
+    let drift = 0
+    this.points.push(new Vector3(x, terrain.getHeightAt(x, z), z))
+
+    for (let i = 0; i < maxSteps; i++) {
+      const dx = to.x - x
+      const dz = to.z - z
+      const left = Math.hypot(dx, dz)
+      if (left <= spacing) break
+
+      // A slow random walk around the direct heading, calming down near the end.
+      drift = clamp(drift * 0.9 + (rand() - 0.5) * 0.5, -config.wander, config.wander)
+      const heading = Math.atan2(dz, dx) + drift * Math.min(1, left / 40)
+
+      let next: [number, number] | null = null
+      for (const detour of DETOURS) {
+        const nx = x + Math.cos(heading + detour) * spacing
+        const nz = z + Math.sin(heading + detour) * spacing
+        if (this.walkable(nx, nz)) {
+          next = [nx, nz]
+          break
+        }
+      }
+      // Nowhere dry and gentle: wade or climb straight through.
+      ;[x, z] = next ?? [x + (dx / left) * spacing, z + (dz / left) * spacing]
+      this.points.push(new Vector3(x, terrain.getHeightAt(x, z), z))
+    }
+    this.points.push(new Vector3(to.x, terrain.getHeightAt(to.x, to.z), to.z))
+
+    this.toOwner.length = this.points.length
+    this.toOwner[this.points.length - 1] = 0
+    for (let i = this.points.length - 2; i >= 0; i--) {
+      this.toOwner[i] = this.toOwner[i + 1] + this.points[i].distanceTo(this.points[i + 1])
+    }
+  }
+
+  /** Scent of one trail point, 0–1; `fade` above 1 (wind) makes it fade faster. */
+  pointStrength(index: number, fade: number) {
+    return 0.5 ** ((this.toOwner[index] * fade) / this.config.halfLife)
+  }
+
+  private walkable(x: number, z: number) {
+    const { terrain } = this
+    const { width, depth } = terrain.config
+    if (Math.abs(x) > width / 2 - 5 || Math.abs(z) > depth / 2 - 5) return false
+    if (terrain.isUnderwater(x, z, 0.2)) return false
+
+    const e = 1
+    const sx = terrain.getHeightAt(x + e, z) - terrain.getHeightAt(x - e, z)
+    const sz = terrain.getHeightAt(x, z + e) - terrain.getHeightAt(x, z - e)
+    return Math.atan(Math.hypot(sx, sz) / (2 * e)) <= this.config.maxSlope * DEG
+  }
+}
@@ -0,0 +1,160 @@
+import {
+  BufferAttribute,
+  BufferGeometry,
+  CanvasTexture,
+  Color,
+  Group,
+  Points,
+  PointsMaterial,
+  Vector3,
+} from 'three'
+
+import { mulberry32 } from '../utils/random'
+import type { ScentTrail } from './ScentTrail'
+import type { WeatherState } from './Weather'
+
+export type ScentWispsConfig = {
+  /** Trail points within this distance of the dog show wisps. */
+  range: number
+  wispsPerPoint: number
+  maxWisps: number
+  /** Wisp size in metres. */
+  size: number
+  color: string
+  /** Seconds of sniffing until the trail shows fully. */
+  revealTime: number
+  /** Seconds the trail takes to fade after the dog looks up. */
+  lingerTime: number
+}
+
+/**
+ * The owner's scent made visible while the dog sniffs: faint wisps rising from
+ * the trail around it, drifting downwind. Older parts of the trail, wind and
+ * distance from the dog all make them fainter. Only drawn, never simulated.
+ */
+export class ScentWisps {
+  readonly group = new Group()
+
+  private readonly cfg: ScentWispsConfig
+  private readonly points: Points<BufferGeometry, PointsMaterial>
+  private readonly positions: Float32Array
+  private readonly colors: Float32Array
+  /** Per-wisp offsets and phase, fixed so the wisps swirl instead of flickering. */
+  private readonly jitter: Float32Array
+  private readonly tint: Color
+  private reveal = 0
+  private time = 0
+
+  constructor(seed: number, config?: Partial<ScentWispsConfig>) {
+    this.cfg = {
+      range: 45,
+      wispsPerPoint: 3,
+      maxWisps: 600,
+      size: 0.5,
+      color: '#f3efc4',
+      revealTime: 0.5,
+      lingerTime: 2.5,
+      ...config,
+    }
+
+    const { maxWisps } = this.cfg
+    const rand = mulberry32(seed)
+    this.jitter = new Float32Array(maxWisps * 4)
+    for (let i = 0; i < this.jitter.length; i++) this.jitter[i] = rand()
+
+    this.positions = new Float32Array(maxWisps * 3)
+    this.colors = new Float32Array(maxWisps * 4)
+    this.tint = new Color(this.cfg.color)
+
+    const geometry = new BufferGeometry()
+    geometry.setAttribute('position', new BufferAttribute(this.positions, 3))
+    // RGBA: the alpha fades every wisp on its own.
+    geometry.setAttribute('color', new BufferAttribute(this.colors, 4))
+
+    this.points = new Points(
+      geometry,
+      new PointsMaterial({
+        size: this.cfg.size,
+        map: createWispTexture(),
+        vertexColors: true,
+        transparent: true,
+        depthWrite: false,
+      }),
+    )
+    this.points.frustumCulled = false
+    this.points.visible = false
+    this.group.add(this.points)
+  }
+
+  update(dt: number, trail: ScentTrail, dog: Vector3, sniffing: boolean, fade: number, weather: WeatherState) {
+    const { cfg } = this
+    this.time += dt
+    this.reveal = sniffing
+      ? Math.min(1, this.reveal + dt / cfg.revealTime)
+      : Math.max(0, this.reveal - dt / cfg.lingerTime)
+
+    this.points.visible = this.reveal > 0
+    if (!this.points.visible) return
+
+    const windX = Math.cos(weather.windAngle) * weather.wind
+    const windZ = Math.sin(weather.windAngle) * weather.wind
+    const { jitter, positions, colors, tint, time } = this
+    let count = 0
+
+    for (let i = 0; i < trail.points.length && count < cfg.maxWisps; i++) {
+      const p = trail.points[i]
+      const d = Math.hypot(p.x - dog.x, p.z - dog.z)
+      if (d >= cfg.range) continue
+
+      const strength = trail.pointStrength(i, fade) * (1 - d / cfg.range) * this.reveal
+      if (strength < 0.02) continue
+
+      for (let k = 0; k < cfg.wispsPerPoint && count < cfg.maxWisps; k++) {
+        const j = ((i * cfg.wispsPerPoint + k) % cfg.maxWisps) * 4
+        const phase = (time * 0.4 + jitter[j]) % 1
+        const swirl = time * 0.9 + jitter[j + 1] * Math.PI * 2
+
+        // Scattered around the trail, rising and carried off by the wind as they go.
+        const o = count * 3
+        positions[o] = p.x + (jitter[j + 2] - 0.5) * 1.6 + Math.sin(swirl) * 0.35 + windX * phase * 2.5
+        positions[o + 1] = p.y + 0.15 + phase * 1.1
+        positions[o + 2] = p.z + (jitter[j + 3] - 0.5) * 1.6 + Math.cos(swirl) * 0.35 + windZ * phase * 2.5
+
+        const c = count * 4
+        colors[c] = tint.r
+        colors[c + 1] = tint.g
+        colors[c + 2] = tint.b
+        colors[c + 3] = strength * Math.sin(phase * Math.PI) * 0.8
+        count++
+      }
+    }
+
+    const geometry = this.points.geometry
+    geometry.setDrawRange(0, count)
+    geometry.getAttribute('position').needsUpdate = true
+    geometry.getAttribute('color').needsUpdate = true
+  }
+
+  dispose() {
+    this.points.geometry.dispose()
+    this.points.material.map?.dispose()
+    this.points.material.dispose()
+    this.group.clear()
+  }
+}
+
+/** A soft round puff. */
+function createWispTexture() {
+  const size = 64
+  const canvas = document.createElement('canvas')
+  canvas.width = size
+  canvas.height = size
+  const ctx = canvas.getContext('2d')!
+  const gradient = ctx.createRadialGradient(size / 2, size / 2, 0, size / 2, size / 2, size / 2)
+  gradient.addColorStop(0, 'rgba(255, 255, 255, 1)')
+  gradient.addColorStop(0.4, 'rgba(255, 255, 255, 0.45)')
+  gradient.addColorStop(1, 'rgba(255, 255, 255, 0)')
+  ctx.fillStyle = gradient
+  ctx.fillRect(0, 0, size, size)
+  return new CanvasTexture(canvas)
+}
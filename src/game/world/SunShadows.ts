@@ -0,0 +1,174 @@
+import { DirectionalLight, Material, Mesh, PerspectiveCamera, Scene, Vector3 } from 'three'
+import { CSM } from 'three/examples/jsm/csm/CSM.js'
+
+export type ShadowQuality = 'low' | 'medium' | 'high' | 'ultra'
+
+export type ShadowPreset = {
+  /** Shadow map resolution per cascade. */
+  mapSize: number
+  /** 1 is a single map following the dog; more splits the view into cascades. */
+  cascades: number
+  /** Shadows end this far from the camera. */
+  distance: number
+}
+
+export const SHADOW_PRESETS: Record<ShadowQuality, ShadowPreset> = {
+  low: { mapSize: 1024, cascades: 1, distance: 60 },
+  medium: { mapSize: 2048, cascades: 1, distance: 90 },
+  high: { mapSize: 2048, cascades: 3, distance: 300 },
+  ultra: { mapSize: 4096, cascades: 3, distance: 500 },
+}
+
+export const SHADOW_QUALITIES = Object.keys(SHADOW_PRESETS) as ShadowQuality[]
+
+// The shadow camera sits this far up-sun of what it covers.
+const LIGHT_BACKOFF = 300
+const UP = new Vector3(0, 1, 0)
+
+/**
+ * Sun shadows that follow the dog. With one cascade the `DayNight` sun keeps
+ * casting and its shadow box is re-centred on the dog each frame; with more,
+ * three's `CSM` lights take over the sun's light and split the view into
+ * cascades. Either way the box only moves in whole shadow-map texels, so
+ * shadow edges do not crawl as the dog walks.
+ */
+export class SunShadows {
+  readonly preset: ShadowPreset
+
+  private readonly csm: CSM | null = null
+  private readonly prepared = new WeakSet<Material>()
+
+  // Light-space axes for texel snapping.
+  private readonly right = new Vector3()
+  private readonly up = new Vector3()
+  private readonly center = new Vector3()
+
+  constructor(
+    private readonly scene: Scene,
+    private readonly sun: DirectionalLight,
+    private readonly sunDirection: Vector3,
+    camera: PerspectiveCamera,
+    quality: ShadowQuality,
+  ) {
+    this.preset = SHADOW_PRESETS[quality]
+    const { mapSize, cascades, distance } = this.preset
+
+    if (cascades > 1) {
+      sun.castShadow = false
+      this.csm = new CSM({
+        camera,
+        parent: scene,
+        cascades,
+        maxFar: distance,
+        mode: 'practical',
+        shadowMapSize: mapSize,
+        lightDirection: sunDirection.clone().negate(),
+        lightIntensity: sun.intensity,
+        lightFar: LIGHT_BACKOFF * 2 + distance,
+        lightMargin: LIGHT_BACKOFF,
+        shadowBias: -0.0003,
+      })
+      return
+    }
+
+    sun.castShadow = true
+    sun.shadow.mapSize.set(mapSize, mapSize)
+    sun.shadow.bias = -0.0003
+    const cam = sun.shadow.camera
+    cam.near = 1
+    cam.far = LIGHT_BACKOFF * 2
+    cam.left = -distance
+    cam.right = distance
+    cam.top = distance
+    cam.bottom = -distance
+    cam.updateProjectionMatrix()
+  }
+
+  /** Call after the sun has been updated for the frame and before rendering. */
+  update(focus: Vector3) {
+    if (this.csm) {
+      this.updateCascades()
+    } else {
+      this.followFocus(focus)
+    }
+  }
+
+  /** The cascades are cut from the camera frustum, so they change with the aspect ratio. */
+  onCameraChange() {
+    this.csm?.updateFrustums()
+  }
+
+  private followFocus(focus: Vector3) {
+    const { sun, sunDirection, right, up, center } = this
+    const texel = (2 * this.preset.distance) / this.preset.mapSize
+
+    right.crossVectors(UP, sunDirection)
+    if (right.lengthSq() < 1e-6) right.set(1, 0, 0)
+    right.normalize()
+    up.crossVectors(sunDirection, right)
+
+    // Snap the part of the focus across the light; along the light it does not matter.
+    const x = Math.round(focus.dot(right) / texel) * texel
+    const y = Math.round(focus.dot(up) / texel) * texel
+    center.copy(sunDirection).multiplyScalar(focus.dot(sunDirection)).addScaledVector(right, x).addScaledVector(up, y)
+
+    sun.target.position.copy(center)
+    sun.position.copy(center).addScaledVector(sunDirection, LIGHT_BACKOFF)
+  }
+
+  private updateCascades() {
+    const { csm, sun } = this
+    if (!csm) return
+
+    // The CSM lights stand in for the sun, which stays in the scene only as the source of truth.
+    csm.lightDirection.copy(this.sunDirection).negate()
+    for (const light of csm.lights) {
+      light.color.copy(sun.color)
+      light.intensity = sun.intensity
+      light.visible = sun.intensity > 0
+    }
+    sun.visible = false
+
+    this.prepareMaterials()
+    csm.update()
+  }
+
+  /** Lit materials need the CSM defines; models load at any time, so new ones are picked up every frame. */
+  private prepareMaterials() {
+    this.scene.traverse((obj) => {
+      const mesh = obj as Mesh
+      if (!mesh.isMesh) return
+      for (const material of [mesh.material].flat()) {
+        if (this.prepared.has(material) || !isLit(material)) continue
+        this.prepared.add(material)
+        this.setupMaterial(material)
+      }
+    })
+  }
+
+  /** `CSM.setupMaterial` replaces `onBeforeCompile`; keep whatever the material injected already. */
+  private setupMaterial(material: Material) {
+    const csm = this.csm!
+    const previous = material.onBeforeCompile
+    const previousKey = material.customProgramCacheKey()
+
+    csm.setupMaterial(material)
+    const csmCompile = material.onBeforeCompile
+
+    material.onBeforeCompile = (shader, renderer) => {
+      previous.call(material, shader, renderer)
+      csmCompile.call(material, shader, renderer)
+    }
+    material.customProgramCacheKey = () => `${previousKey}|${previous.toString()}|csm`
+    material.needsUpdate = true
+  }
+}
+
+function isLit(material: Material) {
+  return (
+    'isMeshStandardMaterial' in material ||
+    'isMeshLambertMaterial' in material ||
+    'isMeshPhongMaterial' in material ||
+    'isMeshToonMaterial' in material
+  )
+}
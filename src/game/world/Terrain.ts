@@ -1,7 +1,10 @@
-import { BufferAttribute, CanvasTexture, Mesh, MeshStandardMaterial, PlaneGeometry, RepeatWrapping, SRGBColorSpace } from 'three'
+import type { Collider } from '@dimforge/rapier3d-compat'
 import { createNoise2D } from 'simplex-noise'
 
 import type { Physics } from '../physics/Physics'
+import { smoothstep } from '../utils/math'
+import { deriveSeed, mulberry32 } from '../utils/random'
+import { Biomes, type BiomeConfig } from './Biomes'
 
 export type TerrainConfig = {
   size: number
@@ -11,15 +14,55 @@ export type TerrainConfig = {
   seed: number
   borderWidth: number
   borderHeight: number
+  /** Everything below this height is under water: valleys become lakes. */
+  waterLevel: number
+  /** Width of the carved river beds in metres; 0 disables rivers. */
+  riverWidth: number
+  /** How far river beds sink below `waterLevel`. */
+  riverDepth: number
+  /** Grid cells per chunk side; chunks are the unit of rendering LOD and collider streaming. */
+  chunkCells: number
+  /** Chunks whose nearest edge is within this distance of the dog have colliders. */
+  physicsRadius: number
+  /** Collision shape per chunk; `trimesh` is kept for comparison, see `src/game/benchTerrainColliders.ts`. */
+  collider: TerrainColliderKind
+  biomes: Partial<BiomeConfig>
 }
 
+export type TerrainColliderKind = 'heightfield' | 'trimesh'
+
+// River noise frequency: the beds bend about every 450 m.
+const RIVER_FREQUENCY = 1 / 450
+
+/** A square block of grid cells, `[x0, x0 + cellsX] × [z0, z0 + cellsZ]` in grid coordinates. */
+export type TerrainChunk = {
+  key: string
+  cx: number
+  cz: number
+  x0: number
+  z0: number
+  cellsX: number
+  cellsZ: number
+}
+
+/**
+ * Height data for the whole map plus its chunk layout and ground layers
+ * (`Biomes`). Rendering lives in `TerrainMesh`; collision is streamed here
+ * chunk by chunk around the dog.
+ */
 export class Terrain {
   readonly config: TerrainConfig
   readonly heights: Float32Array
-  readonly mesh: Mesh
+  readonly biomes: Biomes
+  readonly chunks: TerrainChunk[] = []
+  readonly chunkCountX: number
+  readonly chunkCountZ: number
 
-  private readonly stepX: number
-  private readonly stepZ: number
+  readonly stepX: number
+  readonly stepZ: number
+
+  private physics: Physics | null = null
+  private readonly colliders = new Map<string, Collider>()
 
   constructor(config?: Partial<TerrainConfig>) {
     this.config = {
@@ -30,6 +73,13 @@ export class Terrain {
       seed: 1337,
       borderWidth: 120,
       borderHeight: 140,
+      waterLevel: -12,
+      riverWidth: 14,
+      riverDepth: 2.5,
+      chunkCells: 64,
+      physicsRadius: 160,
+      collider: 'heightfield',
+      biomes: {},
       ...config,
     }
 
@@ -39,31 +89,148 @@ export class Terrain {
 
     this.heights = new Float32Array(size * size)
     this.generateHeights()
+    this.biomes = new Biomes(this, this.config.biomes)
+
+    const cells = size - 1
+    const chunkCells = Math.min(this.config.chunkCells, cells)
+    this.chunkCountX = Math.ceil(cells / chunkCells)
+    this.chunkCountZ = this.chunkCountX
+
+    for (let cx = 0; cx < this.chunkCountX; cx++) {
+      for (let cz = 0; cz < this.chunkCountZ; cz++) {
+        const x0 = cx * chunkCells
+        const z0 = cz * chunkCells
+        this.chunks.push({
+          key: `${cx},${cz}`,
+          cx,
+          cz,
+          x0,
+          z0,
+          cellsX: Math.min(chunkCells, cells - x0),
+          cellsZ: Math.min(chunkCells, cells - z0),
+        })
+      }
+    }
+  }
+
+  /** Height at a grid vertex (clamped to the map). */
+  heightAtGrid(gx: number, gz: number) {
+    const { size } = this.config
+    return this.heights[clampInt(gx, 0, size - 1) * size + clampInt(gz, 0, size - 1)]
+  }
+
+  gridToWorldX(gx: number) {
+    return gx * this.stepX - this.config.width / 2
+  }
+
+  gridToWorldZ(gz: number) {
+    return gz * this.stepZ - this.config.depth / 2
+  }
+
+  /** Horizontal distance from (x, z) to the nearest point of a chunk. */
+  distanceToChunk(chunk: TerrainChunk, x: number, z: number) {
+    const minX = this.gridToWorldX(chunk.x0)
+    const maxX = this.gridToWorldX(chunk.x0 + chunk.cellsX)
+    const minZ = this.gridToWorldZ(chunk.z0)
+    const maxZ = this.gridToWorldZ(chunk.z0 + chunk.cellsZ)
 
-    this.mesh = this.buildMesh()
+    const dx = Math.max(minX - x, 0, x - maxX)
+    const dz = Math.max(minZ - z, 0, z - maxZ)
+    return Math.hypot(dx, dz)
   }
 
-  addPhysicsCollider(physics: Physics) {
-    const { RAPIER, world } = physics
+  getChunk(cx: number, cz: number): TerrainChunk | undefined {
+    if (cx < 0 || cz < 0 || cx >= this.chunkCountX || cz >= this.chunkCountZ) return undefined
+    return this.chunks[cx * this.chunkCountZ + cz]
+  }
 
-    const geometry = this.mesh.geometry
-    const positionAttr = geometry.attributes.position as BufferAttribute
-    const positions = new Float32Array(positionAttr.array)
+  /** Enables collision; colliders appear as `streamColliders` is called. */
+  attachPhysics(physics: Physics) {
+    this.physics = physics
+  }
 
-    const indexAttr = geometry.index
-    if (!indexAttr) {
-      throw new Error('Terrain geometry is missing indices')
+  /** Keeps colliders on the chunks within `physicsRadius` of (x, z) and drops the rest. */
+  streamColliders(x: number, z: number) {
+    const physics = this.physics
+    if (!physics) return
+
+    // Fixed iteration order keeps collider creation, and so the simulation, deterministic.
+    for (const chunk of this.chunks) {
+      const wanted = this.distanceToChunk(chunk, x, z) <= this.config.physicsRadius
+      const collider = this.colliders.get(chunk.key)
+
+      if (wanted && !collider) {
+        this.colliders.set(chunk.key, this.createChunkCollider(physics, chunk))
+      } else if (!wanted && collider) {
+        physics.world.removeCollider(collider, false)
+        this.colliders.delete(chunk.key)
+      }
     }
+  }
 
-    const indices =
-      indexAttr.array instanceof Uint32Array
-        ? indexAttr.array
-        : new Uint32Array(indexAttr.array)
+  /** Removes every streamed collider; the next `streamColliders` builds them again in its fixed order. */
+  dropColliders() {
+    for (const collider of this.colliders.values()) this.physics?.world.removeCollider(collider, false)
+    this.colliders.clear()
+  }
 
-    const colliderDesc = RAPIER.ColliderDesc.trimesh(positions, indices)
+  private createChunkCollider(physics: Physics, chunk: TerrainChunk) {
+    const colliderDesc =
+      this.config.collider === 'heightfield' ? this.heightfieldDesc(physics, chunk) : this.trimeshDesc(physics, chunk)
     colliderDesc.setFriction(1.0)
 
-    world.createCollider(colliderDesc)
+    return physics.world.createCollider(colliderDesc)
+  }
+
+  /**
+   * The chunk's block of `heights`, copied as-is. Rapier centres the heightfield
+   * on its collider and splits each cell along the same diagonal as `gridIndices`,
+   * so it matches the rendered surface exactly.
+   */
+  private heightfieldDesc(physics: Physics, chunk: TerrainChunk) {
+    const { RAPIER } = physics
+    const { cellsX, cellsZ } = chunk
+
+    // Rows run along z and columns along x; both counts are cells, not vertices.
+    const heights = new Float32Array((cellsX + 1) * (cellsZ + 1))
+    for (let i = 0; i <= cellsX; i++) {
+      for (let j = 0; j <= cellsZ; j++) {
+        heights[i * (cellsZ + 1) + j] = this.heightAtGrid(chunk.x0 + i, chunk.z0 + j)
+      }
+    }
+
+    const scale = { x: cellsX * this.stepX, y: 1, z: cellsZ * this.stepZ }
+    return RAPIER.ColliderDesc.heightfield(cellsZ, cellsX, heights, scale, RAPIER.HeightFieldFlags.FIX_INTERNAL_EDGES)
+      .setTranslation(this.gridToWorldX(chunk.x0 + cellsX / 2), 0, this.gridToWorldZ(chunk.z0 + cellsZ / 2))
+  }
+
+  private trimeshDesc(physics: Physics, chunk: TerrainChunk) {
+    const vx = chunk.cellsX + 1
+    const vz = chunk.cellsZ + 1
+
+    const positions = new Float32Array(vx * vz * 3)
+    for (let i = 0; i < vx; i++) {
+      for (let j = 0; j < vz; j++) {
+        const gx = chunk.x0 + i
+        const gz = chunk.z0 + j
+        const o = (j * vx + i) * 3
+        positions[o] = this.gridToWorldX(gx)
+        positions[o + 1] = this.heightAtGrid(gx, gz)
+        positions[o + 2] = this.gridToWorldZ(gz)
+      }
+    }
+
+    return physics.RAPIER.ColliderDesc.trimesh(positions, gridIndices(vx, vz))
+  }
+
+  /** Water depth at (x, z); negative on dry land (how far the ground is above the surface). */
+  waterDepthAt(x: number, z: number) {
+    return this.config.waterLevel - this.getHeightAt(x, z)
+  }
+
+  /** True when the ground at (x, z) is less than `margin` above the water surface. */
+  isUnderwater(x: number, z: number, margin = 0) {
+    return this.waterDepthAt(x, z) > -margin
   }
 
   getHeightAt(x: number, z: number) {
@@ -99,6 +266,7 @@ export class Terrain {
   private generateHeights() {
     const rand = mulberry32(this.config.seed)
     const noise2D = createNoise2D(rand)
+    const riverNoise2D = createNoise2D(mulberry32(deriveSeed(this.config.seed, 'rivers')))
 
     const { size, width, depth, maxHeight, borderWidth, borderHeight } = this.config
 
@@ -108,7 +276,7 @@ export class Terrain {
         const wx = (x / (size - 1) - 0.5) * width
         const wz = (z / (size - 1) - 0.5) * depth
 
-        const h = this.heightFn(noise2D, wx, wz, maxHeight)
+        const h = this.carveRiver(riverNoise2D, wx, wz, this.heightFn(noise2D, wx, wz, maxHeight))
         const border = borderMountain(wx, wz, width, depth, borderWidth, borderHeight)
 
         // Rapier heightfield expects column-major order.
@@ -117,6 +285,23 @@ export class Terrain {
     }
   }
 
+  /**
+   * Sinks a band along the zero line of a low-frequency noise below the water
+   * level, so rivers wind between the lakes. The spawn point stays dry.
+   */
+  private carveRiver(noise2D: (x: number, y: number) => number, x: number, z: number, h: number) {
+    const { waterLevel, riverWidth, riverDepth } = this.config
+    if (riverWidth <= 0) return h
+
+    // Noise changes by about 1.7 per unit near its zero line, which turns |n| into metres.
+    const distance = (Math.abs(noise2D(x * RIVER_FREQUENCY, z * RIVER_FREQUENCY)) / 1.7) / RIVER_FREQUENCY
+    const half = riverWidth / 2
+    const bed = 1 - smoothstep(half, half + riverWidth * 2, distance)
+    const mask = bed * smoothstep(30, 60, Math.hypot(x, z))
+
+    return Math.min(h, h + (waterLevel - riverDepth - h) * mask)
+  }
+
   private heightFn(
     noise2D: (x: number, y: number) => number,
     x: number,
@@ -144,87 +329,32 @@ export class Terrain {
     const shaped = Math.sign(n) * Math.pow(Math.abs(n), 1.35)
     return shaped * maxHeight
   }
-
-  private buildMesh() {
-    const { width, depth, size } = this.config
-
-    const geometry = new PlaneGeometry(width, depth, size - 1, size - 1)
-    geometry.rotateX(-Math.PI / 2)
-
-    const position = geometry.attributes.position as BufferAttribute
-    for (let i = 0; i < position.count; i++) {
-      const x = i % size
-      const z = Math.floor(i / size)
-
-      // After rotateX, Y is up.
-      const y = this.heights[x * size + z]
-      position.setY(i, y)
-    }
-
-    position.needsUpdate = true
-    geometry.computeVertexNormals()
-
-    const material = new MeshStandardMaterial({
-      color: 0xffffff,
-      roughness: 1.0,
-      metalness: 0.0,
-    })
-
-    const grassTexture = createGrassTexture()
-    material.map = grassTexture
-
-    const mesh = new Mesh(geometry, material)
-    mesh.receiveShadow = true
-    return mesh
-  }
 }
 
-function createGrassTexture() {
-  const size = 256
-  const canvas = document.createElement('canvas')
-  canvas.width = size
-  canvas.height = size
-
-  const ctx = canvas.getContext('2d')
-  if (!ctx) throw new Error('Unable to get canvas context')
-
-  ctx.fillStyle = '#2f6f3c'
-  ctx.fillRect(0, 0, size, size)
-
-  for (let i = 0; i < 12000; i++) {
-    const x = Math.random() * size
-    const y = Math.random() * size
-    const light = 80 + Math.random() * 60
-    ctx.fillStyle = `rgba(${30 + light * 0.25}, ${90 + light * 0.6}, ${40 + light * 0.2}, 0.6)`
-    ctx.fillRect(x, y, 1, 1)
-  }
-
-  for (let i = 0; i < 2200; i++) {
-    const x = Math.random() * size
-    const y = Math.random() * size
-    ctx.fillStyle = 'rgba(20, 60, 25, 0.5)'
-    ctx.fillRect(x, y, 2, 2)
+/** Two triangles per cell of a `vx × vz` vertex grid laid out row by row (x fastest). */
+export function gridIndices(vx: number, vz: number) {
+  const indices = new Uint32Array((vx - 1) * (vz - 1) * 6)
+  let o = 0
+  for (let j = 0; j < vz - 1; j++) {
+    for (let i = 0; i < vx - 1; i++) {
+      const a = j * vx + i
+      const b = a + vx
+      // Same winding as PlaneGeometry after rotateX(-PI / 2): faces point up.
+      indices[o++] = a
+      indices[o++] = b
+      indices[o++] = a + 1
+      indices[o++] = b
+      indices[o++] = b + 1
+      indices[o++] = a + 1
+    }
   }
-
-  const texture = new CanvasTexture(canvas)
-  texture.colorSpace = SRGBColorSpace
-  texture.wrapS = RepeatWrapping
-  texture.wrapT = RepeatWrapping
-  texture.repeat.set(64, 64)
-  texture.anisotropy = 8
-  texture.needsUpdate = true
-
-  return texture
+  return indices
 }
 
 function clampInt(value: number, min: number, max: number) {
   return Math.min(max, Math.max(min, value))
 }
 
-function smoothstep(t: number) {
-  return t * t * (3 - 2 * t)
-}
-
 function borderMountain(
   x: number,
   z: number,
@@ -240,16 +370,5 @@ function borderMountain(
   if (distToEdge >= borderWidth) return 0
 
   const t = 1 - distToEdge / borderWidth
-  return smoothstep(t) * borderHeight
-}
-
-function mulberry32(seed: number) {
-  let a = seed | 0
-  return function () {
-    a |= 0
-    a = (a + 0x6d2b79f5) | 0
-    let t = Math.imul(a ^ (a >>> 15), 1 | a)
-    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t
-    return ((t ^ (t >>> 14)) >>> 0) / 4294967296
-  }
+  return smoothstep(0, 1, t) * borderHeight
 }
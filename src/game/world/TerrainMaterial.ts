@@ -0,0 +1,183 @@
+import {
+  CanvasTexture,
+  DataTexture,
+  LinearFilter,
+  MeshStandardMaterial,
+  RepeatWrapping,
+  RGBAFormat,
+  SRGBColorSpace,
+  Vector2,
+  type Texture,
+} from 'three'
+
+import type { GroundLayer } from './Biomes'
+import type { Terrain } from './Terrain'
+import { addWeatherShading } from './WeatherShading'
+import { deriveSeed, mulberry32, type Rng } from '../utils/random'
+
+type GroundPalette = {
+  base: string
+  /** Speckle color is `offset + light * scale` per channel, light in 80..140. */
+  speckleOffset: [number, number, number]
+  speckleScale: [number, number, number]
+  spot: string
+}
+
+const PALETTES: Record<GroundLayer, GroundPalette> = {
+  grass: { base: '#2f6f3c', speckleOffset: [30, 90, 40], speckleScale: [0.25, 0.6, 0.2], spot: 'rgba(20, 60, 25, 0.5)' },
+  dirt: { base: '#6b4f35', speckleOffset: [70, 48, 30], speckleScale: [0.5, 0.4, 0.3], spot: 'rgba(50, 35, 22, 0.5)' },
+  rock: { base: '#6f6d68', speckleOffset: [55, 55, 53], speckleScale: [0.55, 0.55, 0.55], spot: 'rgba(40, 40, 42, 0.5)' },
+  sand: { base: '#c8b48a', speckleOffset: [140, 122, 88], speckleScale: [0.5, 0.45, 0.35], spot: 'rgba(160, 140, 100, 0.4)' },
+  snow: { base: '#e8eef5', speckleOffset: [185, 195, 210], speckleScale: [0.35, 0.33, 0.3], spot: 'rgba(200, 210, 225, 0.5)' },
+}
+
+// Ground textures tile this many metres (64 repeats over the original 1000 m map).
+const TEXTURE_TILE = 1000 / 64
+
+/**
+ * Terrain material: `MeshStandardMaterial` lighting with the albedo blended
+ * from five ground textures by the `Biomes` splat map. Rock is projected from
+ * three sides so cliffs are not smeared.
+ */
+export class TerrainMaterial {
+  readonly material: MeshStandardMaterial
+
+  private readonly textures: Texture[] = []
+
+  constructor(terrain: Terrain) {
+    const { size, width, depth, seed } = terrain.config
+
+    const splat = new DataTexture(terrain.biomes.splat, size, size, RGBAFormat)
+    splat.magFilter = LinearFilter
+    splat.minFilter = LinearFilter
+    splat.needsUpdate = true
+    this.textures.push(splat)
+
+    const ground = (layer: GroundLayer) => {
+      const texture = createGroundTexture(mulberry32(deriveSeed(seed, `${layer}-texture`)), PALETTES[layer])
+      this.textures.push(texture)
+      return { value: texture }
+    }
+
+    const uniforms = {
+      splatMap: { value: splat },
+      grassMap: ground('grass'),
+      dirtMap: ground('dirt'),
+      rockMap: ground('rock'),
+      sandMap: ground('sand'),
+      snowMap: ground('snow'),
+      terrainHalfSize: { value: new Vector2(width / 2, depth / 2) },
+      terrainStep: { value: new Vector2(terrain.stepX, terrain.stepZ) },
+      terrainGridSize: { value: size },
+      groundTile: { value: TEXTURE_TILE },
+    }
+
+    this.material = new MeshStandardMaterial({
+      color: 0xffffff,
+      roughness: 1.0,
+      metalness: 0.0,
+    })
+
+    this.material.onBeforeCompile = (shader) => {
+      Object.assign(shader.uniforms, uniforms)
+
+      shader.vertexShader = shader.vertexShader
+        .replace(
+          '#include <common>',
+          `#include <common>
+varying vec3 vTerrainPos;
+varying vec3 vTerrainNormal;`,
+        )
+        .replace(
+          '#include <begin_vertex>',
+          `#include <begin_vertex>
+vTerrainPos = (modelMatrix * vec4(transformed, 1.0)).xyz;
+vTerrainNormal = mat3(modelMatrix) * normal;`,
+        )
+
+      shader.fragmentShader = shader.fragmentShader
+        .replace(
+          '#include <common>',
+          `#include <common>
+uniform sampler2D splatMap;
+uniform sampler2D grassMap;
+uniform sampler2D dirtMap;
+uniform sampler2D rockMap;
+uniform sampler2D sandMap;
+uniform sampler2D snowMap;
+uniform vec2 terrainHalfSize;
+uniform vec2 terrainStep;
+uniform float terrainGridSize;
+uniform float groundTile;
+varying vec3 vTerrainPos;
+varying vec3 vTerrainNormal;`,
+        )
+        .replace(
+          '#include <map_fragment>',
+          `// Splat texels sit on grid vertices: dirt, rock, sand, snow; grass is the rest.
+vec2 splatUv = ((vTerrainPos.xz + terrainHalfSize) / terrainStep + 0.5) / terrainGridSize;
+vec4 splat = texture2D(splatMap, splatUv);
+float grassWeight = max(0.0, 1.0 - dot(splat, vec4(1.0)));
+
+vec2 groundUv = vTerrainPos.xz / groundTile;
+vec3 axisWeights = abs(normalize(vTerrainNormal));
+axisWeights /= axisWeights.x + axisWeights.y + axisWeights.z;
+vec3 rock = texture2D(rockMap, groundUv).rgb * axisWeights.y
+  + texture2D(rockMap, vTerrainPos.zy / groundTile).rgb * axisWeights.x
+  + texture2D(rockMap, vTerrainPos.xy / groundTile).rgb * axisWeights.z;
+
+vec3 ground = texture2D(grassMap, groundUv).rgb * grassWeight
+  + texture2D(dirtMap, groundUv).rgb * splat.r
+  + rock * splat.g
+  + texture2D(sandMap, groundUv).rgb * splat.b
+  + texture2D(snowMap, groundUv).rgb * splat.a;
+diffuseColor.rgb *= ground / max(grassWeight + dot(splat, vec4(1.0)), 1e-3);`,
+        )
+    }
+    addWeatherShading(this.material)
+  }
+
+  dispose() {
+    for (const texture of this.textures) texture.dispose()
+    this.material.dispose()
+  }
+}
+
+function createGroundTexture(rand: Rng, palette: GroundPalette) {
+  const size = 256
+  const canvas = document.createElement('canvas')
+  canvas.width = size
+  canvas.height = size
+
+  const ctx = canvas.getContext('2d')
+  if (!ctx) throw new Error('Unable to get canvas context')
+
+  ctx.fillStyle = palette.base
+  ctx.fillRect(0, 0, size, size)
+
+  const [r0, g0, b0] = palette.speckleOffset
+  const [rs, gs, bs] = palette.speckleScale
+  for (let i = 0; i < 12000; i++) {
+    const x = rand() * size
+    const y = rand() * size
+    const light = 80 + rand() * 60
+    ctx.fillStyle = `rgba(${r0 + light * rs}, ${g0 + light * gs}, ${b0 + light * bs}, 0.6)`
+    ctx.fillRect(x, y, 1, 1)
+  }
+
+  for (let i = 0; i < 2200; i++) {
+    const x = rand() * size
+    const y = rand() * size
+    ctx.fillStyle = palette.spot
+    ctx.fillRect(x, y, 2, 2)
+  }
+
+  const texture = new CanvasTexture(canvas)
+  texture.colorSpace = SRGBColorSpace
+  texture.wrapS = RepeatWrapping
+  texture.wrapT = RepeatWrapping
+  texture.anisotropy = 8
+  texture.needsUpdate = true
+
+  return texture
+}
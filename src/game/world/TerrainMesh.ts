@@ -0,0 +1,206 @@
+import { BufferAttribute, BufferGeometry, Group, Mesh, Vector3 } from 'three'
+
+import { gridIndices, type Terrain, type TerrainChunk } from './Terrain'
+import { TerrainMaterial } from './TerrainMaterial'
+
+export type TerrainMeshConfig = {
+  /** Distances at which a chunk drops to the next level of detail (every level halves the grid). */
+  lodDistances: number[]
+  /** Chunks farther than this are unloaded; keep it around the fog's far distance. */
+  viewDistance: number
+}
+
+type LoadedChunk = {
+  chunk: TerrainChunk
+  mesh: Mesh
+  /** LOD the geometry was built for, plus the LOD of each neighbour it is stitched to. */
+  signature: string
+}
+
+// Neighbour offsets: -x, +x, -z, +z.
+const SIDES = [
+  [-1, 0],
+  [1, 0],
+  [0, -1],
+  [0, 1],
+] as const
+
+/**
+ * Draws `Terrain` as one mesh per chunk. Chunks near the viewer use the full
+ * grid, farther ones skip every 2nd, 4th… vertex; the edge next to a coarser
+ * neighbour is flattened onto that neighbour's edge so no cracks open. Chunks
+ * beyond `viewDistance` are unloaded, and three.js frustum-culls the rest.
+ */
+export class TerrainMesh {
+  readonly group = new Group()
+
+  private readonly cfg: TerrainMeshConfig
+  private readonly material: TerrainMaterial
+  private readonly loaded = new Map<string, LoadedChunk>()
+  private readonly lods = new Map<string, number>()
+
+  constructor(
+    private readonly terrain: Terrain,
+    config?: Partial<TerrainMeshConfig>,
+  ) {
+    this.cfg = {
+      lodDistances: [120, 260, 480],
+      viewDistance: 1100,
+      ...config,
+    }
+
+    this.material = new TerrainMaterial(terrain)
+  }
+
+  /** Chunks beyond this distance from the viewer are unloaded on the next `update`. */
+  setViewDistance(distance: number) {
+    this.cfg.viewDistance = distance
+  }
+
+  /** Picks LODs around the viewer, streams chunks in and out and rebuilds what changed. */
+  update(viewer: Vector3) {
+    const { terrain } = this
+
+    this.lods.clear()
+    for (const chunk of terrain.chunks) {
+      const distance = terrain.distanceToChunk(chunk, viewer.x, viewer.z)
+      if (distance > this.cfg.viewDistance) continue
+      this.lods.set(chunk.key, this.lodFor(chunk, distance))
+    }
+
+    for (const [key, loaded] of this.loaded) {
+      if (this.lods.has(key)) continue
+      this.group.remove(loaded.mesh)
+      loaded.mesh.geometry.dispose()
+      this.loaded.delete(key)
+    }
+
+    for (const chunk of terrain.chunks) {
+      const lod = this.lods.get(chunk.key)
+      if (lod === undefined) continue
+
+      const neighbourLods = SIDES.map(([dx, dz]) => {
+        const neighbour = terrain.getChunk(chunk.cx + dx, chunk.cz + dz)
+        return (neighbour && this.lods.get(neighbour.key)) ?? lod
+      })
+      const signature = `${lod}:${neighbourLods.join(',')}`
+
+      const loaded = this.loaded.get(chunk.key)
+      if (loaded?.signature === signature) continue
+
+      const geometry = this.buildGeometry(chunk, lod, neighbourLods)
+      if (loaded) {
+        loaded.mesh.geometry.dispose()
+        loaded.mesh.geometry = geometry
+        loaded.signature = signature
+      } else {
+        const mesh = new Mesh(geometry, this.material.material)
+        mesh.receiveShadow = true
+        this.group.add(mesh)
+        this.loaded.set(chunk.key, { chunk, mesh, signature })
+      }
+    }
+  }
+
+  dispose() {
+    for (const loaded of this.loaded.values()) {
+      loaded.mesh.geometry.dispose()
+    }
+    this.loaded.clear()
+    this.group.clear()
+    this.material.dispose()
+  }
+
+  /** Level of detail for a chunk; capped so the grid step still divides the chunk. */
+  private lodFor(chunk: TerrainChunk, distance: number) {
+    let lod = 0
+    while (lod < this.cfg.lodDistances.length && distance > this.cfg.lodDistances[lod]) lod++
+
+    while (lod > 0 && (chunk.cellsX % (1 << lod) !== 0 || chunk.cellsZ % (1 << lod) !== 0)) lod--
+    return lod
+  }
+
+  private buildGeometry(chunk: TerrainChunk, lod: number, neighbourLods: number[]) {
+    const { terrain } = this
+    const step = 1 << lod
+    const vx = chunk.cellsX / step + 1
+    const vz = chunk.cellsZ / step + 1
+
+    const positions = new Float32Array(vx * vz * 3)
+    const normals = new Float32Array(vx * vz * 3)
+    const normal = new Vector3()
+
+    for (let j = 0; j < vz; j++) {
+      for (let i = 0; i < vx; i++) {
+        const gx = chunk.x0 + i * step
+        const gz = chunk.z0 + j * step
+        const v = j * vx + i
+
+        positions[v * 3] = terrain.gridToWorldX(gx)
+        positions[v * 3 + 1] = this.edgeHeight(chunk, gx, gz, i, j, vx, vz, step, neighbourLods)
+        positions[v * 3 + 2] = terrain.gridToWorldZ(gz)
+
+        // Normals come from the full-resolution grid so shading matches across LODs and chunks.
+        gridNormal(terrain, gx, gz, normal)
+        normals[v * 3] = normal.x
+        normals[v * 3 + 1] = normal.y
+        normals[v * 3 + 2] = normal.z
+      }
+    }
+
+    const geometry = new BufferGeometry()
+    geometry.setAttribute('position', new BufferAttribute(positions, 3))
+    geometry.setAttribute('normal', new BufferAttribute(normals, 3))
+    geometry.setIndex(new BufferAttribute(gridIndices(vx, vz), 1))
+    geometry.computeBoundingBox()
+    geometry.computeBoundingSphere()
+    return geometry
+  }
+
+  /**
+   * Height of a vertex; on an edge shared with a coarser neighbour, vertices the
+   * neighbour does not have are moved onto its straight edge to close the crack.
+   */
+  private edgeHeight(
+    chunk: TerrainChunk,
+    gx: number,
+    gz: number,
+    i: number,
+    j: number,
+    vx: number,
+    vz: number,
+    step: number,
+    neighbourLods: number[],
+  ) {
+    const { terrain } = this
+
+    const onSide = [i === 0, i === vx - 1, j === 0, j === vz - 1]
+    for (let side = 0; side < 4; side++) {
+      if (!onSide[side]) continue
+
+      const coarse = 1 << neighbourLods[side]
+      if (coarse <= step) continue
+
+      // Along -x/+x edges the edge runs in z, and vice versa.
+      const alongZ = side < 2
+      const along = alongZ ? gz : gx
+      const origin = alongZ ? chunk.z0 : chunk.x0
+      const offset = (along - origin) % coarse
+      if (offset === 0) continue
+
+      const a = along - offset
+      const b = a + coarse
+      const ha = alongZ ? terrain.heightAtGrid(gx, a) : terrain.heightAtGrid(a, gz)
+      const hb = alongZ ? terrain.heightAtGrid(gx, b) : terrain.heightAtGrid(b, gz)
+      return ha + ((hb - ha) * offset) / coarse
+    }
+
+    return terrain.heightAtGrid(gx, gz)
+  }
+}
+
+function gridNormal(terrain: Terrain, gx: number, gz: number, out: Vector3) {
+  const dx = (terrain.heightAtGrid(gx + 1, gz) - terrain.heightAtGrid(gx - 1, gz)) / (2 * terrain.stepX)
+  const dz = (terrain.heightAtGrid(gx, gz + 1) - terrain.heightAtGrid(gx, gz - 1)) / (2 * terrain.stepZ)
+  return out.set(-dx, 1, -dz).normalize()
+}
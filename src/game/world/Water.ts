@@ -0,0 +1,105 @@
+import { Color, Group, Mesh, MeshStandardMaterial, PlaneGeometry } from 'three'
+
+import type { Terrain } from './Terrain'
+
+export type WaterConfig = {
+  color: string
+  opacity: number
+  /** Height of the vertex swell in metres. */
+  waveHeight: number
+}
+
+/**
+ * One flat sheet at `waterLevel` over the whole map; terrain above it hides the
+ * rest, which leaves the lakes and river beds. Waves are a few moving sines:
+ * a small vertex swell plus rippled normals for the highlights.
+ */
+export class Water {
+  readonly group = new Group()
+
+  private readonly cfg: WaterConfig
+  private readonly material: MeshStandardMaterial
+  private readonly mesh: Mesh
+  private readonly time = { value: 0 }
+
+  constructor(terrain: Terrain, config?: Partial<WaterConfig>) {
+    this.cfg = {
+      color: '#3d6f8c',
+      opacity: 0.82,
+      waveHeight: 0.06,
+      ...config,
+    }
+
+    const { width, depth, waterLevel } = terrain.config
+
+    this.material = new MeshStandardMaterial({
+      color: new Color(this.cfg.color),
+      roughness: 0.12,
+      metalness: 0.0,
+      transparent: true,
+      opacity: this.cfg.opacity,
+    })
+
+    const waveHeight = { value: this.cfg.waveHeight }
+
+    this.material.onBeforeCompile = (shader) => {
+      shader.uniforms.waterTime = this.time
+      shader.uniforms.waveHeight = waveHeight
+
+      const waves = `uniform float waterTime;
+uniform float waveHeight;
+varying vec3 vWaterPos;
+
+// Height of the swell and its slope (d/dx, d/dz), from three sines drifting across the map.
+vec3 waterWaves(vec2 p) {
+  vec3 w = vec3(0.0);
+  vec2 dirs[3] = vec2[3](vec2(0.8, 0.6), vec2(-0.5, 0.85), vec2(0.95, -0.3));
+  float freqs[3] = float[3](0.35, 0.6, 1.3);
+  float speeds[3] = float[3](0.9, 1.3, 2.1);
+  for (int i = 0; i < 3; i++) {
+    float phase = dot(dirs[i], p) * freqs[i] + waterTime * speeds[i];
+    float amp = 1.0 / float(i + 1);
+    w.x += sin(phase) * amp;
+    w.yz += dirs[i] * cos(phase) * freqs[i] * amp;
+  }
+  return w;
+}`
+
+      shader.vertexShader = shader.vertexShader
+        .replace('#include <common>', `#include <common>\n${waves}`)
+        .replace(
+          '#include <begin_vertex>',
+          `#include <begin_vertex>
+vWaterPos = (modelMatrix * vec4(transformed, 1.0)).xyz;
+transformed.z += waterWaves(vWaterPos.xz).x * waveHeight;`,
+        )
+
+      shader.fragmentShader = shader.fragmentShader
+        .replace('#include <common>', `#include <common>\n${waves}`)
+        .replace(
+          '#include <normal_fragment_maps>',
+          `#include <normal_fragment_maps>
+// Finer ripples than the mesh can show, tilted into the view-space normal.
+vec3 ripple = waterWaves(vWaterPos.xz * 3.0) * 0.08 + waterWaves(vWaterPos.xz) * 0.05;
+normal = normalize(normal - (viewMatrix * vec4(ripple.y, 0.0, ripple.z, 0.0)).xyz);`,
+        )
+    }
+
+    // The plane is built in XY and laid flat, so its local z is world up.
+    this.mesh = new Mesh(new PlaneGeometry(width, depth, 128, 128), this.material)
+    this.mesh.rotation.x = -Math.PI / 2
+    this.mesh.position.y = waterLevel
+    this.mesh.receiveShadow = true
+    this.group.add(this.mesh)
+  }
+
+  update(dt: number) {
+    this.time.value += dt
+  }
+
+  dispose() {
+    this.mesh.geometry.dispose()
+    this.group.clear()
+    this.material.dispose()
+  }
+}
@@ -0,0 +1,96 @@
+import type { LevelFile } from '../levels/LevelFile'
+import { clamp, lerp, smoothstep } from '../utils/math'
+import { deriveSeed, mulberry32 } from '../utils/random'
+
+export type WeatherState = {
+  /** 0 dry, 1 downpour. */
+  rain: number
+  /** 0 calm, 1 gale. */
+  wind: number
+  /** Direction the wind blows towards, radians from +X towards +Z. */
+  windAngle: number
+  /** How thick the fog banks are, 0–1. */
+  fog: number
+  /** Rain and wind together, 0–1. */
+  storm: number
+}
+
+/**
+ * Seeded weather: time is cut into spells of `changeInterval` seconds, each
+ * with its own rain, wind and fog, and the end of every spell blends into the
+ * next. The state depends only on the seed and `time`, so saves and replays
+ * only need the clock. The first spell is always clear.
+ */
+export class Weather {
+  /** Seconds since the run started. */
+  time = 0
+  state: WeatherState
+
+  constructor(
+    private readonly seed: number,
+    private readonly cfg: LevelFile['weather'],
+  ) {
+    this.state = this.stateAt(0)
+  }
+
+  update(dt: number) {
+    this.time += dt
+    this.state = this.stateAt(this.time)
+  }
+
+  /** Jumps the clock, e.g. when restoring a save. */
+  setTime(time: number) {
+    this.time = time
+    this.state = this.stateAt(time)
+  }
+
+  /** Traction multiplier for the dog: 1 when dry, lower on wet ground. */
+  get grip() {
+    return 1 - this.state.rain * this.cfg.rainGripLoss
+  }
+
+  /** How many times faster a scent fades than in calm air. */
+  get scentFade() {
+    return 1 + this.state.wind * this.cfg.windScentFade
+  }
+
+  stateAt(time: number): WeatherState {
+    const { changeInterval } = this.cfg
+    if (changeInterval <= 0) return this.spell(0)
+
+    const spell = Math.floor(time / changeInterval)
+    const progress = time / changeInterval - spell
+    // The last quarter of a spell turns into the next one.
+    const t = smoothstep(0.75, 1, progress)
+
+    const a = this.spell(spell)
+    const b = this.spell(spell + 1)
+
+    const rain = lerp(a.rain, b.rain, t)
+    const wind = lerp(a.wind, b.wind, t)
+    const turn = Math.atan2(Math.sin(b.windAngle - a.windAngle), Math.cos(b.windAngle - a.windAngle))
+
+    return {
+      rain,
+      wind,
+      windAngle: a.windAngle + turn * t,
+      fog: lerp(a.fog, b.fog, t),
+      storm: Math.min(rain, wind),
+    }
+  }
+
+  private spell(index: number): WeatherState {
+    const { cfg } = this
+    const rand = mulberry32(deriveSeed(this.seed, `spell:${index}`))
+
+    const windAngle = rand() * Math.PI * 2
+    if (index === 0) return { rain: 0, wind: 0.15 * cfg.windMax, windAngle, fog: 0, storm: 0 }
+
+    const rain = rand() < cfg.rainChance ? 0.4 + rand() * 0.6 : 0
+    // Rain brings wind more often than not.
+    const wind = clamp(rand() * 0.6 + rain * 0.5, 0, 1) * cfg.windMax
+    const fog = rand() < cfg.fogChance ? 0.5 + rand() * 0.5 : 0
+
+    return { rain, wind, windAngle, fog, storm: Math.min(rain, wind) }
+  }
+}
@@ -0,0 +1,197 @@
+import {
+  BufferAttribute,
+  BufferGeometry,
+  Color,
+  DirectionalLight,
+  Fog,
+  Group,
+  LineBasicMaterial,
+  LineSegments,
+  Scene,
+  Vector2,
+  Vector3,
+} from 'three'
+import { createNoise2D, type NoiseFunction2D } from 'simplex-noise'
+
+import type { LevelFile } from '../levels/LevelFile'
+import { clamp, lerp, smoothstep } from '../utils/math'
+import { deriveSeed, mulberry32 } from '../utils/random'
+import type { WeatherState } from './Weather'
+import { weatherUniforms } from './WeatherShading'
+
+export type WeatherEffectsConfig = {
+  /** Most rain streaks on screen, at full rain. */
+  drops: number
+  /** Rain falls in a box this far around the camera. */
+  radius: number
+  height: number
+  fallSpeed: number
+  /** Feature size of the fog banks in metres. */
+  fogBankScale: number
+}
+
+// Wet ground soaks up quickly and dries slowly.
+const WETTING_RATE = 0.25
+const DRYING_RATE = 0.02
+
+/**
+ * Draws `Weather`: rain streaks around the camera, fog banks drifting with the
+ * wind, a greyer sky and a dimmer sun, and the shared wind and wetness uniforms.
+ * Runs after `DayNight`, which resets the sky colors every frame.
+ */
+export class WeatherEffects {
+  readonly group = new Group()
+
+  private readonly cfg: WeatherEffectsConfig
+  private readonly rain: LineSegments<BufferGeometry, LineBasicMaterial>
+  private readonly drops: Float32Array
+  private readonly positions: Float32Array
+  private readonly fogNoise: NoiseFunction2D
+  private readonly fogDrift = new Vector2()
+  private readonly grey = new Color()
+  private fogNear: number
+  private fogFar: number
+
+  constructor(
+    private readonly scene: Scene,
+    private readonly sun: DirectionalLight,
+    lighting: LevelFile['lighting'],
+    private readonly weather: LevelFile['weather'],
+    seed: number,
+    config?: Partial<WeatherEffectsConfig>,
+  ) {
+    this.cfg = {
+      drops: 3000,
+      radius: 28,
+      height: 22,
+      fallSpeed: 24,
+      fogBankScale: 240,
+      ...config,
+    }
+
+    const { drops, radius, height } = this.cfg
+    const rand = mulberry32(deriveSeed(seed, 'rain'))
+
+    // Drop xyz inside the rain box; the box is wrapped around the camera every frame.
+    this.drops = new Float32Array(drops * 3)
+    for (let i = 0; i < drops; i++) {
+      this.drops[i * 3] = rand() * radius * 2
+      this.drops[i * 3 + 1] = rand() * height
+      this.drops[i * 3 + 2] = rand() * radius * 2
+    }
+
+    this.positions = new Float32Array(drops * 6)
+    const geometry = new BufferGeometry()
+    geometry.setAttribute('position', new BufferAttribute(this.positions, 3))
+
+    this.rain = new LineSegments(
+      geometry,
+      new LineBasicMaterial({ color: 0xaab8c8, transparent: true, opacity: 0, depthWrite: false }),
+    )
+    this.rain.frustumCulled = false
+    this.rain.visible = false
+    this.group.add(this.rain)
+
+    this.fogNoise = createNoise2D(mulberry32(deriveSeed(seed, 'fog')))
+    this.fogNear = lighting.fog.near
+    this.fogFar = lighting.fog.far
+  }
+
+  /** Clear-weather fog range; the level's by default, closer with a shorter draw distance. */
+  setFogRange(near: number, far: number) {
+    this.fogNear = near
+    this.fogFar = far
+  }
+
+  update(dt: number, state: WeatherState, camera: Vector3) {
+    const windX = Math.cos(state.windAngle)
+    const windZ = Math.sin(state.windAngle)
+
+    weatherUniforms.windTime.value += dt * (0.6 + state.wind)
+    weatherUniforms.windStrength.value = state.wind
+    weatherUniforms.windDir.value.set(windX, windZ)
+
+    const wetness = weatherUniforms.wetness
+    const step = (state.rain > wetness.value ? WETTING_RATE : DRYING_RATE) * dt
+    wetness.value += clamp(state.rain - wetness.value, -step, step)
+
+    this.updateRain(dt, state, camera, windX, windZ)
+
+    // Fog banks drift downwind; inside one the view closes in.
+    this.fogDrift.x += windX * (1 + state.wind * 5) * dt
+    this.fogDrift.y += windZ * (1 + state.wind * 5) * dt
+    const f = 1 / this.cfg.fogBankScale
+    const n = this.fogNoise((camera.x - this.fogDrift.x) * f, (camera.z - this.fogDrift.y) * f)
+    const bank = smoothstep(-0.1, 0.45, n) * state.fog
+
+    const fog = this.scene.fog as Fog
+    const bankFar = Math.min(this.weather.fogBankFar, this.fogFar)
+    const far = lerp(this.fogFar, bankFar, bank) * (1 - 0.4 * state.rain)
+    fog.far = Math.max(far, bankFar * 0.5)
+    fog.near = Math.min(lerp(this.fogNear, 4, Math.max(bank, state.rain * 0.5)), fog.far * 0.5)
+
+    // Overcast: the sky loses its color and the sun its strength.
+    const overcast = Math.max(state.rain * 0.7, bank * 0.8)
+    desaturate(fog.color, overcast, this.grey)
+    desaturate(this.scene.background as Color, overcast, this.grey)
+    this.sun.intensity *= 1 - 0.6 * Math.max(state.rain, bank * 0.5)
+  }
+
+  dispose() {
+    this.rain.geometry.dispose()
+    this.rain.material.dispose()
+    this.group.clear()
+  }
+
+  private updateRain(dt: number, state: WeatherState, camera: Vector3, windX: number, windZ: number) {
+    const { drops, radius, height, fallSpeed } = this.cfg
+    const count = Math.round(drops * state.rain)
+
+    this.rain.visible = count > 0
+    if (!this.rain.visible) return
+
+    this.rain.material.opacity = 0.2 + 0.3 * state.rain
+    this.rain.geometry.setDrawRange(0, count * 2)
+
+    // Streaks lean with the wind and are about as long as a frame of fall.
+    const slant = state.wind * 0.6
+    const length = 0.7
+    const size = radius * 2
+    const top = camera.y + height * 0.6
+
+    for (let i = 0; i < count; i++) {
+      const d = i * 3
+      let y = this.drops[d + 1] - fallSpeed * dt
+      if (y < 0) y += height
+      this.drops[d + 1] = y
+
+      // Wind carries the drops sideways as they fall.
+      this.drops[d] += windX * state.wind * 8 * dt
+      this.drops[d + 2] += windZ * state.wind * 8 * dt
+
+      const x = camera.x - radius + mod(this.drops[d] - camera.x, size)
+      const z = camera.z - radius + mod(this.drops[d + 2] - camera.z, size)
+      const wy = top - height + y
+
+      const p = i * 6
+      this.positions[p] = x
+      this.positions[p + 1] = wy
+      this.positions[p + 2] = z
+      this.positions[p + 3] = x + windX * slant * length
+      this.positions[p + 4] = wy - length
+      this.positions[p + 5] = z + windZ * slant * length
+    }
+
+    const position = this.rain.geometry.getAttribute('position') as BufferAttribute
+    position.needsUpdate = true
+  }
+}
+
+function desaturate(color: Color, amount: number, scratch: Color) {
+  const grey = (color.r + color.g + color.b) / 3
+  color.lerp(scratch.setRGB(grey, grey, grey), amount)
+}
+
+function mod(value: number, size: number) {
+  return ((value % size) + size) % size
+}
@@ -0,0 +1,83 @@
+import { MeshStandardMaterial, Vector2 } from 'three'
+
+/**
+ * Uniforms shared by every material that reacts to the weather. `WeatherEffects`
+ * writes them once per frame, so materials created later (each round's decor)
+ * pick up the current values without being registered anywhere.
+ */
+export const weatherUniforms = {
+  windTime: { value: 0 },
+  /** 0 calm, 1 gale. */
+  windStrength: { value: 0 },
+  /** Direction the wind blows towards in world xz. */
+  windDir: { value: new Vector2(1, 0) },
+  /** 0 dry, 1 soaked. */
+  wetness: { value: 0 },
+}
+
+export type WeatherShadingOptions = {
+  /** Bend the mesh with the wind, more towards the top. */
+  sway: boolean
+  /** Model-space height of the top of the mesh, where the sway is strongest. */
+  swayHeight: number
+}
+
+/**
+ * Adds wet shading, and optionally wind sway, on top of whatever the material
+ * already injects. Wet surfaces get darker and shinier.
+ */
+export function addWeatherShading(material: MeshStandardMaterial, options?: Partial<WeatherShadingOptions>) {
+  const opts: WeatherShadingOptions = { sway: false, swayHeight: 1, ...options }
+  const previous = material.onBeforeCompile
+  const previousKey = material.customProgramCacheKey()
+  const swayHeight = { value: opts.swayHeight }
+
+  material.onBeforeCompile = (shader, renderer) => {
+    previous.call(material, shader, renderer)
+    Object.assign(shader.uniforms, weatherUniforms)
+    shader.uniforms.swayHeight = swayHeight
+
+    if (opts.sway) {
+      shader.vertexShader = shader.vertexShader
+        .replace(
+          '#include <common>',
+          `#include <common>
+uniform float windTime;
+uniform float windStrength;
+uniform vec2 windDir;
+uniform float swayHeight;`,
+        )
+        .replace(
+          '#include <project_vertex>',
+          `vec4 swayLocal = vec4(transformed, 1.0);
+float swayScale = length(modelMatrix[1].xyz);
+#ifdef USE_INSTANCING
+swayLocal = instanceMatrix * swayLocal;
+swayScale *= length(instanceMatrix[1].xyz);
+#endif
+vec4 swayWorld = modelMatrix * swayLocal;
+// Each tree gets its own gust phase from where it stands.
+float swayPhase = dot(modelMatrix[3].xz, vec2(0.37, 0.51));
+#ifdef USE_INSTANCING
+swayPhase += dot(instanceMatrix[3].xz, vec2(0.37, 0.51));
+#endif
+float swayBend = pow(clamp(transformed.y / swayHeight, 0.0, 1.0), 2.0);
+float swayGust = 0.6 + 0.4 * sin(windTime * 1.7 + swayPhase) + 0.15 * sin(windTime * 4.3 + swayPhase * 2.0);
+swayWorld.xz += windDir * swayBend * swayHeight * swayScale * (0.01 + 0.05 * windStrength) * swayGust;
+vec4 mvPosition = viewMatrix * swayWorld;
+gl_Position = projectionMatrix * mvPosition;`,
+        )
+    }
+
+    shader.fragmentShader = shader.fragmentShader
+      .replace('#include <common>', `#include <common>\nuniform float wetness;`)
+      .replace('#include <color_fragment>', `#include <color_fragment>\ndiffuseColor.rgb *= 1.0 - 0.3 * wetness;`)
+      .replace(
+        '#include <roughnessmap_fragment>',
+        `#include <roughnessmap_fragment>\nroughnessFactor = mix(roughnessFactor, 0.3, wetness * 0.65);`,
+      )
+  }
+
+  material.customProgramCacheKey = () => `${previousKey}|${previous.toString()}|weather${opts.sway ? '-sway' : ''}`
+  material.needsUpdate = true
+}
@@ -1,7 +1,65 @@
 import './style.css'
 import { Game } from './game/Game'
+import { parseSeed, randomSeed } from './game/utils/random'
+import { parseReplay, type ReplayFile } from './game/input/Replay'
+import { loadRunSnapshot } from './game/save/RunSnapshot'
+import { DEFAULT_LEVEL_ID, loadLevelFile } from './game/levels/LevelFile'
+import { SHADOW_QUALITIES, type ShadowQuality } from './game/world/SunShadows'
 
-function renderAppShell() {
+/** Loads `?replay=<url>` if present (a file saved with F8). */
+async function loadReplayFromUrl(): Promise<ReplayFile | null> {
+  const src = new URL(window.location.href).searchParams.get('replay')
+  if (!src) return null
+
+  const res = await fetch(src)
+  if (!res.ok) throw new Error(`Replay ${src}: HTTP ${res.status}`)
+  return parseReplay(await res.json())
+}
+
+/** Reads `?level=` (a file in `public/levels/`) and writes it back like the seed. */
+function resolveLevelId(forced: string | null, fallback: string | null) {
+  const url = new URL(window.location.href)
+  const id = forced ?? url.searchParams.get('level') ?? fallback ?? DEFAULT_LEVEL_ID
+
+  url.searchParams.set('level', id)
+  window.history.replaceState(null, '', url)
+
+  return id
+}
+
+/**
+ * Reads `?seed=` (falling back to the saved run's world, then a random one) and
+ * writes it back so the URL always reproduces the world.
+ */
+function resolveWorldSeed(forced: number | null, fallback: number | null) {
+  const url = new URL(window.location.href)
+  const seed = forced ?? parseSeed(url.searchParams.get('seed')) ?? fallback ?? randomSeed()
+
+  url.searchParams.set('seed', String(seed))
+  window.history.replaceState(null, '', url)
+
+  return seed
+}
+
+/** Reads `?shadows=low|medium|high|ultra`; anything else keeps the default. */
+function readShadowQuality(): ShadowQuality | undefined {
+  const value = new URL(window.location.href).searchParams.get('shadows')
+  return SHADOW_QUALITIES.find((q) => q === value)
+}
+
+/** Shown instead of the game when it cannot start, e.g. a broken level file. */
+function renderFatalError(message: string) {
+  const app = document.querySelector<HTMLDivElement>('#app')
+  if (!app) throw new Error('Missing #app')
+
+  const status = document.createElement('div')
+  status.id = 'status'
+  status.className = 'fatal'
+  status.textContent = message
+  app.replaceChildren(status)
+}
+
+function renderAppShell(seed: number, levelName: string) {
   const app = document.querySelector<HTMLDivElement>('#app')
   if (!app) throw new Error('Missing #app')
 
@@ -10,15 +68,14 @@ function renderAppShell() {
     <div id="hud">
       <div class="hud-row">
         <div class="hud-help">
-          <div><b>WASD / Стрелки</b> — бег</div>
-          <div><b>Shift</b> — ходьба</div>
-          <div><b>Пробел</b> — прыжок</div>
-          <div><b>Мышь</b> — смотреть (кликни по сцене)</div>
+          <div id="hud-controls" class="hud-help"></div>
+          <div class="hud-seed"></div>
         </div>
         <div id="hunger" class="hud-hunger" title="Голод">
           <span class="hud-hunger-icon">🍓</span>
           <span id="hunger-value">100%</span>
         </div>
+        <div id="level" class="hud-level" title="Уровень">Уровень 1</div>
       </div>
     </div>
     <div id="notice" class="hidden"></div>
@@ -32,6 +89,9 @@ function renderAppShell() {
     <div id="status">Загрузка…</div>
   `
 
+  // The level name comes from a content file, so it never goes through innerHTML.
+  app.querySelector<HTMLDivElement>('.hud-seed')!.textContent = `Мир #${seed} · ${levelName}`
+
   return {
     root: app,
     canvas: app.querySelector<HTMLCanvasElement>('#game')!,
@@ -41,11 +101,30 @@ function renderAppShell() {
     confirmYes: app.querySelector<HTMLButtonElement>('#confirm-yes')!,
     confirmNo: app.querySelector<HTMLButtonElement>('#confirm-no')!,
     hungerValue: app.querySelector<HTMLSpanElement>('#hunger-value')!,
+    levelBadge: app.querySelector<HTMLDivElement>('#level')!,
+    controls: app.querySelector<HTMLDivElement>('#hud-controls')!,
   }
 }
 
 async function main() {
-  const { root, canvas, status, notice, confirm, confirmYes, confirmNo, hungerValue } = renderAppShell()
+  const replay = await loadReplayFromUrl().catch((e) => {
+    console.warn('Replay load failed', e)
+    return null
+  })
+  const snapshot = replay ? null : loadRunSnapshot()
+  const levelId = resolveLevelId(replay ? replay.level ?? DEFAULT_LEVEL_ID : null, snapshot?.level ?? null)
+
+  const level = await loadLevelFile(levelId).catch((e: Error) => {
+    console.error(e)
+    renderFatalError(`Уровень не загрузился: ${e.message}`)
+    return null
+  })
+  if (!level) return
+
+  const savedSeed = (snapshot?.level ?? DEFAULT_LEVEL_ID) === level.id ? snapshot?.seed ?? null : null
+  const seed = resolveWorldSeed(replay?.seed ?? level.seed ?? null, savedSeed)
+  const { root, canvas, status, notice, confirm, confirmYes, confirmNo, hungerValue, levelBadge, controls } =
+    renderAppShell(seed, level.name)
 
   const game = new Game({
     root,
@@ -56,6 +135,13 @@ async function main() {
     confirmYes,
     confirmNo,
     hungerEl: hungerValue,
+    levelEl: levelBadge,
+    controlsEl: controls,
+    seed,
+    level,
+    replay: replay ?? undefined,
+    snapshot: snapshot ?? undefined,
+    shadowQuality: readShadowQuality(),
   })
   await game.init()
   game.start()